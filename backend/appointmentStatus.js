@@ -0,0 +1,99 @@
+// ============================================
+// APPOINTMENT STATE MACHINE
+// ============================================
+// Every status change goes through transitionAppointments, which only moves
+// appointments along the allowed edges below and writes one row per change
+// to appointment_events (who did it, when, and why).
+//
+//   PENDING ──> CONFIRMED ──> COMPLETED
+//      │            │    └──> NO_SHOW
+//      │            └──> CANCELLED
+//      ├──> CANCELLED
+//      └──> FAILED (not confirmed in time)
+
+const STATUSES = ['PENDING', 'CONFIRMED', 'COMPLETED', 'NO_SHOW', 'CANCELLED', 'FAILED'];
+
+const TRANSITIONS = {
+  PENDING: ['CONFIRMED', 'CANCELLED', 'FAILED'],
+  CONFIRMED: ['COMPLETED', 'NO_SHOW', 'CANCELLED'],
+  COMPLETED: [],
+  NO_SHOW: [],
+  CANCELLED: [],
+  FAILED: []
+};
+
+// Statuses that still hold on to their slot
+const ACTIVE_STATUSES = ['PENDING', 'CONFIRMED'];
+
+const canTransition = (from, to) => (TRANSITIONS[from] || []).includes(to);
+
+// Statuses an appointment may be in to move to `to`
+const allowedFrom = (to) => STATUSES.filter((from) => canTransition(from, to));
+
+// Extra columns to stamp when entering a status
+const STATUS_COLUMNS = {
+  CONFIRMED: 'confirmation_time = NOW(),'
+};
+
+// actor is the logged-in user ({ id, role }) or null for background jobs
+const actorParams = (actor) => [actor ? actor.id : null, actor ? actor.role : 'system'];
+
+// Move every appointment in ids that is allowed to reach `to`, and log it.
+// Appointments in any other status are left alone and not returned, so the
+// caller can compare lengths to spot rejected ones.
+const transitionAppointments = async (db, ids, to, { actor = null, note = null } = {}) => {
+  if (!TRANSITIONS[to]) {
+    throw new Error(`Unknown appointment status: ${to}`);
+  }
+  if (ids.length === 0) return [];
+
+  const result = await db.query(
+    `WITH previous AS (
+       SELECT id, status FROM appointments
+       WHERE id = ANY($1) AND status = ANY($3)
+       FOR UPDATE
+     ),
+     moved AS (
+       UPDATE appointments a
+       SET ${STATUS_COLUMNS[to] || ''} status = $2
+       FROM previous p
+       WHERE a.id = p.id
+       RETURNING a.*, p.status AS previous_status
+     ),
+     logged AS (
+       INSERT INTO appointment_events (appointment_id, from_status, to_status, actor_user_id, actor_role, note)
+       SELECT id, previous_status, $2, $4, $5, $6 FROM moved
+     )
+     SELECT * FROM moved`,
+    [ids, to, allowedFrom(to), ...actorParams(actor), note]
+  );
+
+  return result.rows;
+};
+
+// Single-appointment version; returns the updated row or null if the
+// appointment's current status doesn't allow the move
+const transitionAppointment = async (db, id, to, options) => {
+  const [appointment] = await transitionAppointments(db, [id], to, options);
+  return appointment || null;
+};
+
+// Log something that happened to an appointment without changing its
+// status (booking it, rescheduling it, ...)
+const recordAppointmentEvent = async (db, appointment, { actor = null, note = null, from = appointment.status } = {}) => {
+  await db.query(
+    `INSERT INTO appointment_events (appointment_id, from_status, to_status, actor_user_id, actor_role, note)
+     VALUES ($1, $2, $3, $4, $5, $6)`,
+    [appointment.id, from, appointment.status, ...actorParams(actor), note]
+  );
+};
+
+module.exports = {
+  STATUSES,
+  TRANSITIONS,
+  ACTIVE_STATUSES,
+  canTransition,
+  transitionAppointments,
+  transitionAppointment,
+  recordAppointmentEvent
+};
@@ -0,0 +1,121 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  STATUSES,
+  ACTIVE_STATUSES,
+  canTransition,
+  transitionAppointments,
+  transitionAppointment,
+  recordAppointmentEvent
+} = require('./appointmentStatus');
+const { createFakeDb } = require('./testing/fakeDb');
+
+// The appointments table in memory: the transition query moves the rows
+// whose status is one it may leave from, and logs one event per move
+const createAppointmentsDb = (appointments) => {
+  const rows = appointments.map((appointment) => ({ ...appointment }));
+  const events = [];
+
+  const db = createFakeDb([
+    [/WITH previous AS/, ([ids, to, from, actorId, actorRole, note]) => rows
+      .filter((row) => ids.includes(row.id) && from.includes(row.status))
+      .map((row) => {
+        const previousStatus = row.status;
+        row.status = to;
+        events.push({ appointment_id: row.id, from_status: previousStatus, to_status: to, actor_user_id: actorId, actor_role: actorRole, note });
+        return { ...row, previous_status: previousStatus };
+      })],
+    [/^INSERT INTO appointment_events/, ([appointmentId, from, to, actorId, actorRole, note]) => {
+      events.push({ appointment_id: appointmentId, from_status: from, to_status: to, actor_user_id: actorId, actor_role: actorRole, note });
+      return [];
+    }]
+  ]);
+
+  db.appointment = (id) => rows.find((row) => row.id === id);
+  db.events = events;
+  return db;
+};
+
+// ============================================
+// TRANSITIONS
+// ============================================
+
+test('appointments move along the allowed edges', () => {
+  assert.ok(canTransition('PENDING', 'CONFIRMED'));
+  assert.ok(canTransition('PENDING', 'CANCELLED'));
+  assert.ok(canTransition('PENDING', 'FAILED'));
+  assert.ok(canTransition('CONFIRMED', 'COMPLETED'));
+  assert.ok(canTransition('CONFIRMED', 'NO_SHOW'));
+  assert.ok(canTransition('CONFIRMED', 'CANCELLED'));
+});
+
+test('finished appointments never move again, and nothing goes backwards', () => {
+  for (const from of ['COMPLETED', 'NO_SHOW', 'CANCELLED', 'FAILED']) {
+    for (const to of STATUSES) {
+      assert.equal(canTransition(from, to), false, `${from} -> ${to}`);
+    }
+  }
+  assert.equal(canTransition('CONFIRMED', 'PENDING'), false);
+  assert.equal(canTransition('CONFIRMED', 'FAILED'), false);
+  assert.equal(canTransition('PENDING', 'COMPLETED'), false);
+  assert.equal(canTransition('PENDING', 'PENDING'), false);
+  assert.equal(canTransition('UNKNOWN', 'CONFIRMED'), false);
+});
+
+test('only PENDING and CONFIRMED appointments are active', () => {
+  assert.deepEqual(ACTIVE_STATUSES, ['PENDING', 'CONFIRMED']);
+  for (const status of ACTIVE_STATUSES) {
+    assert.ok(canTransition(status, 'CANCELLED'));
+  }
+});
+
+// ============================================
+// STATUS CHANGES
+// ============================================
+
+test('transitionAppointments moves the allowed appointments and skips the rest', async () => {
+  const db = createAppointmentsDb([
+    { id: 1, status: 'PENDING' },
+    { id: 2, status: 'CONFIRMED' },
+    { id: 3, status: 'CANCELLED' },
+    { id: 4, status: 'COMPLETED' }
+  ]);
+
+  const moved = await transitionAppointments(db, [1, 2, 3, 4], 'CANCELLED', { actor: { id: 5, role: 'admin' }, note: 'Clinic closed' });
+
+  assert.deepEqual(moved.map((row) => [row.id, row.previous_status]), [[1, 'PENDING'], [2, 'CONFIRMED']]);
+  assert.equal(db.appointment(4).status, 'COMPLETED');
+  assert.deepEqual(db.events.map((event) => [event.appointment_id, event.actor_role, event.note]), [
+    [1, 'admin', 'Clinic closed'],
+    [2, 'admin', 'Clinic closed']
+  ]);
+});
+
+test('transitionAppointment returns null when the status does not allow the move', async () => {
+  const db = createAppointmentsDb([{ id: 1, status: 'CONFIRMED' }]);
+
+  assert.equal(await transitionAppointment(db, 1, 'FAILED'), null);
+  assert.equal(db.appointment(1).status, 'CONFIRMED');
+
+  const completed = await transitionAppointment(db, 1, 'COMPLETED');
+  assert.equal(completed.status, 'COMPLETED');
+  assert.equal(db.events[0].actor_role, 'system');
+});
+
+test('unknown statuses are refused and an empty list sends no query', async () => {
+  const db = createAppointmentsDb([{ id: 1, status: 'PENDING' }]);
+
+  await assert.rejects(() => transitionAppointments(db, [1], 'ARCHIVED'), /Unknown appointment status/);
+  assert.deepEqual(await transitionAppointments(db, [], 'CONFIRMED'), []);
+  assert.equal(db.queries.length, 0);
+});
+
+test('recordAppointmentEvent logs an event without changing the status', async () => {
+  const db = createAppointmentsDb([]);
+
+  await recordAppointmentEvent(db, { id: 1, status: 'PENDING' }, { actor: { id: 7, role: 'patient' }, from: null, note: 'Booked' });
+
+  assert.deepEqual(db.events, [
+    { appointment_id: 1, from_status: null, to_status: 'PENDING', actor_user_id: 7, actor_role: 'patient', note: 'Booked' }
+  ]);
+});
@@ -0,0 +1,89 @@
+// ============================================
+// CANCELLATION POLICIES
+// ============================================
+// Patients cancelling are held to the most specific policy: their doctor's,
+// else the slot location's, else the clinic-wide default.
+//   min_notice_hours   less notice than this can't be cancelled online
+//   late_notice_hours  less notice than this is a late cancellation, which
+//   late_fee_percent   keeps this share of the paid fee
+//   max_cancellations  cancellations allowed per period_days (null = no limit)
+// Staff cancellations are only refused once the visit has started, and are
+// refunded in full.
+
+const { PAYMENT_CURRENCY, PAID_STATUSES } = require('./payments');
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const policyScope = (policy) => (policy.doctor_id ? 'doctor' : policy.location_id ? 'location' : 'default');
+
+const findCancellationPolicy = async (db, doctorId, locationId) => {
+  const result = await db.query(
+    `SELECT * FROM cancellation_policies
+     WHERE doctor_id = $1 OR location_id = $2 OR (doctor_id IS NULL AND location_id IS NULL)
+     ORDER BY doctor_id IS NULL, location_id IS NULL
+     LIMIT 1`,
+    [doctorId, locationId || null]
+  );
+  const policy = result.rows[0];
+  return { ...policy, scope: policyScope(policy) };
+};
+
+// What cancelling would mean right now (needs doctor_id, location_id and
+// starts_at on the appointment). Rescheduling gives up the booked time too,
+// so it is held to the same rules (action: 'rescheduled' for its reasons).
+// Returns { policy, allowed, reason, hours_notice, is_late, fee_percent,
+// fee_amount, refund_amount, currency, cancellations_used }.
+const evaluateCancellation = async (db, appointment, actor, { action = 'cancelled' } = {}) => {
+  const policy = await findCancellationPolicy(db, appointment.doctor_id, appointment.location_id);
+  const hoursNotice = (new Date(appointment.starts_at) - Date.now()) / HOUR_MS;
+  const isPatient = actor.role === 'patient';
+
+  let cancellationsUsed = 0;
+  if (isPatient && policy.max_cancellations) {
+    const used = await db.query(
+      `SELECT COUNT(*)::int AS count FROM appointment_events
+       WHERE to_status = 'CANCELLED' AND actor_role = 'patient' AND actor_user_id = $1
+       AND created_at > NOW() - make_interval(days => $2)`,
+      [actor.id, policy.period_days]
+    );
+    cancellationsUsed = used.rows[0].count;
+  }
+
+  let reason = null;
+  if (hoursNotice <= 0) {
+    reason = `This appointment has already started and can no longer be ${action}`;
+  } else if (isPatient && hoursNotice < policy.min_notice_hours) {
+    reason = `Appointments can't be ${action} online less than ${policy.min_notice_hours} hours before. Please call the clinic.`;
+  } else if (isPatient && policy.max_cancellations && cancellationsUsed >= policy.max_cancellations) {
+    reason = `You have already cancelled ${cancellationsUsed} appointments in the last ${policy.period_days} days. Please call the clinic.`;
+  }
+
+  const isLate = isPatient && hoursNotice < policy.late_notice_hours;
+  const feePercent = isLate ? policy.late_fee_percent : 0;
+
+  // Fees are only ever kept from money already paid
+  const paymentResult = await db.query('SELECT * FROM payments WHERE appointment_id = $1', [appointment.id]);
+  const payment = paymentResult.rows[0];
+  const isPaid = Boolean(payment && PAID_STATUSES.includes(payment.status));
+  const feeAmount = isPaid ? Math.round(Number(payment.amount) * feePercent) / 100 : 0;
+  const refundable = isPaid ? Number(payment.amount) - Number(payment.refunded_amount) : 0;
+
+  return {
+    policy,
+    allowed: reason === null,
+    reason,
+    hours_notice: Math.max(0, Math.floor(hoursNotice)),
+    is_late: isLate,
+    fee_percent: feePercent,
+    fee_amount: feeAmount,
+    refund_amount: Math.max(0, Math.round((refundable - feeAmount) * 100) / 100),
+    currency: payment ? payment.currency : PAYMENT_CURRENCY,
+    cancellations_used: cancellationsUsed
+  };
+};
+
+module.exports = {
+  policyScope,
+  findCancellationPolicy,
+  evaluateCancellation
+};
@@ -0,0 +1,172 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { findCancellationPolicy, evaluateCancellation } = require('./cancellationPolicies');
+const { createFakeDb } = require('./testing/fakeDb');
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const patient = { id: 7, role: 'patient' };
+const admin = { id: 1, role: 'admin' };
+
+const createPolicy = (overrides = {}) => ({
+  id: 1,
+  doctor_id: null,
+  location_id: null,
+  min_notice_hours: 0,
+  late_notice_hours: 24,
+  late_fee_percent: 0,
+  max_cancellations: null,
+  period_days: 30,
+  ...overrides
+});
+
+// An appointment of doctor 3 at location 2, starting in hoursAhead hours
+const createAppointment = (hoursAhead) => ({
+  id: 9,
+  doctor_id: 3,
+  location_id: 2,
+  starts_at: new Date(Date.now() + hoursAhead * HOUR_MS).toISOString()
+});
+
+// The policies table in memory (picked like the query's ORDER BY does), the
+// patient's cancellations in the period and the appointment's payment
+const createPolicyDb = ({ policies = [createPolicy()], cancellationsUsed = 0, payment = null } = {}) => createFakeDb([
+  [/FROM cancellation_policies/, ([doctorId, locationId]) => {
+    const rank = (policy) => (policy.doctor_id === doctorId ? 0 : policy.location_id === locationId ? 1 : 2);
+    return policies
+      .filter((policy) => policy.doctor_id === doctorId || policy.location_id === locationId ||
+        (policy.doctor_id === null && policy.location_id === null))
+      .sort((a, b) => rank(a) - rank(b))
+      .slice(0, 1);
+  }],
+  [/FROM appointment_events/, () => [{ count: cancellationsUsed }]],
+  [/FROM payments/, () => (payment ? [payment] : [])]
+]);
+
+const paidPayment = { amount: '500.00', refunded_amount: '0.00', currency: 'INR', status: 'SUCCEEDED' };
+
+// ============================================
+// POLICY PRECEDENCE
+// ============================================
+
+test("the doctor's policy comes before the location's and the default", async () => {
+  const policies = [
+    createPolicy({ id: 1 }),
+    createPolicy({ id: 2, location_id: 2 }),
+    createPolicy({ id: 3, doctor_id: 3 })
+  ];
+
+  const policy = await findCancellationPolicy(createPolicyDb({ policies }), 3, 2);
+  assert.equal(policy.id, 3);
+  assert.equal(policy.scope, 'doctor');
+});
+
+test("the location's policy comes before the default", async () => {
+  const policies = [createPolicy({ id: 1 }), createPolicy({ id: 2, location_id: 2 }), createPolicy({ id: 3, doctor_id: 4 })];
+
+  const policy = await findCancellationPolicy(createPolicyDb({ policies }), 3, 2);
+  assert.equal(policy.id, 2);
+  assert.equal(policy.scope, 'location');
+});
+
+test('the default applies when neither the doctor nor the location has a policy', async () => {
+  const policies = [createPolicy({ id: 1 }), createPolicy({ id: 2, location_id: 5 })];
+
+  const policy = await findCancellationPolicy(createPolicyDb({ policies }), 3, null);
+  assert.equal(policy.id, 1);
+  assert.equal(policy.scope, 'default');
+});
+
+// ============================================
+// NOTICE WINDOW
+// ============================================
+
+test('patients cannot cancel online within the minimum notice', async () => {
+  const db = createPolicyDb({ policies: [createPolicy({ min_notice_hours: 12 })] });
+
+  const late = await evaluateCancellation(db, createAppointment(6), patient);
+  assert.equal(late.allowed, false);
+  assert.match(late.reason, /less than 12 hours before/);
+
+  assert.equal((await evaluateCancellation(db, createAppointment(13), patient)).allowed, true);
+});
+
+test('staff can cancel within the minimum notice, but nobody once the visit has started', async () => {
+  const db = createPolicyDb({ policies: [createPolicy({ min_notice_hours: 12 })] });
+
+  assert.equal((await evaluateCancellation(db, createAppointment(1), admin)).allowed, true);
+
+  const started = await evaluateCancellation(db, createAppointment(-0.5), admin);
+  assert.equal(started.allowed, false);
+  assert.match(started.reason, /already started/);
+  assert.equal(started.hours_notice, 0);
+});
+
+test('rescheduling is held to the same notice and says so', async () => {
+  const db = createPolicyDb({ policies: [createPolicy({ min_notice_hours: 12 })] });
+
+  const late = await evaluateCancellation(db, createAppointment(6), patient, { action: 'rescheduled' });
+  assert.equal(late.allowed, false);
+  assert.match(late.reason, /can't be rescheduled online less than 12 hours before/);
+
+  const started = await evaluateCancellation(db, createAppointment(-1), admin, { action: 'rescheduled' });
+  assert.match(started.reason, /can no longer be rescheduled/);
+});
+
+// ============================================
+// LATE FEES
+// ============================================
+
+test('a late cancellation keeps the late fee percent of the paid fee', async () => {
+  const db = createPolicyDb({ policies: [createPolicy({ late_notice_hours: 24, late_fee_percent: 25 })], payment: paidPayment });
+
+  const late = await evaluateCancellation(db, createAppointment(10), patient);
+  assert.equal(late.is_late, true);
+  assert.equal(late.fee_percent, 25);
+  assert.equal(late.fee_amount, 125);
+  assert.equal(late.refund_amount, 375);
+
+  const early = await evaluateCancellation(db, createAppointment(30), patient);
+  assert.equal(early.is_late, false);
+  assert.equal(early.fee_amount, 0);
+  assert.equal(early.refund_amount, 500);
+});
+
+test('late fees are only kept from money paid, and never from staff cancellations', async () => {
+  const policies = [createPolicy({ late_fee_percent: 25 })];
+
+  const unpaid = await evaluateCancellation(createPolicyDb({ policies }), createAppointment(10), patient);
+  assert.equal(unpaid.is_late, true);
+  assert.equal(unpaid.fee_amount, 0);
+  assert.equal(unpaid.refund_amount, 0);
+
+  const byStaff = await evaluateCancellation(createPolicyDb({ policies, payment: paidPayment }), createAppointment(10), admin);
+  assert.equal(byStaff.is_late, false);
+  assert.equal(byStaff.refund_amount, 500);
+});
+
+// ============================================
+// CANCELLATION LIMITS
+// ============================================
+
+test('patients are held to max_cancellations per period', async () => {
+  const policies = [createPolicy({ max_cancellations: 2, period_days: 14 })];
+
+  const under = createPolicyDb({ policies, cancellationsUsed: 1 });
+  assert.equal((await evaluateCancellation(under, createAppointment(48), patient)).allowed, true);
+  assert.deepEqual(under.queries.find(({ sql }) => /appointment_events/.test(sql)).params, [7, 14]);
+
+  const used = await evaluateCancellation(createPolicyDb({ policies, cancellationsUsed: 2 }), createAppointment(48), patient);
+  assert.equal(used.allowed, false);
+  assert.equal(used.cancellations_used, 2);
+  assert.match(used.reason, /already cancelled 2 appointments in the last 14 days/);
+});
+
+test('cancellations are not counted without a limit or for staff', async () => {
+  const unlimited = createPolicyDb();
+  await evaluateCancellation(unlimited, createAppointment(48), patient);
+  assert.ok(!unlimited.queries.some(({ sql }) => /appointment_events/.test(sql)));
+
+  const byStaff = createPolicyDb({ policies: [createPolicy({ max_cancellations: 1 })], cancellationsUsed: 5 });
+  assert.equal((await evaluateCancellation(byStaff, createAppointment(48), admin)).allowed, true);
+});
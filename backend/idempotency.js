@@ -0,0 +1,149 @@
+// ============================================
+// IDEMPOTENCY KEYS
+// ============================================
+// Logged-in clients may send an Idempotency-Key header with POST, PUT, PATCH
+// and DELETE requests. The first request with a key runs as usual and its
+// response is stored; sending the same request with the same key again (a
+// double click, a retry after a dropped connection) gets the stored response
+// back instead of running it twice. Keys belong to the user that sent them,
+// are tied to the request they were first used for, and are forgotten after
+// IDEMPOTENCY_KEY_TTL_HOURS. Requests without a valid token ignore the header.
+
+const crypto = require('crypto');
+
+const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+const REPLAYED_HEADER = 'Idempotent-Replayed';
+const MAX_KEY_LENGTH = 255;
+const IDEMPOTENCY_KEY_TTL_HOURS = parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS, 10) || 24;
+
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Same method, URL and body give the same fingerprint
+const fingerprintRequest = (req) => crypto
+  .createHash('sha256')
+  .update(`${req.method} ${req.originalUrl}\n${JSON.stringify(req.body ?? null)}`)
+  .digest('hex');
+
+// Claim a key for this request. Returns the new record id, or null when the
+// key is already taken (an expired key is taken over and starts fresh).
+const claimKey = async (db, userId, key, requestHash) => {
+  const result = await db.query(
+    `INSERT INTO idempotency_keys (user_id, idempotency_key, request_hash)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (user_id, idempotency_key) DO UPDATE SET
+       request_hash = EXCLUDED.request_hash,
+       status_code = NULL,
+       response_body = NULL,
+       created_at = NOW(),
+       completed_at = NULL
+     WHERE idempotency_keys.created_at < NOW() - make_interval(hours => $4)
+     RETURNING id`,
+    [userId, key, requestHash, IDEMPOTENCY_KEY_TTL_HOURS]
+  );
+  return result.rows[0]?.id ?? null;
+};
+
+// Express middleware. identify(req) returns the id of the user the request's
+// token belongs to, or null.
+const createIdempotencyMiddleware = (db, identify) => async (req, res, next) => {
+  const key = req.get(IDEMPOTENCY_HEADER);
+  if (!key || !MUTATING_METHODS.includes(req.method)) return next();
+
+  const userId = identify(req);
+  if (!userId) return next();
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({
+      success: false,
+      message: `${IDEMPOTENCY_HEADER} must be at most ${MAX_KEY_LENGTH} characters`
+    });
+  }
+
+  try {
+    const requestHash = fingerprintRequest(req);
+    const recordId = await claimKey(db, userId, key, requestHash);
+
+    if (!recordId) {
+      const existing = await db.query(
+        'SELECT * FROM idempotency_keys WHERE user_id = $1 AND idempotency_key = $2',
+        [userId, key]
+      );
+      const record = existing.rows[0];
+
+      if (record && record.request_hash !== requestHash) {
+        return res.status(422).json({
+          success: false,
+          message: `This ${IDEMPOTENCY_HEADER} was already used for a different request`
+        });
+      }
+      // Still running, or it failed and the key was just let go
+      if (!record || !record.completed_at) {
+        return res.status(409).json({
+          success: false,
+          message: 'This request is still being processed. Please try again in a moment.'
+        });
+      }
+
+      res.set(REPLAYED_HEADER, 'true');
+      return res.status(record.status_code).json(record.response_body);
+    }
+
+    // Store the response before sending it, so a retry that arrives right
+    // after it always finds it. Server errors aren't stored: the key is let
+    // go and the same request can be tried again. Nothing happens when the
+    // client goes away: the key stays in flight (retries get 409) until the
+    // handler finishes and stores its response.
+    let settled = false;
+    const settle = (statusCode, body) => {
+      settled = true;
+      return statusCode >= 500 || body === undefined
+        ? db.query('DELETE FROM idempotency_keys WHERE id = $1', [recordId])
+        : db.query(
+          `UPDATE idempotency_keys
+           SET status_code = $2, response_body = $3, completed_at = NOW()
+           WHERE id = $1`,
+          [recordId, statusCode, JSON.stringify(body)]
+        );
+    };
+
+    const sendJson = res.json.bind(res);
+    res.json = (body) => {
+      settle(res.statusCode, body)
+        .catch((error) => console.error('Error saving idempotent response:', error))
+        .finally(() => sendJson(body));
+      return res;
+    };
+
+    // A response sent without res.json isn't stored, the key is let go
+    const end = res.end.bind(res);
+    res.end = (...args) => {
+      if (!settled) {
+        settle(res.statusCode).catch((error) => console.error('Error releasing idempotency key:', error));
+      }
+      return end(...args);
+    };
+
+    next();
+  } catch (error) {
+    console.error('Error checking idempotency key:', error);
+    res.status(500).json({ success: false, message: 'Server error' });
+  }
+};
+
+// Delete keys past their lifetime, returns how many were removed
+const purgeIdempotencyKeys = async (db) => {
+  const result = await db.query(
+    'DELETE FROM idempotency_keys WHERE created_at < NOW() - make_interval(hours => $1)',
+    [IDEMPOTENCY_KEY_TTL_HOURS]
+  );
+  return result.rowCount;
+};
+
+module.exports = {
+  IDEMPOTENCY_HEADER,
+  IDEMPOTENCY_KEY_TTL_HOURS,
+  fingerprintRequest,
+  claimKey,
+  createIdempotencyMiddleware,
+  purgeIdempotencyKeys
+};
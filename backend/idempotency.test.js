@@ -0,0 +1,202 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { EventEmitter } = require('events');
+const {
+  IDEMPOTENCY_KEY_TTL_HOURS,
+  fingerprintRequest,
+  claimKey,
+  createIdempotencyMiddleware
+} = require('./idempotency');
+const { createFakeDb } = require('./testing/fakeDb');
+
+// The idempotency_keys table in memory, answering the queries the
+// middleware sends (TTL takeover is left to claimKey's own test)
+const createKeysDb = () => {
+  const rows = new Map();
+  let nextId = 1;
+  const byId = (id) => [...rows.values()].find((row) => row.id === id);
+
+  const db = createFakeDb([
+    [/^INSERT INTO idempotency_keys/, ([userId, key, requestHash]) => {
+      if (rows.has(`${userId}:${key}`)) return [];
+      const row = { id: nextId++, user_id: userId, idempotency_key: key, request_hash: requestHash, completed_at: null };
+      rows.set(`${userId}:${key}`, row);
+      return [{ id: row.id }];
+    }],
+    [/^SELECT \* FROM idempotency_keys/, ([userId, key]) => {
+      const row = rows.get(`${userId}:${key}`);
+      return row ? [row] : [];
+    }],
+    [/^\s*UPDATE idempotency_keys/, ([id, statusCode, body]) => {
+      const row = byId(id);
+      if (row) Object.assign(row, { status_code: statusCode, response_body: JSON.parse(body), completed_at: new Date() });
+      return [];
+    }],
+    [/^DELETE FROM idempotency_keys WHERE id/, ([id]) => {
+      const row = byId(id);
+      if (row) rows.delete(`${row.user_id}:${row.idempotency_key}`);
+      return [];
+    }]
+  ]);
+  db.rows = rows;
+  return db;
+};
+
+const createRequest = ({ key = 'key-1', userId = 7, method = 'POST', url = '/api/appointments', body = { slot_id: 1 } } = {}) => ({
+  method,
+  originalUrl: url,
+  body,
+  userId,
+  get: (header) => (header === 'Idempotency-Key' ? key : undefined)
+});
+
+// Just enough of Express's response: json() ends the response like res.send,
+// and ending it closes it
+const createResponse = () => {
+  const res = new EventEmitter();
+  res.statusCode = 200;
+  res.headers = {};
+  res.sent = new Promise((resolve) => { res.resolveSent = resolve; });
+  res.status = (code) => { res.statusCode = code; return res; };
+  res.set = (name, value) => { res.headers[name] = value; return res; };
+  res.json = function (body) { this.body = body; return this.end(); };
+  res.end = function () { this.resolveSent(); this.emit('close'); return this; };
+  return res;
+};
+
+// Run a request through the middleware; handler plays the route
+const send = async (middleware, req, handler = () => {}) => {
+  const res = createResponse();
+  let handled = false;
+  await middleware(req, res, () => {
+    handled = true;
+    handler(req, res);
+  });
+  await res.sent;
+  return { res, handled };
+};
+
+const identify = (req) => req.userId;
+
+test('fingerprintRequest depends on method, url and body', () => {
+  const base = createRequest();
+  assert.equal(fingerprintRequest(base), fingerprintRequest(createRequest()));
+  assert.notEqual(fingerprintRequest(base), fingerprintRequest(createRequest({ body: { slot_id: 2 } })));
+  assert.notEqual(fingerprintRequest(base), fingerprintRequest(createRequest({ url: '/api/appointments/1' })));
+  assert.notEqual(fingerprintRequest(base), fingerprintRequest(createRequest({ method: 'PUT' })));
+});
+
+test('claimKey returns the new id, or null when the key is taken', async () => {
+  let claims = 0;
+  const db = createFakeDb([[/INSERT INTO idempotency_keys/, () => (claims++ === 0 ? [{ id: 3 }] : [])]]);
+
+  assert.equal(await claimKey(db, 7, 'key-1', 'hash'), 3);
+  assert.equal(await claimKey(db, 7, 'key-1', 'hash'), null);
+  assert.deepEqual(db.queries[0].params, [7, 'key-1', 'hash', IDEMPOTENCY_KEY_TTL_HOURS]);
+});
+
+test('requests without a key or a user skip the middleware', async () => {
+  const db = createKeysDb();
+  const middleware = createIdempotencyMiddleware(db, identify);
+
+  for (const req of [createRequest({ key: '' }), createRequest({ userId: null }), createRequest({ method: 'GET' })]) {
+    let called = false;
+    await middleware(req, createResponse(), () => { called = true; });
+    assert.ok(called);
+  }
+  assert.equal(db.rows.size, 0);
+});
+
+test('a key longer than 255 characters is rejected', async () => {
+  const middleware = createIdempotencyMiddleware(createKeysDb(), identify);
+  const { res, handled } = await send(middleware, createRequest({ key: 'k'.repeat(256) }));
+
+  assert.equal(res.statusCode, 400);
+  assert.equal(handled, false);
+});
+
+test('a retry gets the stored response back without running again', async () => {
+  const db = createKeysDb();
+  const middleware = createIdempotencyMiddleware(db, identify);
+  let runs = 0;
+  const book = (req, res) => {
+    runs++;
+    res.status(201).json({ success: true, data: { id: 42 } });
+  };
+
+  const first = await send(middleware, createRequest(), book);
+  assert.equal(first.res.statusCode, 201);
+  assert.equal(first.res.headers['Idempotent-Replayed'], undefined);
+
+  const retry = await send(middleware, createRequest(), book);
+  assert.equal(runs, 1);
+  assert.equal(retry.handled, false);
+  assert.equal(retry.res.statusCode, 201);
+  assert.deepEqual(retry.res.body, { success: true, data: { id: 42 } });
+  assert.equal(retry.res.headers['Idempotent-Replayed'], 'true');
+});
+
+test('reusing a key for a different request is rejected with 422', async () => {
+  const middleware = createIdempotencyMiddleware(createKeysDb(), identify);
+  await send(middleware, createRequest(), (req, res) => res.status(201).json({ success: true }));
+
+  const { res, handled } = await send(middleware, createRequest({ body: { slot_id: 2 } }));
+  assert.equal(res.statusCode, 422);
+  assert.equal(handled, false);
+});
+
+test('keys belong to their user', async () => {
+  const middleware = createIdempotencyMiddleware(createKeysDb(), identify);
+  await send(middleware, createRequest(), (req, res) => res.status(201).json({ success: true }));
+
+  const { handled } = await send(middleware, createRequest({ userId: 8 }), (req, res) => res.json({}));
+  assert.ok(handled);
+});
+
+test('a retry while the first request is running gets 409', async () => {
+  const middleware = createIdempotencyMiddleware(createKeysDb(), identify);
+  const first = createResponse();
+  await middleware(createRequest(), first, () => {}); // still running
+
+  const { res, handled } = await send(middleware, createRequest());
+  assert.equal(res.statusCode, 409);
+  assert.equal(handled, false);
+});
+
+test('a dropped connection keeps the key until the handler stores its response', async () => {
+  const db = createKeysDb();
+  const middleware = createIdempotencyMiddleware(db, identify);
+  const first = createResponse();
+  await middleware(createRequest(), first, () => {});
+
+  first.emit('close'); // the client went away, the handler keeps going
+  const during = await send(middleware, createRequest(), () => assert.fail('ran twice'));
+  assert.equal(during.res.statusCode, 409);
+
+  first.status(201).json({ success: true, data: { id: 42 } });
+  await first.sent;
+
+  const after = await send(middleware, createRequest(), () => assert.fail('ran twice'));
+  assert.equal(after.res.statusCode, 201);
+  assert.deepEqual(after.res.body, { success: true, data: { id: 42 } });
+});
+
+test('server errors let the key go so the request can be retried', async () => {
+  const db = createKeysDb();
+  const middleware = createIdempotencyMiddleware(db, identify);
+
+  await send(middleware, createRequest(), (req, res) => res.status(500).json({ success: false }));
+  assert.equal(db.rows.size, 0);
+
+  const retry = await send(middleware, createRequest(), (req, res) => res.status(201).json({ success: true }));
+  assert.ok(retry.handled);
+  assert.equal(retry.res.statusCode, 201);
+});
+
+test('responses sent without json are not stored', async () => {
+  const db = createKeysDb();
+  const middleware = createIdempotencyMiddleware(db, identify);
+
+  await send(middleware, createRequest(), (req, res) => res.status(204).end());
+  assert.equal(db.rows.size, 0);
+});
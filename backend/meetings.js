@@ -0,0 +1,102 @@
+// ============================================
+// VIDEO MEETINGS
+// ============================================
+// Slots and appointment types are either in person or by video. Booking a
+// video slot opens a meeting room through a meeting provider and stores it
+// in appointment_meetings; the link is only handed out shortly before the
+// visit (MEETING_OPENS_MINUTES_BEFORE) until it ends.
+
+const crypto = require('crypto');
+
+const VISIT_MODES = ['in_person', 'video'];
+
+const MEETING_BASE_URL = (process.env.MEETING_BASE_URL || 'http://localhost:3000/video').replace(/\/+$/, '');
+const MEETING_OPENS_MINUTES_BEFORE = parseInt(process.env.MEETING_OPENS_MINUTES_BEFORE, 10) || 15;
+
+// ============================================
+// PROVIDERS
+// ============================================
+// A provider is any object with:
+//   name
+//   createRoom({ reference, startsAt, endsAt }) -> { room_id, url }
+//   moveRoom(roomId, { startsAt, endsAt })
+//   closeRoom(roomId)
+// Pick one with MEETING_PROVIDER=stub (default).
+
+// Makes up room ids and links on MEETING_BASE_URL without calling anything,
+// for development and tests
+const createStubMeetingProvider = (baseUrl = MEETING_BASE_URL) => ({
+  name: 'stub',
+  createRoom: async () => {
+    const roomId = `room_${crypto.randomBytes(10).toString('hex')}`;
+    return { room_id: roomId, url: `${baseUrl}/${roomId}` };
+  },
+  moveRoom: async () => {},
+  closeRoom: async () => {}
+});
+
+const createMeetingProvider = (name = process.env.MEETING_PROVIDER || 'stub') => {
+  switch (name) {
+    case 'stub': return createStubMeetingProvider();
+    default: throw new Error(`Unknown MEETING_PROVIDER: ${name}`);
+  }
+};
+
+// ============================================
+// MEETING RECORDS
+// ============================================
+// Pass a transaction client as db so the room is stored together with the
+// appointment it belongs to.
+
+// Open the room for a video appointment
+const createMeeting = async (db, provider, { appointmentId, startsAt, endsAt }) => {
+  const room = await provider.createRoom({ reference: `appointment-${appointmentId}`, startsAt, endsAt });
+
+  const result = await db.query(
+    `INSERT INTO appointment_meetings (appointment_id, provider, room_id, url)
+     VALUES ($1, $2, $3, $4)
+     RETURNING *`,
+    [appointmentId, provider.name, room.room_id, room.url]
+  );
+
+  return result.rows[0];
+};
+
+// Move an appointment's room to its new time (it was rescheduled), keeping
+// its link; opens one if the appointment had none
+const moveMeeting = async (db, provider, { appointmentId, startsAt, endsAt }) => {
+  const result = await db.query(
+    'SELECT * FROM appointment_meetings WHERE appointment_id = $1 AND closed_at IS NULL FOR UPDATE',
+    [appointmentId]
+  );
+  const meeting = result.rows[0];
+  if (!meeting) return createMeeting(db, provider, { appointmentId, startsAt, endsAt });
+
+  await provider.moveRoom(meeting.room_id, { startsAt, endsAt });
+  return meeting;
+};
+
+// Close an appointment's room (it was cancelled or expired); false if it had none
+const closeMeeting = async (db, provider, appointmentId) => {
+  const result = await db.query(
+    `UPDATE appointment_meetings SET closed_at = NOW()
+     WHERE appointment_id = $1 AND closed_at IS NULL
+     RETURNING *`,
+    [appointmentId]
+  );
+  const meeting = result.rows[0];
+  if (!meeting) return false;
+
+  await provider.closeRoom(meeting.room_id);
+  return true;
+};
+
+module.exports = {
+  VISIT_MODES,
+  MEETING_OPENS_MINUTES_BEFORE,
+  createStubMeetingProvider,
+  createMeetingProvider,
+  createMeeting,
+  moveMeeting,
+  closeMeeting
+};
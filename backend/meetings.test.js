@@ -0,0 +1,36 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createStubMeetingProvider, moveMeeting } = require('./meetings');
+const { createFakeDb } = require('./testing/fakeDb');
+
+const startsAt = new Date('2030-01-07T09:00:00Z');
+const endsAt = new Date('2030-01-07T09:30:00Z');
+
+// A stub provider that remembers the rooms it was asked to move
+const createRecordingProvider = () => {
+  const moved = [];
+  return { ...createStubMeetingProvider('https://meet.test'), moved, moveRoom: async (roomId, times) => { moved.push({ roomId, ...times }); } };
+};
+
+test('moveMeeting moves the open room and keeps its link', async () => {
+  const meeting = { id: 1, appointment_id: 9, provider: 'stub', room_id: 'room_1', url: 'https://meet.test/room_1' };
+  const db = createFakeDb([[/FROM appointment_meetings/, () => [meeting]]]);
+  const provider = createRecordingProvider();
+
+  assert.deepEqual(await moveMeeting(db, provider, { appointmentId: 9, startsAt, endsAt }), meeting);
+  assert.deepEqual(provider.moved, [{ roomId: 'room_1', startsAt, endsAt }]);
+  assert.equal(db.queries.length, 1);
+});
+
+test('moveMeeting opens a room for an appointment that had none', async () => {
+  const db = createFakeDb([
+    [/FROM appointment_meetings/, () => []],
+    [/INSERT INTO appointment_meetings/, ([appointmentId, provider, roomId, url]) => [{ appointment_id: appointmentId, provider, room_id: roomId, url }]]
+  ]);
+  const provider = createRecordingProvider();
+
+  const meeting = await moveMeeting(db, provider, { appointmentId: 9, startsAt, endsAt });
+  assert.equal(meeting.appointment_id, 9);
+  assert.match(meeting.url, /^https:\/\/meet\.test\/room_/);
+  assert.deepEqual(provider.moved, []);
+});
@@ -0,0 +1,224 @@
+// ============================================
+// EMAIL NOTIFICATIONS
+// ============================================
+// Emails are first written to the email_outbox table (inside the same
+// transaction as the change they describe) and sent later by processOutbox.
+// A broken mail server never breaks a booking, failed sends are retried,
+// and every email ever sent stays in the table for auditing.
+
+const fs = require('fs');
+const nodemailer = require('nodemailer');
+
+const EMAIL_FROM = process.env.EMAIL_FROM || 'Doctor Appointment System <no-reply@example.com>';
+const MAX_ATTEMPTS = parseInt(process.env.EMAIL_MAX_ATTEMPTS, 10) || 5;
+const BATCH_SIZE = 20;
+
+// ============================================
+// TEMPLATES
+// ============================================
+
+// "2025-01-15" -> "Wednesday, January 15, 2025"
+const formatDate = (date) => new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+  weekday: 'long',
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric'
+});
+
+// "10:00:00" -> "10:00"
+const formatTime = (time) => String(time).slice(0, 5);
+
+const appointmentSummary = (data) => [
+  `Doctor: ${data.doctor_name} (${data.specialty})`,
+  `Date: ${formatDate(data.slot_date)}`,
+  `Time: ${formatTime(data.start_time)} - ${formatTime(data.end_time)}${data.timezone ? ` (${data.timezone})` : ''}`,
+  `Reference: #${data.appointment_id}`
+].join('\n');
+
+// Each template turns its data into a subject and a plain-text body
+const templates = {
+  appointment_received: (data) => ({
+    subject: `Booking received: ${data.doctor_name} on ${formatDate(data.slot_date)}`,
+    text: `Hi ${data.patient_name},\n\n` +
+      (data.payment_amount
+        ? `We received your booking. Pay the consultation fee of ${data.currency} ${data.payment_amount} soon to confirm it, unpaid bookings expire automatically.\n\n`
+        : 'We received your booking. Please confirm it soon, unconfirmed bookings expire automatically.\n\n') +
+      `${appointmentSummary(data)}\n`
+  }),
+
+  appointment_confirmed: (data) => ({
+    subject: `Appointment confirmed: ${data.doctor_name} on ${formatDate(data.slot_date)}`,
+    text: `Hi ${data.patient_name},\n\n` +
+      'Your appointment is confirmed. See you then!\n\n' +
+      `${appointmentSummary(data)}\n`
+  }),
+
+  appointment_cancelled: (data) => ({
+    subject: `Appointment cancelled: ${data.doctor_name} on ${formatDate(data.slot_date)}`,
+    text: `Hi ${data.patient_name},\n\n` +
+      'Your appointment has been cancelled.\n\n' +
+      `${appointmentSummary(data)}\n`
+  }),
+
+  appointment_expired: (data) => ({
+    subject: `Booking expired: ${data.doctor_name} on ${formatDate(data.slot_date)}`,
+    text: `Hi ${data.patient_name},\n\n` +
+      'Your booking was not confirmed in time, so the slot has been released. You are welcome to book again.\n\n' +
+      `${appointmentSummary(data)}\n`
+  }),
+
+  appointment_reminder: (data) => ({
+    subject: `Reminder: ${data.doctor_name} on ${formatDate(data.slot_date)} at ${formatTime(data.start_time)}`,
+    text: `Hi ${data.patient_name},\n\n` +
+      'This is a reminder of your upcoming appointment.\n\n' +
+      `${appointmentSummary(data)}\n`
+  }),
+
+  payment_refunded: (data) => ({
+    subject: `Refund for your appointment with ${data.doctor_name}`,
+    text: `Hi ${data.patient_name},\n\n` +
+      `We have refunded ${data.currency} ${data.amount} of your consultation fee. It can take a few days to reach your account.\n\n` +
+      `${appointmentSummary(data)}\n`
+  }),
+
+  // Free-form message for one-off updates (time off, waitlist offers, ...)
+  notice: (data) => ({
+    subject: data.subject || 'Update about your appointment',
+    text: `Hello,\n\n${data.message}\n`
+  })
+};
+
+const renderEmail = (template, data) => {
+  if (!templates[template]) {
+    throw new Error(`Unknown email template: ${template}`);
+  }
+  return templates[template](data);
+};
+
+// ============================================
+// TRANSPORTS
+// ============================================
+// A transport is any object with an async send({ to, subject, text }).
+// Pick one with EMAIL_TRANSPORT=console|file|smtp (default console).
+
+const createConsoleTransport = () => ({
+  name: 'console',
+  send: async (email) => {
+    console.log(`📧 Email to ${email.to}: ${email.subject}\n${email.text}`);
+  }
+});
+
+// Appends one JSON line per email, handy for local development and tests
+const createFileTransport = (filePath = process.env.EMAIL_FILE_PATH || 'sent-emails.log') => ({
+  name: 'file',
+  send: async (email) => {
+    const line = JSON.stringify({ ...email, sent_at: new Date().toISOString() });
+    await fs.promises.appendFile(filePath, `${line}\n`);
+  }
+});
+
+const createSmtpTransport = () => {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT, 10) || 587,
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined
+  });
+
+  return {
+    name: 'smtp',
+    send: async (email) => {
+      await transporter.sendMail({
+        from: EMAIL_FROM,
+        to: email.to,
+        subject: email.subject,
+        text: email.text
+      });
+    }
+  };
+};
+
+const createTransport = (name = process.env.EMAIL_TRANSPORT || 'console') => {
+  switch (name) {
+    case 'smtp': return createSmtpTransport();
+    case 'file': return createFileTransport();
+    case 'console': return createConsoleTransport();
+    default: throw new Error(`Unknown EMAIL_TRANSPORT: ${name}`);
+  }
+};
+
+// ============================================
+// OUTBOX
+// ============================================
+
+// Render and store an email. Pass a transaction client as db to queue it
+// atomically with the change it describes.
+const queueEmail = async (db, { to, template, data = {}, appointmentId = null }) => {
+  const { subject, text } = renderEmail(template, data);
+
+  const result = await db.query(
+    `INSERT INTO email_outbox (to_email, template, payload, subject, body, appointment_id)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [to, template, JSON.stringify(data), subject, text, appointmentId]
+  );
+
+  return result.rows[0];
+};
+
+// Send due emails. Rows are claimed with SKIP LOCKED so several server
+// instances can share the outbox; failures back off 1, 2, 4, 8... minutes
+// and give up after MAX_ATTEMPTS.
+const processOutbox = async (pool, transport) => {
+  const claimed = await pool.query(
+    `UPDATE email_outbox
+     SET status = 'SENDING', attempts = attempts + 1, last_attempt_at = NOW()
+     WHERE id IN (
+       SELECT id FROM email_outbox
+       WHERE (status = 'PENDING' AND next_attempt_at <= NOW())
+       OR (status = 'SENDING' AND last_attempt_at < NOW() - INTERVAL '10 minutes')
+       ORDER BY id
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`,
+    [BATCH_SIZE]
+  );
+
+  let sent = 0;
+
+  for (const email of claimed.rows) {
+    try {
+      await transport.send({ to: email.to_email, subject: email.subject, text: email.body });
+      await pool.query(
+        "UPDATE email_outbox SET status = 'SENT', sent_at = NOW(), last_error = NULL WHERE id = $1",
+        [email.id]
+      );
+      sent++;
+    } catch (error) {
+      const gaveUp = email.attempts >= MAX_ATTEMPTS;
+      await pool.query(
+        `UPDATE email_outbox
+         SET status = $2, last_error = $3,
+             next_attempt_at = NOW() + make_interval(mins => $4)
+         WHERE id = $1`,
+        [email.id, gaveUp ? 'FAILED' : 'PENDING', error.message, 2 ** (email.attempts - 1)]
+      );
+    }
+  }
+
+  return { claimed: claimed.rowCount, sent };
+};
+
+module.exports = {
+  templates,
+  renderEmail,
+  createTransport,
+  createConsoleTransport,
+  createFileTransport,
+  createSmtpTransport,
+  queueEmail,
+  processOutbox
+};
@@ -0,0 +1,177 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { createTransport, createFileTransport, processOutbox } = require('./notifications');
+const { createFakeDb } = require('./testing/fakeDb');
+
+// EMAIL_MAX_ATTEMPTS is not set for the tests
+const MAX_ATTEMPTS = 5;
+
+// The email_outbox table in memory, answering processOutbox's queries.
+// Times are minutes on the database clock, which advance() moves on, and
+// lock() marks rows another server instance is sending right now.
+const createOutboxDb = (emails) => {
+  let now = 0;
+  const locked = new Set();
+  const rows = emails.map((email) => ({
+    status: 'PENDING',
+    attempts: 0,
+    next_attempt_at: 0,
+    last_attempt_at: null,
+    last_error: null,
+    ...email
+  }));
+  const byId = (id) => rows.find((row) => row.id === id);
+
+  const db = createFakeDb([
+    [/^UPDATE email_outbox\s+SET status = 'SENDING'/, ([limit]) => rows
+      .filter((row) => !locked.has(row.id) && (
+        (row.status === 'PENDING' && row.next_attempt_at <= now) ||
+        (row.status === 'SENDING' && row.last_attempt_at < now - 10)))
+      .sort((a, b) => a.id - b.id)
+      .slice(0, limit)
+      .map((row) => {
+        Object.assign(row, { status: 'SENDING', attempts: row.attempts + 1, last_attempt_at: now });
+        return { ...row };
+      })],
+    [/SET status = 'SENT'/, ([id]) => {
+      Object.assign(byId(id), { status: 'SENT', sent_at: now, last_error: null });
+      return [];
+    }],
+    [/SET status = \$2/, ([id, status, lastError, minutes]) => {
+      Object.assign(byId(id), { status, last_error: lastError, next_attempt_at: now + minutes });
+      return [];
+    }]
+  ]);
+
+  db.email = byId;
+  db.advance = (minutes) => { now += minutes; };
+  db.lock = (id) => locked.add(id);
+  return db;
+};
+
+const createEmail = (id, overrides = {}) => ({ id, to_email: `patient${id}@example.com`, subject: `Email ${id}`, body: 'Hello', ...overrides });
+
+// Records what it sends; fails for the addresses in failFor
+const createRecordingTransport = (failFor = []) => {
+  const sent = [];
+  return {
+    sent,
+    send: async (email) => {
+      if (failFor.includes(email.to)) throw new Error('Mail server unavailable');
+      sent.push(email);
+    }
+  };
+};
+
+// ============================================
+// CLAIMING
+// ============================================
+
+test('processOutbox claims its rows with FOR UPDATE SKIP LOCKED', async () => {
+  const db = createOutboxDb([]);
+  await processOutbox(db, createRecordingTransport());
+
+  assert.match(db.queries[0].sql, /FOR UPDATE SKIP LOCKED/);
+});
+
+test('processOutbox sends the due emails and skips the ones another instance holds', async () => {
+  const db = createOutboxDb([createEmail(1), createEmail(2), createEmail(3, { next_attempt_at: 5 })]);
+  db.lock(2);
+  const transport = createRecordingTransport();
+
+  assert.deepEqual(await processOutbox(db, transport), { claimed: 1, sent: 1 });
+  assert.deepEqual(transport.sent, [{ to: 'patient1@example.com', subject: 'Email 1', text: 'Hello' }]);
+  assert.equal(db.email(1).status, 'SENT');
+  assert.equal(db.email(2).status, 'PENDING');
+  assert.equal(db.email(3).status, 'PENDING');
+});
+
+test('an email stuck in SENDING is claimed again after ten minutes', async () => {
+  const db = createOutboxDb([createEmail(1, { status: 'SENDING', attempts: 1, last_attempt_at: 0 })]);
+  const transport = createRecordingTransport();
+
+  db.advance(10);
+  assert.deepEqual(await processOutbox(db, transport), { claimed: 0, sent: 0 });
+
+  db.advance(1);
+  assert.deepEqual(await processOutbox(db, transport), { claimed: 1, sent: 1 });
+  assert.equal(db.email(1).attempts, 2);
+});
+
+// ============================================
+// RETRIES
+// ============================================
+
+test('failed sends back off 1, 2, 4, 8... minutes and give up after the last attempt', async () => {
+  const db = createOutboxDb([createEmail(1)]);
+  const transport = createRecordingTransport(['patient1@example.com']);
+  const waits = [];
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    assert.deepEqual(await processOutbox(db, transport), { claimed: 1, sent: 0 });
+    waits.push(db.email(1).next_attempt_at - db.email(1).last_attempt_at);
+    db.advance(waits.at(-1));
+  }
+
+  assert.deepEqual(waits, [1, 2, 4, 8, 16]);
+  assert.equal(db.email(1).status, 'FAILED');
+  assert.equal(db.email(1).last_error, 'Mail server unavailable');
+
+  db.advance(60);
+  assert.deepEqual(await processOutbox(db, transport), { claimed: 0, sent: 0 });
+});
+
+test('a retry is not sent before its backoff is over', async () => {
+  const db = createOutboxDb([createEmail(1)]);
+  await processOutbox(db, createRecordingTransport(['patient1@example.com']));
+  assert.equal(db.email(1).status, 'PENDING');
+
+  const transport = createRecordingTransport();
+  assert.deepEqual(await processOutbox(db, transport), { claimed: 0, sent: 0 });
+
+  db.advance(1);
+  assert.deepEqual(await processOutbox(db, transport), { claimed: 1, sent: 1 });
+  assert.equal(db.email(1).status, 'SENT');
+  assert.equal(db.email(1).last_error, null);
+});
+
+test('one failing email does not hold up the rest of the batch', async () => {
+  const db = createOutboxDb([createEmail(1), createEmail(2)]);
+  const transport = createRecordingTransport(['patient1@example.com']);
+
+  assert.deepEqual(await processOutbox(db, transport), { claimed: 2, sent: 1 });
+  assert.equal(db.email(1).status, 'PENDING');
+  assert.equal(db.email(2).status, 'SENT');
+});
+
+// ============================================
+// TRANSPORTS
+// ============================================
+
+test('createTransport picks the transport by name, console by default', () => {
+  assert.equal(createTransport().name, 'console');
+  assert.equal(createTransport('console').name, 'console');
+  assert.equal(createTransport('file').name, 'file');
+  assert.equal(createTransport('smtp').name, 'smtp');
+  assert.throws(() => createTransport('pigeon'), /Unknown EMAIL_TRANSPORT: pigeon/);
+});
+
+test('the file transport appends one JSON line per email', async () => {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+  const filePath = path.join(dir, 'sent.log');
+
+  try {
+    const transport = createFileTransport(filePath);
+    await transport.send({ to: 'a@example.com', subject: 'First', text: 'Hello' });
+    await transport.send({ to: 'b@example.com', subject: 'Second', text: 'Hello' });
+
+    const lines = (await fs.promises.readFile(filePath, 'utf8')).trim().split('\n').map((line) => JSON.parse(line));
+    assert.deepEqual(lines.map((line) => [line.to, line.subject]), [['a@example.com', 'First'], ['b@example.com', 'Second']]);
+    assert.ok(lines[0].sent_at);
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,269 @@
+// ============================================
+// PAYMENTS
+// ============================================
+// Consultation fees are collected through a payment provider. Booking
+// creates a payment intent, the provider reports the outcome through a
+// signed webhook (which confirms the appointment), and cancellations refund
+// some or all of it. Every payment, refund and webhook event is kept in the
+// database.
+
+const crypto = require('crypto');
+const { ACTIVE_STATUSES, transitionAppointment } = require('./appointmentStatus');
+
+const PAYMENT_CURRENCY = process.env.PAYMENT_CURRENCY || 'INR';
+const WEBHOOK_SECRET = process.env.PAYMENT_WEBHOOK_SECRET; // required by providers with webhooks
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+const PAYMENT_STATUSES = ['REQUIRES_PAYMENT', 'SUCCEEDED', 'FAILED', 'CANCELLED', 'PARTIALLY_REFUNDED', 'REFUNDED'];
+
+// Payments still waiting for money, and payments holding some
+const UNPAID_STATUSES = ['REQUIRES_PAYMENT', 'FAILED'];
+const PAID_STATUSES = ['SUCCEEDED', 'PARTIALLY_REFUNDED'];
+
+// ============================================
+// WEBHOOK SIGNATURES
+// ============================================
+// Header format: "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${body}`>".
+// The timestamp is signed too, so an old event can't be replayed later.
+
+const computeSignature = (timestamp, rawBody, secret) =>
+  crypto.createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+
+const signWebhook = (rawBody, secret = WEBHOOK_SECRET, timestamp = Math.floor(Date.now() / 1000)) =>
+  `t=${timestamp},v1=${computeSignature(timestamp, rawBody, secret)}`;
+
+// Parse the event out of a webhook body; throws if the signature is missing,
+// wrong or too old
+const verifyWebhook = (rawBody, header, secret = WEBHOOK_SECRET, now = Date.now()) => {
+  const parts = Object.fromEntries(
+    String(header || '').split(',').map((part) => part.trim().split('='))
+  );
+  const timestamp = Number(parts.t);
+
+  if (!timestamp || !parts.v1) {
+    throw new Error('Missing webhook signature');
+  }
+  if (Math.abs(now / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+    throw new Error('Webhook timestamp is too old');
+  }
+
+  const expected = Buffer.from(computeSignature(timestamp, rawBody, secret), 'hex');
+  const received = Buffer.from(parts.v1, 'hex');
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    throw new Error('Invalid webhook signature');
+  }
+
+  return JSON.parse(rawBody);
+};
+
+// ============================================
+// PROVIDERS
+// ============================================
+// A provider is any object with:
+//   name
+//   createIntent({ amount, currency, reference }) -> { id, client_secret }
+//   cancelIntent(id)
+//   refund(id, amount) -> { id }
+//   verifyWebhook(rawBody, signatureHeader) -> { id, type, data: { payment_id, ... } }
+// Pick one with PAYMENT_PROVIDER. There is no default: none collects nothing
+// online and the mock confirms without charging, so either is a choice.
+
+const randomId = (prefix) => `${prefix}_${crypto.randomBytes(12).toString('hex')}`;
+
+// Takes every payment locally. buildWebhook produces the signed event a real
+// provider would POST to /api/payments/webhook, for the development checkout
+// and for tests.
+const createMockProvider = (secret = WEBHOOK_SECRET) => ({
+  name: 'mock',
+  createIntent: async () => {
+    const id = randomId('pi_mock');
+    return { id, client_secret: `${id}_secret_${crypto.randomBytes(8).toString('hex')}` };
+  },
+  cancelIntent: async () => {},
+  refund: async () => ({ id: randomId('re_mock') }),
+  verifyWebhook: (rawBody, header) => verifyWebhook(rawBody, header, secret),
+  buildWebhook: (type, paymentId, extra = {}) => {
+    const body = JSON.stringify({ id: randomId('evt_mock'), type, data: { payment_id: paymentId, ...extra } });
+    return { body, signature: signWebhook(body, secret) };
+  }
+});
+
+// Collects nothing: bookings open no payment and are confirmed like free
+// visits, by the patient or by staff, while fees are settled at the clinic.
+// It has no intents to cancel or refund and accepts no webhooks.
+const createNoneProvider = () => ({
+  name: 'none',
+  createIntent: null,
+  cancelIntent: async () => {},
+  refund: async () => {
+    throw new Error('PAYMENT_PROVIDER=none cannot refund payments');
+  },
+  verifyWebhook: () => {
+    throw new Error('No payment provider takes webhooks (PAYMENT_PROVIDER=none)');
+  }
+});
+
+// Anyone knowing the webhook secret can send "payment succeeded" events, and
+// the mock confirms bookings without charging, so neither gets a fallback
+const createPaymentProvider = (
+  name = process.env.PAYMENT_PROVIDER,
+  { secret = WEBHOOK_SECRET, production = process.env.NODE_ENV === 'production' } = {}
+) => {
+  switch (name) {
+    case 'none':
+      return createNoneProvider();
+    case 'mock':
+      if (!secret) {
+        throw new Error('PAYMENT_WEBHOOK_SECRET is not set. Add a long random string to .env');
+      }
+      if (production) {
+        throw new Error('PAYMENT_PROVIDER=mock takes payments without charging and cannot run in production');
+      }
+      return createMockProvider(secret);
+    case undefined:
+    case '':
+      throw new Error('PAYMENT_PROVIDER is not set (use none to take fees at the clinic, or mock for development)');
+    default: throw new Error(`Unknown PAYMENT_PROVIDER: ${name}`);
+  }
+};
+
+// ============================================
+// PAYMENT RECORDS
+// ============================================
+// Pass a transaction client as db so the payment changes together with the
+// appointment it belongs to.
+
+// Open a payment intent for an appointment's fee; returns null if the
+// provider collects nothing online
+const createPayment = async (db, provider, { appointmentId, amount, currency = PAYMENT_CURRENCY }) => {
+  if (!provider.createIntent) return null;
+
+  const intent = await provider.createIntent({ amount, currency, reference: `appointment-${appointmentId}` });
+
+  const result = await db.query(
+    `INSERT INTO payments (appointment_id, provider, provider_payment_id, client_secret, amount, currency)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [appointmentId, provider.name, intent.id, intent.client_secret, amount, currency]
+  );
+
+  return result.rows[0];
+};
+
+// Store a webhook event; returns false if it was already handled (providers
+// retry deliveries)
+const recordPaymentEvent = async (db, provider, event) => {
+  const result = await db.query(
+    `INSERT INTO payment_events (provider, event_id, type, payload)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (provider, event_id) DO NOTHING
+     RETURNING id`,
+    [provider.name, event.id, event.type, JSON.stringify(event)]
+  );
+  return result.rowCount > 0;
+};
+
+// Apply a verified provider event. A successful payment confirms its PENDING
+// appointment; money that arrives after the booking was cancelled or expired
+// (even before the expiry job marks it FAILED) goes straight back. Returns what happened, for the caller's emails:
+// { payment, confirmed: true }, { payment, refund } or null.
+const applyPaymentEvent = async (db, provider, event) => {
+  const result = await db.query(
+    `SELECT p.*, a.status AS appointment_status, a.expires_at > NOW() AS booking_open
+     FROM payments p
+     JOIN appointments a ON p.appointment_id = a.id
+     WHERE p.provider = $1 AND p.provider_payment_id = $2
+     FOR UPDATE OF p, a`,
+    [provider.name, event.data && event.data.payment_id]
+  );
+  const payment = result.rows[0];
+  if (!payment) return null;
+
+  if (event.type === 'payment.failed' && payment.status === 'REQUIRES_PAYMENT') {
+    await db.query(
+      "UPDATE payments SET status = 'FAILED', failure_reason = $2, updated_at = NOW() WHERE id = $1",
+      [payment.id, event.data.reason || null]
+    );
+  }
+
+  if (event.type !== 'payment.succeeded' || PAID_STATUSES.includes(payment.status) || payment.status === 'REFUNDED') {
+    return null;
+  }
+
+  const paid = await db.query(
+    `UPDATE payments SET status = 'SUCCEEDED', paid_at = NOW(), failure_reason = NULL, updated_at = NOW()
+     WHERE id = $1
+     RETURNING *`,
+    [payment.id]
+  );
+
+  const expired = payment.appointment_status === 'PENDING' && !payment.booking_open;
+
+  if (payment.appointment_status === 'PENDING' && !expired) {
+    await transitionAppointment(db, payment.appointment_id, 'CONFIRMED', { note: 'Consultation fee paid' });
+    return { payment, confirmed: true };
+  }
+  if (expired || !ACTIVE_STATUSES.includes(payment.appointment_status)) {
+    const refund = await refundPayment(db, provider, paid.rows[0], payment.amount, 'Paid after the booking was closed');
+    return { payment, refund };
+  }
+  return null;
+};
+
+// Give back up to what is left of a paid payment; returns the refund row,
+// or null if there is nothing to refund
+const refundPayment = async (db, provider, payment, amount, reason = null) => {
+  const refundable = Number(payment.amount) - Number(payment.refunded_amount);
+  const refundAmount = Math.min(Number(amount), refundable);
+
+  if (!PAID_STATUSES.includes(payment.status) || !(refundAmount > 0)) return null;
+
+  const providerRefund = await provider.refund(payment.provider_payment_id, refundAmount);
+
+  const refund = await db.query(
+    `INSERT INTO payment_refunds (payment_id, provider_refund_id, amount, reason)
+     VALUES ($1, $2, $3, $4)
+     RETURNING *`,
+    [payment.id, providerRefund.id, refundAmount, reason]
+  );
+
+  await db.query(
+    `UPDATE payments
+     SET refunded_amount = refunded_amount + $2,
+         status = CASE WHEN refunded_amount + $2 >= amount THEN 'REFUNDED' ELSE 'PARTIALLY_REFUNDED' END,
+         updated_at = NOW()
+     WHERE id = $1`,
+    [payment.id, refundAmount]
+  );
+
+  return refund.rows[0];
+};
+
+// Stop collecting an unpaid payment (the booking was cancelled or expired)
+const cancelPayment = async (db, provider, payment) => {
+  if (!UNPAID_STATUSES.includes(payment.status)) return false;
+
+  await provider.cancelIntent(payment.provider_payment_id);
+  await db.query(
+    "UPDATE payments SET status = 'CANCELLED', updated_at = NOW() WHERE id = $1",
+    [payment.id]
+  );
+  return true;
+};
+
+module.exports = {
+  PAYMENT_CURRENCY,
+  PAYMENT_STATUSES,
+  UNPAID_STATUSES,
+  PAID_STATUSES,
+  signWebhook,
+  verifyWebhook,
+  createMockProvider,
+  createNoneProvider,
+  createPaymentProvider,
+  createPayment,
+  recordPaymentEvent,
+  applyPaymentEvent,
+  refundPayment,
+  cancelPayment
+};
@@ -0,0 +1,224 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  signWebhook,
+  verifyWebhook,
+  createMockProvider,
+  createNoneProvider,
+  createPaymentProvider,
+  createPayment,
+  recordPaymentEvent,
+  applyPaymentEvent,
+  refundPayment
+} = require('./payments');
+const { createFakeDb } = require('./testing/fakeDb');
+
+const SECRET = 'test-webhook-secret';
+const NOW = Date.UTC(2030, 0, 1, 9, 0, 0);
+const nowSeconds = NOW / 1000;
+
+const body = JSON.stringify({ id: 'evt_1', type: 'payment.succeeded', data: { payment_id: 'pi_1' } });
+
+const createPaymentRow = (overrides = {}) => ({
+  id: 5,
+  appointment_id: 9,
+  provider: 'mock',
+  provider_payment_id: 'pi_1',
+  amount: '500.00',
+  refunded_amount: '0.00',
+  currency: 'INR',
+  status: 'REQUIRES_PAYMENT',
+  appointment_status: 'PENDING',
+  booking_open: true,
+  ...overrides
+});
+
+// The queries a refund sends
+const refundHandlers = [
+  [/INSERT INTO payment_refunds/, ([paymentId, , amount]) => [{ id: 1, payment_id: paymentId, amount }]],
+  [/SET refunded_amount/, () => []]
+];
+
+// The queries applyPaymentEvent sends, around one payment
+const paymentDb = (payment) => createFakeDb([
+  [/FROM payments p/, () => [payment]],
+  [/SET status = 'FAILED'/, () => []],
+  [/SET status = 'SUCCEEDED'/, () => [{ ...payment, status: 'SUCCEEDED' }]],
+  [/UPDATE appointments a/, ([ids, status]) => [{ id: ids[0], status }]],
+  ...refundHandlers
+]);
+
+const event = (type, extra = {}) => ({ id: 'evt_1', type, data: { payment_id: 'pi_1', ...extra } });
+
+// ============================================
+// WEBHOOK SIGNATURES
+// ============================================
+
+test('verifyWebhook accepts a correctly signed event', () => {
+  const signature = signWebhook(body, SECRET, nowSeconds);
+  assert.deepEqual(verifyWebhook(body, signature, SECRET, NOW), JSON.parse(body));
+});
+
+test('verifyWebhook rejects a tampered body', () => {
+  const signature = signWebhook(body, SECRET, nowSeconds);
+  const tampered = body.replace('pi_1', 'pi_2');
+  assert.throws(() => verifyWebhook(tampered, signature, SECRET, NOW), /Invalid webhook signature/);
+});
+
+test('verifyWebhook rejects a signature made with another secret', () => {
+  const signature = signWebhook(body, 'someone-elses-secret', nowSeconds);
+  assert.throws(() => verifyWebhook(body, signature, SECRET, NOW), /Invalid webhook signature/);
+});
+
+test('verifyWebhook rejects a changed timestamp', () => {
+  const signature = signWebhook(body, SECRET, nowSeconds).replace(`t=${nowSeconds}`, `t=${nowSeconds + 1}`);
+  assert.throws(() => verifyWebhook(body, signature, SECRET, NOW), /Invalid webhook signature/);
+});
+
+test('verifyWebhook rejects stale and future timestamps', () => {
+  const stale = signWebhook(body, SECRET, nowSeconds - 6 * 60);
+  const future = signWebhook(body, SECRET, nowSeconds + 6 * 60);
+  assert.throws(() => verifyWebhook(body, stale, SECRET, NOW), /too old/);
+  assert.throws(() => verifyWebhook(body, future, SECRET, NOW), /too old/);
+});
+
+test('verifyWebhook rejects missing or malformed signatures', () => {
+  assert.throws(() => verifyWebhook(body, undefined, SECRET, NOW), /Missing webhook signature/);
+  assert.throws(() => verifyWebhook(body, `t=${nowSeconds}`, SECRET, NOW), /Missing webhook signature/);
+  assert.throws(() => verifyWebhook(body, `t=${nowSeconds},v1=abc`, SECRET, NOW), /Invalid webhook signature/);
+});
+
+test('the mock provider builds webhooks its own verification accepts', () => {
+  const provider = createMockProvider(SECRET);
+  const webhook = provider.buildWebhook('payment.succeeded', 'pi_1');
+  assert.equal(provider.verifyWebhook(webhook.body, webhook.signature).data.payment_id, 'pi_1');
+  assert.throws(() => createMockProvider('other-secret').verifyWebhook(webhook.body, webhook.signature));
+});
+
+// ============================================
+// PROVIDER SETUP
+// ============================================
+
+test('createPaymentProvider needs a webhook secret and an explicit provider', () => {
+  assert.throws(() => createPaymentProvider('mock', { secret: undefined, production: false }), /PAYMENT_WEBHOOK_SECRET/);
+  assert.throws(() => createPaymentProvider(undefined, { secret: SECRET, production: false }), /PAYMENT_PROVIDER is not set/);
+  assert.throws(() => createPaymentProvider('stripe', { secret: SECRET, production: false }), /Unknown PAYMENT_PROVIDER/);
+  assert.equal(createPaymentProvider('mock', { secret: SECRET, production: false }).name, 'mock');
+});
+
+test('the mock provider refuses to run in production', () => {
+  assert.throws(() => createPaymentProvider('mock', { secret: SECRET, production: true }), /cannot run in production/);
+});
+
+test('the none provider runs in production without a webhook secret', () => {
+  assert.equal(createPaymentProvider('none', { secret: undefined, production: true }).name, 'none');
+});
+
+test('the none provider opens no payments and accepts no webhooks', async () => {
+  const db = createFakeDb();
+  const provider = createNoneProvider();
+
+  assert.equal(await createPayment(db, provider, { appointmentId: 9, amount: '500.00' }), null);
+  assert.equal(db.queries.length, 0);
+  assert.throws(() => provider.verifyWebhook(body, signWebhook(body, SECRET)), /PAYMENT_PROVIDER=none/);
+});
+
+// ============================================
+// PAYMENT EVENTS
+// ============================================
+
+test('recordPaymentEvent reports duplicate deliveries', async () => {
+  const stored = new Set();
+  const db = createFakeDb([
+    [/INSERT INTO payment_events/, ([provider, eventId]) => {
+      if (stored.has(`${provider}:${eventId}`)) return [];
+      stored.add(`${provider}:${eventId}`);
+      return [{ id: stored.size }];
+    }]
+  ]);
+  const provider = createMockProvider(SECRET);
+
+  assert.equal(await recordPaymentEvent(db, provider, event('payment.succeeded')), true);
+  assert.equal(await recordPaymentEvent(db, provider, event('payment.succeeded')), false);
+  assert.equal(await recordPaymentEvent(db, provider, { ...event('payment.succeeded'), id: 'evt_2' }), true);
+});
+
+test('a successful payment confirms its PENDING appointment', async () => {
+  const db = paymentDb(createPaymentRow());
+  const outcome = await applyPaymentEvent(db, createMockProvider(SECRET), event('payment.succeeded'));
+
+  assert.equal(outcome.confirmed, true);
+  assert.equal(outcome.payment.appointment_id, 9);
+  assert.ok(db.queries.some(({ sql, params }) => /UPDATE appointments a/.test(sql) && params[1] === 'CONFIRMED'));
+  assert.ok(!db.queries.some(({ sql }) => /payment_refunds/.test(sql)));
+});
+
+test('a payment that arrives after the booking closed is refunded in full', async () => {
+  const refunds = [];
+  const provider = { ...createMockProvider(SECRET), refund: async (id, amount) => { refunds.push({ id, amount }); return { id: 're_1' }; } };
+
+  for (const appointmentStatus of ['CANCELLED', 'FAILED']) {
+    const db = paymentDb(createPaymentRow({ appointment_status: appointmentStatus }));
+    const outcome = await applyPaymentEvent(db, provider, event('payment.succeeded'));
+
+    assert.equal(outcome.confirmed, undefined);
+    assert.equal(outcome.refund.amount, 500);
+    assert.ok(!db.queries.some(({ sql }) => /UPDATE appointments a/.test(sql)));
+  }
+  assert.deepEqual(refunds, [{ id: 'pi_1', amount: 500 }, { id: 'pi_1', amount: 500 }]);
+});
+
+test('a payment for a PENDING booking that has expired is refunded instead of confirming it', async () => {
+  const db = paymentDb(createPaymentRow({ booking_open: false }));
+  const outcome = await applyPaymentEvent(db, createMockProvider(SECRET), event('payment.succeeded'));
+
+  assert.equal(outcome.confirmed, undefined);
+  assert.equal(outcome.refund.amount, 500);
+  const refund = db.queries.find(({ sql }) => /INSERT INTO payment_refunds/.test(sql));
+  assert.equal(refund.params[3], 'Paid after the booking was closed');
+  assert.ok(!db.queries.some(({ sql }) => /UPDATE appointments a/.test(sql)));
+});
+
+test('a payment already received is not applied twice', async () => {
+  for (const status of ['SUCCEEDED', 'PARTIALLY_REFUNDED', 'REFUNDED']) {
+    const db = paymentDb(createPaymentRow({ status, appointment_status: 'CONFIRMED' }));
+    assert.equal(await applyPaymentEvent(db, createMockProvider(SECRET), event('payment.succeeded')), null);
+    assert.equal(db.queries.length, 1);
+  }
+});
+
+test('a failed payment is marked FAILED and leaves the appointment alone', async () => {
+  const db = paymentDb(createPaymentRow());
+  const outcome = await applyPaymentEvent(db, createMockProvider(SECRET), event('payment.failed', { reason: 'Card declined' }));
+
+  assert.equal(outcome, null);
+  const failed = db.queries.find(({ sql }) => /SET status = 'FAILED'/.test(sql));
+  assert.deepEqual(failed.params, [5, 'Card declined']);
+  assert.ok(!db.queries.some(({ sql }) => /UPDATE appointments a/.test(sql)));
+});
+
+test('events for unknown payments are ignored', async () => {
+  const db = createFakeDb([[/FROM payments p/, () => []]]);
+  assert.equal(await applyPaymentEvent(db, createMockProvider(SECRET), event('payment.succeeded')), null);
+});
+
+// ============================================
+// REFUNDS
+// ============================================
+
+test('refundPayment gives back at most what is left', async () => {
+  const db = createFakeDb(refundHandlers);
+  const payment = createPaymentRow({ status: 'PARTIALLY_REFUNDED', refunded_amount: '300.00' });
+
+  const refund = await refundPayment(db, createMockProvider(SECRET), payment, 500);
+  assert.equal(refund.amount, 200);
+});
+
+test('refundPayment refunds nothing for unpaid or fully refunded payments', async () => {
+  const provider = createMockProvider(SECRET);
+  const db = createFakeDb(refundHandlers);
+
+  assert.equal(await refundPayment(db, provider, createPaymentRow({ status: 'REQUIRES_PAYMENT' }), 500), null);
+  assert.equal(await refundPayment(db, provider, createPaymentRow({ status: 'PARTIALLY_REFUNDED', refunded_amount: '500.00' }), 100), null);
+  assert.equal(db.queries.length, 0);
+});
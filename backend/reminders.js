@@ -0,0 +1,42 @@
+// ============================================
+// APPOINTMENT REMINDERS
+// ============================================
+// Confirmed appointments get a reminder email at each offset before they
+// start (admin-editable, see /api/settings/reminders). Every reminder sent is
+// kept in appointment_reminders, one row per appointment and offset, so a
+// restart or a second server instance never sends it again. Rescheduling
+// clears the rows, so the new time gets its own reminders.
+
+const DEFAULT_REMINDER_OFFSETS = [24 * 60, 2 * 60]; // minutes before the appointment
+
+// Record every reminder that is now due; the UNIQUE constraint skips the ones
+// already sent. Returns the appointments to remind, once each: several
+// offsets can fall due at once (e.g. confirmed an hour before), and the
+// patient still gets a single reminder. Pass a transaction client as db so
+// the rows are kept together with the emails.
+const claimDueReminders = async (db, offsets) => {
+  if (offsets.length === 0) return [];
+
+  const due = await db.query(
+    `INSERT INTO appointment_reminders (appointment_id, offset_minutes)
+     SELECT a.id, o.minutes
+     FROM appointments a
+     JOIN slots s ON a.slot_id = s.id
+     LEFT JOIN patients p ON a.patient_id = p.id
+     CROSS JOIN UNNEST($1::int[]) AS o(minutes)
+     WHERE a.status = 'CONFIRMED'
+     AND p.reminders_enabled IS NOT FALSE
+     AND s.starts_at > NOW()
+     AND s.starts_at - make_interval(mins => o.minutes) <= NOW()
+     ON CONFLICT (appointment_id, offset_minutes) DO NOTHING
+     RETURNING appointment_id`,
+    [offsets]
+  );
+
+  return [...new Set(due.rows.map((row) => row.appointment_id))];
+};
+
+module.exports = {
+  DEFAULT_REMINDER_OFFSETS,
+  claimDueReminders
+};
@@ -0,0 +1,90 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { DEFAULT_REMINDER_OFFSETS, claimDueReminders } = require('./reminders');
+const { createFakeDb } = require('./testing/fakeDb');
+
+// The appointments and appointment_reminders tables in memory, answering
+// claimDueReminders' query. Times are minutes on the database clock, which
+// advance() moves on; appointments start at startsAt.
+const createRemindersDb = (appointments) => {
+  let now = 0;
+  const sent = new Set();
+
+  const db = createFakeDb([
+    [/INSERT INTO appointment_reminders/, ([offsets]) => appointments
+      .filter((appointment) => appointment.status === 'CONFIRMED' && appointment.reminders_enabled !== false &&
+        appointment.startsAt > now)
+      .flatMap((appointment) => offsets
+        .filter((minutes) => appointment.startsAt - minutes <= now && !sent.has(`${appointment.id}:${minutes}`))
+        .map((minutes) => {
+          sent.add(`${appointment.id}:${minutes}`);
+          return { appointment_id: appointment.id };
+        }))]
+  ]);
+
+  db.advance = (minutes) => { now += minutes; };
+  db.sent = sent;
+  return db;
+};
+
+const HOUR = 60;
+const DAY = 24 * HOUR;
+
+const createAppointment = (id, startsAt, overrides = {}) => ({ id, status: 'CONFIRMED', startsAt, ...overrides });
+
+test('the default reminders go out a day and two hours before', () => {
+  assert.deepEqual(DEFAULT_REMINDER_OFFSETS, [DAY, 2 * HOUR]);
+});
+
+test('a reminder is due once its offset before the start is reached', async () => {
+  const db = createRemindersDb([createAppointment(1, 3 * DAY)]);
+
+  assert.deepEqual(await claimDueReminders(db, DEFAULT_REMINDER_OFFSETS), []);
+
+  db.advance(2 * DAY - 1);
+  assert.deepEqual(await claimDueReminders(db, DEFAULT_REMINDER_OFFSETS), []);
+
+  db.advance(1);
+  assert.deepEqual(await claimDueReminders(db, DEFAULT_REMINDER_OFFSETS), [1]);
+  assert.deepEqual([...db.sent], [`1:${DAY}`]);
+
+  db.advance(DAY - 2 * HOUR);
+  assert.deepEqual(await claimDueReminders(db, DEFAULT_REMINDER_OFFSETS), [1]);
+  assert.deepEqual([...db.sent], [`1:${DAY}`, `1:${2 * HOUR}`]);
+});
+
+test('the same reminder is never sent twice', async () => {
+  const db = createRemindersDb([createAppointment(1, DAY)]);
+
+  assert.deepEqual(await claimDueReminders(db, DEFAULT_REMINDER_OFFSETS), [1]);
+  assert.deepEqual(await claimDueReminders(db, DEFAULT_REMINDER_OFFSETS), []);
+
+  db.advance(HOUR);
+  assert.deepEqual(await claimDueReminders(db, DEFAULT_REMINDER_OFFSETS), []);
+});
+
+test('offsets falling due together send a single reminder', async () => {
+  const db = createRemindersDb([createAppointment(1, HOUR)]);
+
+  assert.deepEqual(await claimDueReminders(db, DEFAULT_REMINDER_OFFSETS), [1]);
+  assert.equal(db.sent.size, 2);
+});
+
+test('only upcoming confirmed appointments of patients who want reminders are reminded', async () => {
+  const db = createRemindersDb([
+    createAppointment(1, HOUR),
+    createAppointment(2, HOUR, { status: 'PENDING' }),
+    createAppointment(3, HOUR, { reminders_enabled: false }),
+    createAppointment(4, -HOUR),
+    createAppointment(5, 3 * DAY)
+  ]);
+
+  assert.deepEqual(await claimDueReminders(db, DEFAULT_REMINDER_OFFSETS), [1]);
+});
+
+test('no offsets means no reminders and no query', async () => {
+  const db = createRemindersDb([createAppointment(1, HOUR)]);
+
+  assert.deepEqual(await claimDueReminders(db, []), []);
+  assert.equal(db.queries.length, 0);
+});
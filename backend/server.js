@@ -6,19 +6,117 @@ console.log('🔹 server.js is running...');
 
 // Step 1: Import required packages
 const express = require('express');
-const { Pool } = require('pg');
+const { Pool, types } = require('pg');
 const cors = require('cors');
+const bcrypt = require('bcryptjs');
+const jwt = require('jsonwebtoken');
 require('dotenv').config();
+const { createTransport, queueEmail, processOutbox } = require('./notifications');
+const {
+  UNPAID_STATUSES,
+  createPaymentProvider,
+  createPayment,
+  recordPaymentEvent,
+  applyPaymentEvent,
+  refundPayment,
+  cancelPayment
+} = require('./payments');
+const {
+  VISIT_MODES,
+  MEETING_OPENS_MINUTES_BEFORE,
+  createMeetingProvider,
+  createMeeting,
+  moveMeeting,
+  closeMeeting
+} = require('./meetings');
+const { createSlotEventHub } = require('./slotEvents');
+const {
+  toMinutes,
+  fromMinutes,
+  SLOT_BLOCKED_BY_TIME_OFF,
+  slotHeldForOthers,
+  slotRunCovers,
+  lockSlotRun,
+  occupySlots,
+  releaseAppointmentSlots,
+  holdSlots,
+  releaseBookingHolds
+} = require('./slots');
+const { createIdempotencyMiddleware, purgeIdempotencyKeys } = require('./idempotency');
+const {
+  STATUSES,
+  ACTIVE_STATUSES,
+  canTransition,
+  transitionAppointments,
+  transitionAppointment,
+  recordAppointmentEvent
+} = require('./appointmentStatus');
+const { policyScope, evaluateCancellation } = require('./cancellationPolicies');
+const { DEFAULT_REMINDER_OFFSETS, claimDueReminders } = require('./reminders');
+const { wallClockIn, wallClockToMoment } = require('./timeZones');
 
 // Step 2: Create Express app
 const app = express();
 const PORT = process.env.PORT || 5000;
+// Anyone knowing the secret can sign their own tokens (any role), so there
+// is no default to fall back on
+const JWT_SECRET = process.env.JWT_SECRET;
+if (!JWT_SECRET) {
+  throw new Error('JWT_SECRET is not set. Add a long random string to .env');
+}
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '7d';
+const ROLES = ['admin', 'doctor', 'patient'];
+const SLOT_GENERATION_WEEKS = parseInt(process.env.SLOT_GENERATION_WEEKS, 10) || 4;
+const WAITLIST_HOLD_MINUTES = parseInt(process.env.WAITLIST_HOLD_MINUTES, 10) || 15;
+const DEFAULT_PENDING_HOLD_MINUTES = 2; // how long a PENDING booking waits for confirmation
+const MAX_PENDING_HOLD_MINUTES = 24 * 60;
+// How many bookings one patient may have with the same doctor at once (null = no limit)
+const DEFAULT_BOOKING_LIMITS = { max_pending_per_doctor: 1, max_upcoming_per_doctor: 3 };
+const MAX_BOOKING_LIMIT = 100;
+const PAYMENT_WEBHOOK_PATH = '/api/payments/webhook';
+
+// Zone for slots without a location, and for databases from before locations
+const CLINIC_TIMEZONE = (() => {
+  const timezone = process.env.CLINIC_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return timezone;
+  } catch (error) {
+    console.warn(`⚠️ Unknown CLINIC_TIMEZONE "${timezone}", using UTC`);
+    return 'UTC';
+  }
+})();
+
+// SQL for a slot's timezone (slot alias "s" with its location joined as "l")
+const SLOT_TIMEZONE = `COALESCE(l.timezone, '${CLINIC_TIMEZONE}')`;
+
+// Email transport used by the outbox worker (EMAIL_TRANSPORT=console|file|smtp)
+const emailTransport = createTransport();
+
+// Collects consultation fees (PAYMENT_PROVIDER=none|mock, mock in development only)
+const paymentProvider = createPaymentProvider();
+
+// Opens rooms for video visits (MEETING_PROVIDER=stub)
+const meetingProvider = createMeetingProvider();
+
+// Tells open browsers when slots are booked or released (GET /api/slots/events)
+const slotEvents = createSlotEventHub();
 
 // Step 3: Setup middleware (allows API to receive/send data)
 app.use(cors({ origin: process.env.CORS_ORIGIN || '*' })); // Allow frontend to connect
-app.use(express.json()); // Parse JSON data
+app.use(express.json({
+  // Webhook signatures are checked against the exact bytes received
+  verify: (req, res, buf) => {
+    if (req.originalUrl === PAYMENT_WEBHOOK_PATH) req.rawBody = buf.toString('utf8');
+  }
+})); // Parse JSON data
 
 // Step 4: Connect to PostgreSQL Database
+// DATE columns come back as "YYYY-MM-DD" strings. As JS Dates they would be
+// midnight in the server's zone, which serializes as the previous day
+// anywhere east of UTC.
+types.setTypeParser(1082, (value) => value);
+
 const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
   ssl: {
@@ -49,7 +147,21 @@ const initializeDatabase = async () => {
         email VARCHAR(255) UNIQUE NOT NULL,
         specialty VARCHAR(100) NOT NULL,
         consultation_fee DECIMAL(10,2) NOT NULL,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Create users table (login accounts for admins, doctors and patients)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS users (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        email VARCHAR(255) UNIQUE NOT NULL,
+        password_hash VARCHAR(255) NOT NULL,
+        role VARCHAR(20) NOT NULL DEFAULT 'patient',
+        doctor_id INTEGER REFERENCES doctors(id) ON DELETE SET NULL,
+        created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+        CONSTRAINT valid_role CHECK (role IN ('admin', 'doctor', 'patient'))
       )
     `);
 
@@ -62,7 +174,7 @@ const initializeDatabase = async () => {
         start_time TIME NOT NULL,
         end_time TIME NOT NULL,
         is_booked BOOLEAN DEFAULT FALSE,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
         UNIQUE(doctor_id, slot_date, start_time)
       )
     `);
@@ -78,440 +190,5372 @@ const initializeDatabase = async () => {
         patient_age INTEGER NOT NULL,
         reason_for_visit TEXT NOT NULL,
         status VARCHAR(50) DEFAULT 'PENDING',
-        booking_time TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        confirmation_time TIMESTAMP,
-        CONSTRAINT valid_status CHECK (status IN ('PENDING', 'CONFIRMED', 'FAILED', 'CANCELLED'))
+        booking_time TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+        confirmation_time TIMESTAMPTZ,
+        CONSTRAINT valid_appointment_status
+          CHECK (status IN ('PENDING', 'CONFIRMED', 'COMPLETED', 'NO_SHOW', 'CANCELLED', 'FAILED'))
+      )
+    `);
+
+    // Older tables only allowed four statuses; swap in the state machine's list
+    await pool.query(`
+      DO $$ BEGIN
+        IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'valid_appointment_status') THEN
+          ALTER TABLE appointments DROP CONSTRAINT IF EXISTS valid_status;
+          ALTER TABLE appointments ADD CONSTRAINT valid_appointment_status
+            CHECK (status IN ('PENDING', 'CONFIRMED', 'COMPLETED', 'NO_SHOW', 'CANCELLED', 'FAILED'));
+        END IF;
+      END $$;
+    `);
+
+    // Reject inverted times on new slots (NOT VALID skips old rows)
+    await pool.query(`
+      DO $$ BEGIN
+        IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'valid_slot_times') THEN
+          ALTER TABLE slots ADD CONSTRAINT valid_slot_times CHECK (end_time > start_time) NOT VALID;
+        END IF;
+      END $$;
+    `);
+
+    // Reject overlapping slots for the same doctor. This fails if old data
+    // already overlaps; the API still checks overlaps itself in that case.
+    // (btree_gist lets the constraint mix "=" on doctor_id with range overlap)
+    try {
+      await pool.query('CREATE EXTENSION IF NOT EXISTS btree_gist');
+      await pool.query(`
+        DO $$ BEGIN
+          IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'slots_no_overlap') THEN
+            ALTER TABLE slots ADD CONSTRAINT slots_no_overlap EXCLUDE USING gist (
+              doctor_id WITH =,
+              tsrange(slot_date + start_time, slot_date + end_time) WITH &&
+            );
+          END IF;
+        END $$;
+      `);
+    } catch (error) {
+      console.warn('⚠️ Could not add slot overlap constraint (missing btree_gist or overlapping slots):', error.message);
+    }
+
+    // Create availability templates table (weekly schedule per doctor)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS availability_templates (
+        id SERIAL PRIMARY KEY,
+        doctor_id INTEGER REFERENCES doctors(id) ON DELETE CASCADE,
+        day_of_week SMALLINT NOT NULL,
+        start_time TIME NOT NULL,
+        end_time TIME NOT NULL,
+        slot_minutes INTEGER NOT NULL DEFAULT 30,
+        buffer_minutes INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+        CONSTRAINT valid_day_of_week CHECK (day_of_week BETWEEN 0 AND 6),
+        CONSTRAINT valid_template_times CHECK (end_time > start_time),
+        CONSTRAINT valid_slot_minutes CHECK (slot_minutes > 0 AND buffer_minutes >= 0)
+      )
+    `);
+
+    // Create time off table (doctor leave; doctor_id NULL = whole clinic closed)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS time_off (
+        id SERIAL PRIMARY KEY,
+        doctor_id INTEGER REFERENCES doctors(id) ON DELETE CASCADE,
+        starts_at TIMESTAMP NOT NULL, -- clinic wall clock, like slot_date + start_time
+        ends_at TIMESTAMP NOT NULL,
+        reason VARCHAR(255),
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+        CONSTRAINT valid_time_off_range CHECK (ends_at > starts_at)
+      )
+    `);
+
+    // Appointments caught inside a time off block point at it until handled
+    await pool.query(`
+      ALTER TABLE appointments
+      ADD COLUMN IF NOT EXISTS time_off_id INTEGER REFERENCES time_off(id) ON DELETE SET NULL
+    `);
+
+    // Create reschedule history table (keeps a copy of the old slot's time)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS appointment_reschedules (
+        id SERIAL PRIMARY KEY,
+        appointment_id INTEGER REFERENCES appointments(id) ON DELETE CASCADE,
+        old_slot_id INTEGER REFERENCES slots(id) ON DELETE SET NULL,
+        new_slot_id INTEGER REFERENCES slots(id) ON DELETE SET NULL,
+        old_slot_date DATE NOT NULL,
+        old_start_time TIME NOT NULL,
+        old_end_time TIME NOT NULL,
+        rescheduled_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        rescheduled_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Create waitlist table (patients waiting for a doctor, optionally on one date)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS waitlist_entries (
+        id SERIAL PRIMARY KEY,
+        doctor_id INTEGER REFERENCES doctors(id) ON DELETE CASCADE,
+        user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+        patient_email VARCHAR(255) NOT NULL,
+        preferred_date DATE,
+        status VARCHAR(20) NOT NULL DEFAULT 'WAITING',
+        offered_slot_id INTEGER REFERENCES slots(id) ON DELETE SET NULL,
+        offer_expires_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+        CONSTRAINT valid_waitlist_status CHECK (status IN ('WAITING', 'OFFERED', 'BOOKED', 'EXPIRED', 'CANCELLED'))
+      )
+    `);
+
+    // A slot offered to a waitlisted patient is held for them until hold_expires_at
+    await pool.query(`
+      ALTER TABLE slots
+      ADD COLUMN IF NOT EXISTS hold_user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      ADD COLUMN IF NOT EXISTS hold_expires_at TIMESTAMPTZ
+    `);
+
+    // Slots are also held briefly for a patient filling in the booking form;
+    // hold_kind tells the two apart (holds from before it were waitlist offers)
+    await pool.query(`
+      ALTER TABLE slots
+      ADD COLUMN IF NOT EXISTS hold_kind VARCHAR(10) CHECK (hold_kind IN ('waitlist', 'booking'))
+    `);
+    await pool.query(`
+      UPDATE slots SET hold_kind = 'waitlist'
+      WHERE hold_user_id IS NOT NULL AND hold_kind IS NULL
+    `);
+
+    // Create email outbox table (every notification email, queued then sent)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS email_outbox (
+        id SERIAL PRIMARY KEY,
+        to_email VARCHAR(255) NOT NULL,
+        template VARCHAR(50) NOT NULL,
+        payload JSONB NOT NULL DEFAULT '{}',
+        subject VARCHAR(255) NOT NULL,
+        body TEXT NOT NULL,
+        appointment_id INTEGER REFERENCES appointments(id) ON DELETE SET NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        next_attempt_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+        last_attempt_at TIMESTAMPTZ,
+        sent_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+        CONSTRAINT valid_email_status CHECK (status IN ('PENDING', 'SENDING', 'SENT', 'FAILED'))
+      )
+    `);
+
+    // Create settings table (admin-editable key/value configuration)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS settings (
+        key VARCHAR(100) PRIMARY KEY,
+        value JSONB NOT NULL,
+        updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await pool.query(
+      `INSERT INTO settings (key, value) VALUES ('reminder_offsets_minutes', $1)
+       ON CONFLICT (key) DO NOTHING`,
+      [JSON.stringify(DEFAULT_REMINDER_OFFSETS)]
+    );
+
+    await pool.query(
+      `INSERT INTO settings (key, value) VALUES ('pending_hold_minutes', $1)
+       ON CONFLICT (key) DO NOTHING`,
+      [JSON.stringify(DEFAULT_PENDING_HOLD_MINUTES)]
+    );
+
+    await pool.query(
+      `INSERT INTO settings (key, value) VALUES ('booking_limits', $1)
+       ON CONFLICT (key) DO NOTHING`,
+      [JSON.stringify(DEFAULT_BOOKING_LIMITS)]
+    );
+
+    // Per-doctor override of the pending hold window (NULL = use the global setting)
+    await pool.query(`
+      ALTER TABLE doctors
+      ADD COLUMN IF NOT EXISTS pending_hold_minutes INTEGER
+    `);
+
+    // Doctor profile fields, and a flag to retire a doctor without deleting
+    // their slots and appointment history
+    await pool.query(`
+      ALTER TABLE doctors
+      ADD COLUMN IF NOT EXISTS bio TEXT,
+      ADD COLUMN IF NOT EXISTS qualifications TEXT,
+      ADD COLUMN IF NOT EXISTS languages TEXT[] NOT NULL DEFAULT '{}',
+      ADD COLUMN IF NOT EXISTS years_of_experience INTEGER CHECK (years_of_experience >= 0),
+      ADD COLUMN IF NOT EXISTS photo_url TEXT,
+      ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT TRUE,
+      ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMPTZ
+    `);
+
+    // Create locations table (clinics; opening_hours is a list of
+    // { day_of_week, open_time, close_time }, empty = no fixed hours)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS locations (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(255) UNIQUE NOT NULL,
+        address TEXT NOT NULL DEFAULT '',
+        timezone VARCHAR(64) NOT NULL,
+        opening_hours JSONB NOT NULL DEFAULT '[]',
+        created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Which locations each doctor works at
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS doctor_locations (
+        doctor_id INTEGER REFERENCES doctors(id) ON DELETE CASCADE,
+        location_id INTEGER REFERENCES locations(id) ON DELETE CASCADE,
+        PRIMARY KEY (doctor_id, location_id)
+      )
+    `);
+
+    // Slots take place at a location; weekly schedules say where their slots go
+    await pool.query(`
+      ALTER TABLE slots
+      ADD COLUMN IF NOT EXISTS location_id INTEGER REFERENCES locations(id)
+    `);
+    await pool.query(`
+      ALTER TABLE availability_templates
+      ADD COLUMN IF NOT EXISTS location_id INTEGER REFERENCES locations(id) ON DELETE SET NULL
+    `);
+
+    // Databases from before locations existed get one "Main Clinic" holding
+    // every doctor and slot (their times were entered in the server's zone)
+    await pool.query(`
+      WITH main AS (
+        INSERT INTO locations (name, timezone)
+        SELECT 'Main Clinic', $1
+        WHERE NOT EXISTS (SELECT 1 FROM locations) AND EXISTS (SELECT 1 FROM doctors)
+        RETURNING id
+      ),
+      assigned AS (
+        INSERT INTO doctor_locations (doctor_id, location_id)
+        SELECT d.id, main.id FROM doctors d CROSS JOIN main
+      )
+      UPDATE slots SET location_id = main.id
+      FROM main
+      WHERE slots.location_id IS NULL
+    `, [CLINIC_TIMEZONE]);
+
+    // PENDING appointments expire at expires_at (fixed when booked)
+    await pool.query(`
+      ALTER TABLE appointments
+      ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ
+    `);
+    await pool.query(`
+      UPDATE appointments
+      SET expires_at = booking_time + make_interval(mins => $1)
+      WHERE status = 'PENDING' AND expires_at IS NULL
+    `, [DEFAULT_PENDING_HOLD_MINUTES]);
+
+    // Create reminders table (one row per reminder sent, so restarts don't repeat them)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS appointment_reminders (
+        id SERIAL PRIMARY KEY,
+        appointment_id INTEGER REFERENCES appointments(id) ON DELETE CASCADE,
+        offset_minutes INTEGER NOT NULL,
+        sent_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(appointment_id, offset_minutes)
+      )
+    `);
+
+    // Create appointment events table (status history / audit trail)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS appointment_events (
+        id SERIAL PRIMARY KEY,
+        appointment_id INTEGER REFERENCES appointments(id) ON DELETE CASCADE,
+        from_status VARCHAR(50),
+        to_status VARCHAR(50) NOT NULL,
+        actor_user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        actor_role VARCHAR(20) NOT NULL DEFAULT 'system',
+        note TEXT,
+        created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Give appointments booked before the history existed their known events
+    await pool.query(`
+      INSERT INTO appointment_events (appointment_id, from_status, to_status, note, created_at)
+      SELECT a.id, NULL, 'PENDING', 'Booked', a.booking_time
+      FROM appointments a
+      WHERE NOT EXISTS (SELECT 1 FROM appointment_events e WHERE e.appointment_id = a.id)
+      UNION ALL
+      SELECT a.id, 'PENDING', 'CONFIRMED', NULL, a.confirmation_time
+      FROM appointments a
+      WHERE a.confirmation_time IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM appointment_events e WHERE e.appointment_id = a.id)
+    `);
+
+    // Create patients table (one row per person, linked to their login when
+    // they have one). Appointments keep a copy of the details they were
+    // booked with and point at the patient.
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS patients (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER UNIQUE REFERENCES users(id) ON DELETE SET NULL,
+        name VARCHAR(255) NOT NULL,
+        email VARCHAR(255) UNIQUE NOT NULL,
+        phone VARCHAR(20),
+        date_of_birth DATE,
+        gender VARCHAR(20),
+        address TEXT,
+        preferred_contact VARCHAR(10) NOT NULL DEFAULT 'email',
+        reminders_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+        emergency_contact_name VARCHAR(255),
+        emergency_contact_phone VARCHAR(20),
+        emergency_contact_relationship VARCHAR(50),
+        created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+        CONSTRAINT valid_preferred_contact CHECK (preferred_contact IN ('email', 'phone', 'sms'))
       )
     `);
 
+    await pool.query(`
+      ALTER TABLE appointments
+      ADD COLUMN IF NOT EXISTS patient_id INTEGER REFERENCES patients(id) ON DELETE SET NULL
+    `);
+
+    // Create dependents table (family members a patient books for, e.g.
+    // their children). Their appointments are under the patient's account
+    // and email, with dependent_id saying who the visit is for.
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS dependents (
+        id SERIAL PRIMARY KEY,
+        patient_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        date_of_birth DATE NOT NULL,
+        relationship VARCHAR(20) NOT NULL,
+        created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+        CONSTRAINT valid_relationship CHECK (relationship IN ('child', 'spouse', 'parent', 'sibling', 'other'))
+      )
+    `);
+
+    await pool.query(`
+      ALTER TABLE appointments
+      ADD COLUMN IF NOT EXISTS dependent_id INTEGER REFERENCES dependents(id) ON DELETE SET NULL
+    `);
+
+    // Create payments table (one consultation fee payment per appointment)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS payments (
+        id SERIAL PRIMARY KEY,
+        appointment_id INTEGER NOT NULL UNIQUE REFERENCES appointments(id) ON DELETE CASCADE,
+        provider VARCHAR(20) NOT NULL,
+        provider_payment_id VARCHAR(100) NOT NULL UNIQUE,
+        client_secret VARCHAR(200),
+        amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+        currency VARCHAR(3) NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'REQUIRES_PAYMENT',
+        refunded_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+        failure_reason TEXT,
+        paid_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+        CONSTRAINT valid_payment_status CHECK (status IN (
+          'REQUIRES_PAYMENT', 'SUCCEEDED', 'FAILED', 'CANCELLED', 'PARTIALLY_REFUNDED', 'REFUNDED'
+        ))
+      )
+    `);
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS payment_refunds (
+        id SERIAL PRIMARY KEY,
+        payment_id INTEGER NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+        provider_refund_id VARCHAR(100) NOT NULL UNIQUE,
+        amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+        reason TEXT,
+        created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Every webhook event received, so a redelivered event is only applied once
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS payment_events (
+        id SERIAL PRIMARY KEY,
+        provider VARCHAR(20) NOT NULL,
+        event_id VARCHAR(100) NOT NULL,
+        type VARCHAR(50) NOT NULL,
+        payload JSONB NOT NULL,
+        received_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (provider, event_id)
+      )
+    `);
+
+    // Create cancellation policies table. The row without a doctor or
+    // location is the clinic-wide default; a location's row overrides it
+    // and a doctor's row overrides both.
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS cancellation_policies (
+        id SERIAL PRIMARY KEY,
+        doctor_id INTEGER UNIQUE REFERENCES doctors(id) ON DELETE CASCADE,
+        location_id INTEGER UNIQUE REFERENCES locations(id) ON DELETE CASCADE,
+        min_notice_hours INTEGER NOT NULL DEFAULT 0 CHECK (min_notice_hours >= 0),
+        late_notice_hours INTEGER NOT NULL DEFAULT 24 CHECK (late_notice_hours >= 0),
+        late_fee_percent INTEGER NOT NULL DEFAULT 0 CHECK (late_fee_percent BETWEEN 0 AND 100),
+        max_cancellations INTEGER CHECK (max_cancellations > 0),
+        period_days INTEGER NOT NULL DEFAULT 30 CHECK (period_days > 0),
+        updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+        CONSTRAINT one_policy_scope CHECK (doctor_id IS NULL OR location_id IS NULL)
+      )
+    `);
+    await pool.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_cancellation_policies_default
+      ON cancellation_policies ((TRUE)) WHERE doctor_id IS NULL AND location_id IS NULL
+    `);
+    // The default starts without a late fee, so paid bookings keep being
+    // refunded in full until an admin sets one
+    await pool.query(
+      'INSERT INTO cancellation_policies (late_fee_percent) VALUES (0) ON CONFLICT DO NOTHING'
+    );
+
+    // Create appointment types table (the kinds of visit a doctor offers; a
+    // NULL fee means the doctor's consultation fee)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS appointment_types (
+        id SERIAL PRIMARY KEY,
+        doctor_id INTEGER NOT NULL REFERENCES doctors(id) ON DELETE CASCADE,
+        name VARCHAR(100) NOT NULL,
+        description TEXT,
+        duration_minutes INTEGER NOT NULL CHECK (duration_minutes > 0),
+        fee DECIMAL(10,2) CHECK (fee > 0),
+        is_active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (doctor_id, name)
+      )
+    `);
+
+    // The type booked, with its duration and fee as they were at booking
+    await pool.query(`
+      ALTER TABLE appointments
+      ADD COLUMN IF NOT EXISTS appointment_type_id INTEGER REFERENCES appointment_types(id) ON DELETE SET NULL,
+      ADD COLUMN IF NOT EXISTS duration_minutes INTEGER,
+      ADD COLUMN IF NOT EXISTS fee DECIMAL(10,2)
+    `);
+
+    // Every slot an appointment occupies: its start slot (appointments.slot_id)
+    // plus the slots after it that a longer type runs into
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS appointment_slots (
+        appointment_id INTEGER NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+        slot_id INTEGER NOT NULL REFERENCES slots(id) ON DELETE CASCADE,
+        PRIMARY KEY (appointment_id, slot_id)
+      )
+    `);
+    await pool.query(`
+      INSERT INTO appointment_slots (appointment_id, slot_id)
+      SELECT a.id, a.slot_id FROM appointments a
+      WHERE a.slot_id IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM appointment_slots aps WHERE aps.appointment_id = a.id)
+    `);
+
+    // Whether a visit happens in person or by video. Existing slots, weekly
+    // schedules, types and appointments were all in person.
+    for (const table of ['slots', 'availability_templates', 'appointment_types', 'appointments']) {
+      await pool.query(`
+        ALTER TABLE ${table}
+        ADD COLUMN IF NOT EXISTS visit_mode VARCHAR(10) NOT NULL DEFAULT 'in_person'
+          CHECK (visit_mode IN ('in_person', 'video'))
+      `);
+    }
+
+    // Create appointment meetings table (the room of a video appointment)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS appointment_meetings (
+        id SERIAL PRIMARY KEY,
+        appointment_id INTEGER NOT NULL UNIQUE REFERENCES appointments(id) ON DELETE CASCADE,
+        provider VARCHAR(20) NOT NULL,
+        room_id VARCHAR(100) NOT NULL,
+        url TEXT NOT NULL,
+        created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+        closed_at TIMESTAMPTZ,
+        UNIQUE (provider, room_id)
+      )
+    `);
+
+    // Create idempotency keys table (responses to replay when a client
+    // retries a request with the same Idempotency-Key, see idempotency.js)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS idempotency_keys (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        idempotency_key VARCHAR(255) NOT NULL,
+        request_hash CHAR(64) NOT NULL,
+        status_code INTEGER,
+        response_body JSONB,
+        created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+        completed_at TIMESTAMPTZ,
+        UNIQUE (user_id, idempotency_key)
+      )
+    `);
+
+    // One patient per email for appointments booked before patients existed,
+    // named after their latest booking and linked to their account if any
+    await pool.query(`
+      INSERT INTO patients (name, email, phone, user_id)
+      SELECT DISTINCT ON (LOWER(a.patient_email))
+             a.patient_name, LOWER(a.patient_email), a.patient_phone, u.id
+      FROM appointments a
+      LEFT JOIN users u ON u.email = LOWER(a.patient_email) AND u.role = 'patient'
+      WHERE a.patient_id IS NULL
+      ORDER BY LOWER(a.patient_email), a.booking_time DESC
+      ON CONFLICT DO NOTHING
+    `);
+    await pool.query(`
+      UPDATE appointments a
+      SET patient_id = p.id
+      FROM patients p
+      WHERE a.patient_id IS NULL AND p.email = LOWER(a.patient_email)
+    `);
+
+    // Older databases stored moments (booking_time, hold expiries, ...) as
+    // TIMESTAMP in the database session's zone; make them TIMESTAMPTZ.
+    // time_off stays a wall clock range, it is compared with slot times.
+    await pool.query(`
+      DO $$
+      DECLARE col RECORD;
+      BEGIN
+        FOR col IN
+          SELECT table_name, column_name FROM information_schema.columns
+          WHERE table_schema = current_schema()
+          AND data_type = 'timestamp without time zone'
+          AND table_name IN ('doctors', 'users', 'slots', 'appointments', 'availability_templates',
+            'time_off', 'appointment_reschedules', 'waitlist_entries', 'email_outbox', 'settings',
+            'locations', 'appointment_reminders', 'appointment_events')
+          AND NOT (table_name = 'time_off' AND column_name IN ('starts_at', 'ends_at'))
+        LOOP
+          EXECUTE format('ALTER TABLE %I ALTER COLUMN %I TYPE TIMESTAMPTZ', col.table_name, col.column_name);
+        END LOOP;
+      END $$;
+    `);
+
+    // slot_date / start_time / end_time are the clinic's wall clock;
+    // starts_at / ends_at are the same times as real moments, worked out
+    // in the slot location's timezone
+    await pool.query(`
+      ALTER TABLE slots
+      ADD COLUMN IF NOT EXISTS starts_at TIMESTAMPTZ,
+      ADD COLUMN IF NOT EXISTS ends_at TIMESTAMPTZ
+    `);
+    await pool.query(`
+      UPDATE slots s
+      SET starts_at = (s.slot_date + s.start_time) AT TIME ZONE ${SLOT_TIMEZONE},
+          ends_at = (s.slot_date + s.end_time) AT TIME ZONE ${SLOT_TIMEZONE}
+      FROM slots s2
+      LEFT JOIN locations l ON l.id = s2.location_id
+      WHERE s2.id = s.id AND s.starts_at IS NULL
+    `);
+    await pool.query(`
+      ALTER TABLE slots
+      ALTER COLUMN starts_at SET NOT NULL,
+      ALTER COLUMN ends_at SET NOT NULL
+    `);
+
     // Create indexes for better performance
     await pool.query(`
       CREATE INDEX IF NOT EXISTS idx_slots_doctor_date ON slots(doctor_id, slot_date);
       CREATE INDEX IF NOT EXISTS idx_appointments_status ON appointments(status);
+      CREATE INDEX IF NOT EXISTS idx_availability_templates_doctor ON availability_templates(doctor_id);
+      CREATE INDEX IF NOT EXISTS idx_time_off_range ON time_off(starts_at, ends_at);
+      CREATE INDEX IF NOT EXISTS idx_appointment_reschedules_appointment ON appointment_reschedules(appointment_id);
+      CREATE INDEX IF NOT EXISTS idx_waitlist_doctor_status ON waitlist_entries(doctor_id, status, created_at);
+      CREATE INDEX IF NOT EXISTS idx_email_outbox_due ON email_outbox(status, next_attempt_at);
+      CREATE INDEX IF NOT EXISTS idx_appointment_events_appointment ON appointment_events(appointment_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_slots_location_date ON slots(location_id, slot_date);
+      CREATE INDEX IF NOT EXISTS idx_slots_starts_at ON slots(starts_at);
+      CREATE INDEX IF NOT EXISTS idx_appointments_patient ON appointments(patient_id);
+      CREATE INDEX IF NOT EXISTS idx_dependents_patient ON dependents(patient_id);
+      CREATE INDEX IF NOT EXISTS idx_payment_refunds_payment ON payment_refunds(payment_id);
+      CREATE INDEX IF NOT EXISTS idx_doctor_locations_location ON doctor_locations(location_id);
+      CREATE INDEX IF NOT EXISTS idx_appointment_types_doctor ON appointment_types(doctor_id);
+      CREATE INDEX IF NOT EXISTS idx_appointment_slots_slot ON appointment_slots(slot_id);
+      CREATE INDEX IF NOT EXISTS idx_slots_hold_user ON slots(hold_user_id) WHERE hold_user_id IS NOT NULL;
+      CREATE INDEX IF NOT EXISTS idx_idempotency_keys_created ON idempotency_keys(created_at);
     `);
 
+    // Create the first admin account from environment variables
+    if (process.env.ADMIN_EMAIL && process.env.ADMIN_PASSWORD) {
+      const passwordHash = await bcrypt.hash(process.env.ADMIN_PASSWORD, 10);
+      await pool.query(
+        `INSERT INTO users (name, email, password_hash, role)
+         VALUES ('Administrator', $1, $2, 'admin')
+         ON CONFLICT (email) DO NOTHING`,
+        [process.env.ADMIN_EMAIL.toLowerCase(), passwordHash]
+      );
+    }
+
     console.log('✅ Database tables created successfully!');
   } catch (error) {
     console.error('❌ Error creating tables:', error);
   }
 };
 
-// Initialize database on server start
-initializeDatabase();
-
-// ============================================
-// API ENDPOINTS
-// ============================================
-
-// 🏥 HEALTH CHECK
-app.get('/health', (req, res) => {
-  res.json({
-    success: true,
-    message: 'Server is running!',
-    timestamp: new Date()
-  });
-});
+// Initialize database on server start (background jobs wait for this)
+const dbReady = initializeDatabase();
 
 // ============================================
-// DOCTOR ENDPOINTS
+// AUTH HELPERS & MIDDLEWARE
 // ============================================
 
-// CREATE DOCTOR (Admin)
-app.post('/api/doctors', async (req, res) => {
-  try {
-    const { name, email, specialty, consultation_fee } = req.body;
+// Create a signed token for a user row
+const signToken = (user) => jwt.sign(
+  { id: user.id, email: user.email, role: user.role, doctor_id: user.doctor_id },
+  JWT_SECRET,
+  { expiresIn: JWT_EXPIRES_IN }
+);
 
-    // Validate input
-    if (!name || !email || !specialty || !consultation_fee) {
-      return res.status(400).json({
-        success: false,
-        message: 'All fields are required'
-      });
-    }
+// Strip the password hash before sending a user to the client
+const toPublicUser = (user) => ({
+  id: user.id,
+  name: user.name,
+  email: user.email,
+  role: user.role,
+  doctor_id: user.doctor_id
+});
 
-    // Insert into database
-    const result = await pool.query(
-      'INSERT INTO doctors (name, email, specialty, consultation_fee) VALUES ($1, $2, $3, $4) RETURNING *',
-      [name, email, specialty, consultation_fee]
-    );
+// Require a valid "Authorization: Bearer <token>" header
+const authenticate = (req, res, next) => {
+  const header = req.headers.authorization || '';
+  const [scheme, token] = header.split(' ');
 
-    res.status(201).json({
-      success: true,
-      message: 'Doctor created successfully',
-      data: result.rows[0]
-    });
-  } catch (error) {
-    console.error(error);
-    res.status(500).json({
+  if (scheme !== 'Bearer' || !token) {
+    return res.status(401).json({
       success: false,
-      message: 'Error creating doctor',
-      error: error.message
+      message: 'Authentication required'
     });
   }
-});
 
-// GET ALL DOCTORS
-app.get('/api/doctors', async (req, res) => {
   try {
-    const result = await pool.query(
-      'SELECT * FROM doctors ORDER BY name ASC'
-    );
-
-    res.json({
-      success: true,
-      message: 'Doctors retrieved successfully',
-      data: result.rows
-    });
+    req.user = jwt.verify(token, JWT_SECRET);
+    next();
   } catch (error) {
-    console.error(error);
-    res.status(500).json({
+    return res.status(401).json({
       success: false,
-      message: 'Error fetching doctors'
+      message: 'Invalid or expired token'
     });
   }
-});
+};
+
+// Read the token if there is one, but let anonymous requests through
+const optionalAuthenticate = (req, res, next) => {
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
+
+  if (scheme === 'Bearer' && token) {
+    try {
+      req.user = jwt.verify(token, JWT_SECRET);
+    } catch (error) {
+      // Treat an invalid token like no token on public routes
+    }
+  }
+  next();
+};
+
+// Allow only the listed roles (use after authenticate)
+const authorize = (...roles) => (req, res, next) => {
+  if (!req.user || !roles.includes(req.user.role)) {
+    return res.status(403).json({
+      success: false,
+      message: 'You do not have permission to perform this action'
+    });
+  }
+  next();
+};
+
+// Check whether the logged-in user may act on an appointment row
+// (needs patient_email and doctor_id on the row)
+const canAccessAppointment = (user, appointment) => {
+  if (user.role === 'admin') return true;
+  if (user.role === 'patient') return appointment.patient_email === user.email;
+  if (user.role === 'doctor') return appointment.doctor_id === user.doctor_id;
+  return false;
+};
+
+// Admins may act on any /api/doctors/:id route, doctors only on their own
+// (use after authorize('admin', 'doctor'))
+const authorizeOwnDoctor = (req, res, next) => {
+  if (req.user.role === 'doctor' && Number(req.params.id) !== req.user.doctor_id) {
+    return res.status(403).json({
+      success: false,
+      message: 'You can only manage your own schedule'
+    });
+  }
+  next();
+};
+
+// Deactivated doctors get no new slots, like in the background generator
+// (a doctor's own token stays valid until it expires)
+const INACTIVE_DOCTOR_MESSAGE = 'This doctor is inactive. Reactivate them before adding slots.';
+
+const isInactiveDoctor = async (db, doctorId) => {
+  const result = await db.query('SELECT is_active FROM doctors WHERE id = $1', [doctorId]);
+  return result.rows.length > 0 && !result.rows[0].is_active;
+};
+
+// For /api/doctors/:id routes that create slots
+const requireActiveDoctor = async (req, res, next) => {
+  try {
+    if (await isInactiveDoctor(pool, req.params.id)) {
+      return res.status(409).json({ success: false, message: INACTIVE_DOCTOR_MESSAGE });
+    }
+    next();
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error checking doctor' });
+  }
+};
+
+// Id of the user the request's token belongs to, or null
+const tokenUserId = (req) => {
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
+  if (scheme !== 'Bearer' || !token) return null;
+
+  try {
+    return jwt.verify(token, JWT_SECRET).id;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Retried requests with the same Idempotency-Key get the first response back
+// instead of running again (see idempotency.js)
+app.use(createIdempotencyMiddleware(pool, tokenUserId));
+
+// ============================================
+// DATE & TIME HELPERS
+// ============================================
+
+// Date -> "YYYY-MM-DD" using the server's local calendar day
+const toDateString = (date) => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+// "2025-01-15" plus a number of days, as plain calendar arithmetic
+const addDays = (dateString, days) => {
+  const date = new Date(`${dateString}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+// "2025-01-15" -> 0 (Sunday) to 6 (Saturday)
+const weekdayOf = (dateString) => new Date(`${dateString}T00:00:00Z`).getUTCDay();
+
+// Validate a new slot's date and times, returns { field: message } (empty when valid).
+// "Already passed" is judged in the slot's timezone, at the moment the slot
+// will be stored with.
+const validateSlotTimes = ({ slot_date, start_time, end_time }, timeZone = CLINIC_TIMEZONE, now = new Date()) => {
+  const errors = {};
+  const timePattern = /^\d{2}:\d{2}(:\d{2})?$/;
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(slot_date || '') || Number.isNaN(Date.parse(slot_date))) {
+    errors.slot_date = 'Date must be in YYYY-MM-DD format';
+  }
+  if (!timePattern.test(start_time || '')) {
+    errors.start_time = 'Start time must be in HH:MM format';
+  }
+  if (!timePattern.test(end_time || '')) {
+    errors.end_time = 'End time must be in HH:MM format';
+  }
+  if (Object.keys(errors).length > 0) return errors;
+
+  if (toMinutes(end_time) <= toMinutes(start_time)) {
+    errors.end_time = 'End time must be after start time';
+  }
+
+  if (slot_date < wallClockIn(timeZone, now).date) {
+    errors.slot_date = 'Date cannot be in the past';
+  } else if (wallClockToMoment(slot_date, start_time, timeZone) <= now) {
+    errors.start_time = 'Start time has already passed today';
+  }
+
+  return errors;
+};
+
+// "2025-01-15" (and a real calendar date)
+const isDateString = (value) => /^\d{4}-\d{2}-\d{2}$/.test(value || '') && !Number.isNaN(Date.parse(value));
+
+// ============================================
+// LIST HELPERS (pagination, filtering, sorting)
+// ============================================
+// Every list endpoint follows the same contract:
+//   ?page=2&limit=20       one page, and the response gets
+//                          pagination: { page, limit, total, total_pages }
+//   ?sort=name&order=desc  sort by one of the endpoint's sort fields
+// Without page and limit the whole (filtered) list is returned.
+
+const DEFAULT_PAGE_LIMIT = 20;
+const MAX_PAGE_LIMIT = 100;
+
+// Comma-separated query value -> array ("1,2" -> ["1", "2"])
+const parseList = (value) => String(value || '').split(',').map((item) => item.trim()).filter(Boolean);
+
+// ?page & ?limit -> { page, limit } or null when the client wants everything
+const parsePagination = (query) => {
+  if (!query.page && !query.limit) return null;
+  const page = Math.max(parseInt(query.page, 10) || 1, 1);
+  const limit = Math.min(Math.max(parseInt(query.limit, 10) || DEFAULT_PAGE_LIMIT, 1), MAX_PAGE_LIMIT);
+  return { page, limit };
+};
+
+// ?sort & ?order -> { orderBy } or { error }. sorts maps each allowed field
+// to its SQL columns; tieBreaker keeps pages stable when values repeat.
+const buildOrderBy = (query, sorts, { sort, order = 'asc', tieBreaker }) => {
+  const field = query.sort || sort;
+  if (!sorts[field]) {
+    return { error: `sort must be one of: ${Object.keys(sorts).join(', ')}` };
+  }
+
+  const requested = String(query.order || order).toLowerCase();
+  if (!['asc', 'desc'].includes(requested)) {
+    return { error: 'order must be asc or desc' };
+  }
+
+  const direction = requested.toUpperCase();
+  const columns = [...sorts[field], tieBreaker].map((column) => `${column} ${direction}`);
+  return { orderBy: `ORDER BY ${columns.join(', ')}` };
+};
+
+// Run "SELECT <select> <from> WHERE <conditions> <orderBy>", one page of it
+// when pagination is given. Returns { rows, pagination? }.
+const fetchList = async (db, { select, from, conditions, params, orderBy }, pagination) => {
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const query = `SELECT ${select} ${from} ${where} ${orderBy}`;
+
+  if (!pagination) {
+    const result = await db.query(query, params);
+    return { rows: result.rows };
+  }
+
+  const { page, limit } = pagination;
+  const countResult = await db.query(`SELECT COUNT(*)::int AS total ${from} ${where}`, params);
+  const { total } = countResult.rows[0];
+  const result = await db.query(`${query} LIMIT ${limit} OFFSET ${(page - 1) * limit}`, params);
+
+  return {
+    rows: result.rows,
+    pagination: { page, limit, total, total_pages: Math.ceil(total / limit) }
+  };
+};
+
+// ============================================
+// NOTIFICATION HELPERS
+// ============================================
+
+// Queue one of the appointment email templates for an appointment (extra
+// adds template-specific data). Pass the transaction client to queue it
+// together with the change.
+const queueAppointmentEmail = async (db, appointmentId, template, extra = {}) => {
+  const result = await db.query(
+    `SELECT a.id as appointment_id, a.patient_name, a.patient_email,
+            to_char(s.slot_date, 'YYYY-MM-DD') as slot_date, s.start_time, ${VISIT_END_TIME} as end_time,
+            ${SLOT_TIMEZONE} as timezone, d.name as doctor_name, d.specialty
+     FROM appointments a
+     JOIN slots s ON a.slot_id = s.id
+     JOIN doctors d ON s.doctor_id = d.id
+     LEFT JOIN locations l ON s.location_id = l.id
+     WHERE a.id = $1`,
+    [appointmentId]
+  );
+
+  if (!result.rows[0]) return null;
+
+  const data = { ...result.rows[0], ...extra };
+  return queueEmail(db, { to: data.patient_email, template, data, appointmentId });
+};
+
+// Read a value from the settings table
+const getSetting = async (key, fallback) => {
+  const result = await pool.query('SELECT value FROM settings WHERE key = $1', [key]);
+  return result.rows.length > 0 ? result.rows[0].value : fallback;
+};
+
+// Create or replace a value in the settings table
+const setSetting = async (key, value) => {
+  const result = await pool.query(
+    `INSERT INTO settings (key, value, updated_at) VALUES ($1, $2, NOW())
+     ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = NOW()
+     RETURNING value`,
+    [key, JSON.stringify(value)]
+  );
+  return result.rows[0].value;
+};
+
+// Minutes a new PENDING booking with this doctor waits for confirmation
+const getPendingHoldMinutes = async (db, doctorId) => {
+  const result = await db.query(
+    'SELECT pending_hold_minutes FROM doctors WHERE id = $1',
+    [doctorId]
+  );
+  const doctorOverride = result.rows[0] && result.rows[0].pending_hold_minutes;
+  return doctorOverride || getSetting('pending_hold_minutes', DEFAULT_PENDING_HOLD_MINUTES);
+};
+
+// How many bookings one patient may have with the same doctor at once
+const getBookingLimits = async () => ({
+  ...DEFAULT_BOOKING_LIMITS,
+  ...await getSetting('booking_limits', DEFAULT_BOOKING_LIMITS)
+});
+
+// Why this patient can't book another appointment with the doctor, or null.
+// Bookings for their dependents count too: patients add dependents
+// themselves, so counting them apart would lift the limit.
+const checkBookingLimits = async (db, { patientId, doctorId }) => {
+  const limits = await getBookingLimits();
+  const result = await db.query(
+    `SELECT COUNT(*) FILTER (WHERE a.status = 'PENDING')::int AS pending,
+            COUNT(*) FILTER (WHERE a.status = ANY($3) AND s.starts_at > NOW())::int AS upcoming
+     FROM appointments a
+     JOIN slots s ON a.slot_id = s.id
+     WHERE a.patient_id = $1 AND s.doctor_id = $2`,
+    [patientId, doctorId, ACTIVE_STATUSES]
+  );
+  const { pending, upcoming } = result.rows[0];
+
+  const maxPending = limits.max_pending_per_doctor;
+  if (maxPending !== null && pending >= maxPending) {
+    return maxPending === 1
+      ? 'You already have a booking with this doctor waiting for confirmation. Please confirm or cancel it before booking another.'
+      : `You already have ${pending} bookings with this doctor waiting for confirmation. Please confirm or cancel one before booking another.`;
+  }
+
+  const maxUpcoming = limits.max_upcoming_per_doctor;
+  if (maxUpcoming !== null && upcoming >= maxUpcoming) {
+    return maxUpcoming === 1
+      ? 'You already have an upcoming appointment with this doctor. Please cancel or reschedule it instead of booking another.'
+      : `You already have ${upcoming} upcoming appointments with this doctor, the most allowed. Please cancel or reschedule one instead of booking another.`;
+  }
+
+  return null;
+};
+
+// Send a patient a free-form update (time off, waitlist offers, ...)
+const notifyPatient = (email, message, subject) => {
+  queueEmail(pool, { to: email, template: 'notice', data: { message, subject } })
+    .catch((error) => console.error('Error queueing notification:', error));
+};
+
+// ============================================
+// PAYMENT HELPERS
+// ============================================
+
+// Settle the payment of an appointment that was just cancelled or expired:
+// an unpaid intent is cancelled, percent of a paid fee is refunded (all of
+// it unless a cancellation policy kept a fee). Returns the refund (with its
+// currency), if there was one.
+const settleCancelledPayment = async (db, appointment, { reason = null, percent = 100 } = {}) => {
+  const result = await db.query(
+    'SELECT * FROM payments WHERE appointment_id = $1 FOR UPDATE',
+    [appointment.id]
+  );
+  const payment = result.rows[0];
+  if (!payment) return null;
+
+  if (UNPAID_STATUSES.includes(payment.status)) {
+    await cancelPayment(db, paymentProvider, payment);
+    return null;
+  }
+
+  const amount = Math.round(Number(payment.amount) * percent) / 100;
+  const refund = await refundPayment(db, paymentProvider, payment, amount, reason);
+
+  if (!refund) return null;
+
+  await queueAppointmentEmail(db, appointment.id, 'payment_refunded', {
+    amount: refund.amount,
+    currency: payment.currency
+  });
+  return { ...refund, currency: payment.currency };
+};
+
+// Store and apply one event; returns false for an event already handled
+const processPaymentEvent = async (event) => {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const isNew = await recordPaymentEvent(client, paymentProvider, event);
+    const outcome = isNew ? await applyPaymentEvent(client, paymentProvider, event) : null;
+
+    if (outcome && outcome.confirmed) {
+      await queueAppointmentEmail(client, outcome.payment.appointment_id, 'appointment_confirmed');
+    }
+    if (outcome && outcome.refund) {
+      await queueAppointmentEmail(client, outcome.payment.appointment_id, 'payment_refunded', {
+        amount: outcome.refund.amount,
+        currency: outcome.payment.currency
+      });
+    }
+
+    await client.query('COMMIT');
+
+    if (outcome && outcome.confirmed) {
+      announceAppointments([outcome.payment.appointment_id]);
+    }
+    return isNew;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+// ============================================
+// WAITLIST HELPERS
+// ============================================
+
+// Give a freed slot to the longest-waiting patient for that doctor (and
+// date, if they asked for one) as a time-limited hold
+const offerSlotToWaitlist = async (slotId) => {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const slotResult = await client.query(
+      `SELECT s.*, to_char(s.slot_date, 'YYYY-MM-DD') AS slot_day
+       FROM slots s
+       WHERE s.id = $1
+       AND s.is_booked = FALSE
+       AND (s.hold_expires_at IS NULL OR s.hold_expires_at <= NOW())
+       AND s.starts_at > NOW()
+       AND NOT ${SLOT_BLOCKED_BY_TIME_OFF}
+       FOR UPDATE OF s`,
+      [slotId]
+    );
+
+    const slot = slotResult.rows[0];
+    if (!slot) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const entryResult = await client.query(
+      `SELECT * FROM waitlist_entries
+       WHERE doctor_id = $1 AND status = 'WAITING'
+       AND (preferred_date IS NULL OR preferred_date = $2)
+       ORDER BY created_at ASC
+       LIMIT 1
+       FOR UPDATE SKIP LOCKED`,
+      [slot.doctor_id, slot.slot_day]
+    );
+
+    const entry = entryResult.rows[0];
+    if (!entry) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const offered = await client.query(
+      `UPDATE waitlist_entries
+       SET status = 'OFFERED', offered_slot_id = $2,
+           offer_expires_at = NOW() + make_interval(mins => $3)
+       WHERE id = $1
+       RETURNING *`,
+      [entry.id, slot.id, WAITLIST_HOLD_MINUTES]
+    );
+
+    await client.query(
+      "UPDATE slots SET hold_user_id = $2, hold_expires_at = $3, hold_kind = 'waitlist' WHERE id = $1",
+      [slot.id, entry.user_id, offered.rows[0].offer_expires_at]
+    );
+
+    await client.query('COMMIT');
+
+    notifyPatient(
+      entry.patient_email,
+      `A slot opened up on ${slot.slot_day} at ${slot.start_time.slice(0, 5)}. ` +
+      `It is held for you for ${WAITLIST_HOLD_MINUTES} minutes, book it before it goes to the next patient.`,
+      'A slot opened up for you'
+    );
+
+    return offered.rows[0];
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error offering slot to waitlist:', error);
+    return null;
+  } finally {
+    client.release();
+  }
+};
+
+// ============================================
+// APPOINTMENT TYPE HELPERS
+// ============================================
+// An appointment type says how long a visit takes. A visit longer than its
+// start slot also takes the free slots right after it (see slots.js).
+
+// When a visit ends, in SQL (appointment alias "a", start slot "s"): after
+// its type's duration, or with the slot for bookings made without a type
+const VISIT_END_TIME = 'COALESCE(s.start_time + make_interval(mins => a.duration_minutes), s.end_time)';
+const VISIT_ENDS_AT = 'COALESCE(s.starts_at + make_interval(mins => a.duration_minutes), s.ends_at)';
+
+// The same for a new booking starting in slot
+const visitEndsAt = (slot, durationMinutes) => (durationMinutes
+  ? new Date(new Date(slot.starts_at).getTime() + durationMinutes * 60 * 1000)
+  : slot.ends_at);
+
+// A doctor's active appointment type, or undefined
+const findAppointmentType = async (db, doctorId, typeId) => {
+  const result = await db.query(
+    'SELECT * FROM appointment_types WHERE id = $1 AND doctor_id = $2 AND is_active = TRUE',
+    [typeId, doctorId]
+  );
+  return result.rows[0];
+};
+
+// ============================================
+// VIDEO VISIT HELPERS
+// ============================================
+// SQL for appointment lists that join the meeting as "m". The room is made
+// at booking, but its link is only handed out for confirmed visits from a
+// few minutes before the start until the visit ends.
+
+const MEETING_OPENS_AT = `s.starts_at - make_interval(mins => ${MEETING_OPENS_MINUTES_BEFORE})`;
+const MEETING_URL = `CASE WHEN a.status = 'CONFIRMED' AND m.closed_at IS NULL
+  AND NOW() >= ${MEETING_OPENS_AT} AND NOW() < ${VISIT_ENDS_AT} THEN m.url END`;
+const MEETING_FIELDS = `${MEETING_URL} as meeting_url,
+  CASE WHEN m.id IS NOT NULL AND m.closed_at IS NULL THEN ${MEETING_OPENS_AT} END as meeting_opens_at`;
+
+// ============================================
+// SLOT EVENT HELPERS
+// ============================================
+
+// Publish that slots were created, booked, held, released or updated. Call
+// it after the commit and don't wait for it; a failure only means browsers
+// miss a live update.
+const announceSlots = async (change, slotIds) => {
+  if (slotIds.length === 0) return;
+
+  try {
+    const result = await pool.query('SELECT id, doctor_id FROM slots WHERE id = ANY($1::int[])', [slotIds]);
+    slotEvents.publish(`slot.${change}`, { slots: result.rows });
+  } catch (error) {
+    console.error('Error announcing slot change:', error);
+  }
+};
+
+// Publish that appointments changed status without freeing their slots
+// (confirmed, completed, no-show), so the stats can follow
+const announceAppointments = async (appointmentIds) => {
+  try {
+    const result = await pool.query('SELECT slot_id FROM appointments WHERE id = ANY($1::int[])', [appointmentIds]);
+    await announceSlots('updated', result.rows.map((row) => row.slot_id));
+  } catch (error) {
+    console.error('Error announcing appointment change:', error);
+  }
+};
+
+// ============================================
+// API ENDPOINTS
+// ============================================
+
+// 🏥 HEALTH CHECK
+app.get('/health', (req, res) => {
+  res.json({
+    success: true,
+    message: 'Server is running!',
+    timestamp: new Date()
+  });
+});
+
+// ============================================
+// AUTH ENDPOINTS
+// ============================================
+
+// REGISTER (patients sign themselves up)
+app.post('/api/auth/register', async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { name, email, password } = req.body;
+
+    // Other JSON types would make the string calls below throw
+    if (typeof name !== 'string' || typeof email !== 'string' || typeof password !== 'string' ||
+        !name.trim() || !email.trim() || !password) {
+      return res.status(400).json({
+        success: false,
+        message: 'Name, email and password are required'
+      });
+    }
+
+    if (password.length < 8) {
+      return res.status(400).json({
+        success: false,
+        message: 'Password must be at least 8 characters'
+      });
+    }
+
+    const passwordHash = await bcrypt.hash(password, 10);
+
+    // The account and its patient link are created together
+    await client.query('BEGIN');
+
+    const result = await client.query(
+      `INSERT INTO users (name, email, password_hash, role)
+       VALUES ($1, $2, $3, 'patient')
+       RETURNING *`,
+      [name, email.toLowerCase(), passwordHash]
+    );
+
+    const user = result.rows[0];
+
+    // Picks up any appointments they booked under this email before
+    await upsertPatient(client, { email: user.email, name: user.name, userId: user.id });
+
+    await client.query('COMMIT');
+
+    res.status(201).json({
+      success: true,
+      message: 'Account created successfully',
+      data: { token: signToken(user), user: toPublicUser(user) }
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error.code === '23505') {
+      return res.status(409).json({
+        success: false,
+        message: 'An account with this email already exists'
+      });
+    }
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error creating account' });
+  } finally {
+    client.release();
+  }
+});
+
+// LOGIN
+app.post('/api/auth/login', async (req, res) => {
+  try {
+    const { email, password } = req.body;
+
+    if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
+      return res.status(400).json({
+        success: false,
+        message: 'Email and password are required'
+      });
+    }
+
+    const result = await pool.query(
+      'SELECT * FROM users WHERE email = $1',
+      [email.toLowerCase()]
+    );
+
+    const user = result.rows[0];
+    const passwordMatches = user && await bcrypt.compare(password, user.password_hash);
+
+    if (!passwordMatches) {
+      return res.status(401).json({
+        success: false,
+        message: 'Invalid email or password'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Logged in successfully',
+      data: { token: signToken(user), user: toPublicUser(user) }
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error logging in' });
+  }
+});
+
+// LOGOUT (tokens are stateless, the client discards its copy)
+app.post('/api/auth/logout', authenticate, (req, res) => {
+  res.json({
+    success: true,
+    message: 'Logged out successfully'
+  });
+});
+
+// CURRENT USER
+app.get('/api/auth/me', authenticate, async (req, res) => {
+  try {
+    const result = await pool.query(
+      'SELECT * FROM users WHERE id = $1',
+      [req.user.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(401).json({
+        success: false,
+        message: 'Account no longer exists'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: toPublicUser(result.rows[0])
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error fetching user' });
+  }
+});
+
+// CREATE USER (Admin) - e.g. more admins or extra patient accounts
+app.post('/api/users', authenticate, authorize('admin'), async (req, res) => {
+  try {
+    const { name, email, password, role = 'patient', doctor_id } = req.body;
+
+    if (!name || !email || !password) {
+      return res.status(400).json({
+        success: false,
+        message: 'Name, email and password are required'
+      });
+    }
+
+    if (!ROLES.includes(role)) {
+      return res.status(400).json({
+        success: false,
+        message: `Role must be one of: ${ROLES.join(', ')}`
+      });
+    }
+
+    if (role === 'doctor' && !doctor_id) {
+      return res.status(400).json({
+        success: false,
+        message: 'doctor_id is required for doctor accounts'
+      });
+    }
+
+    const passwordHash = await bcrypt.hash(password, 10);
+
+    const result = await pool.query(
+      `INSERT INTO users (name, email, password_hash, role, doctor_id)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [name, email.toLowerCase(), passwordHash, role, role === 'doctor' ? doctor_id : null]
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'User created successfully',
+      data: toPublicUser(result.rows[0])
+    });
+  } catch (error) {
+    if (error.code === '23505') {
+      return res.status(409).json({
+        success: false,
+        message: 'An account with this email already exists'
+      });
+    }
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error creating user' });
+  }
+});
+
+// ============================================
+// DOCTOR ENDPOINTS
+// ============================================
+
+const DOCTOR_REQUIRED_FIELDS = ['name', 'email', 'specialty', 'consultation_fee'];
+const DOCTOR_PROFILE_FIELDS = ['bio', 'qualifications', 'languages', 'years_of_experience', 'photo_url'];
+
+// Check the editable doctor fields present in body. With partial = false
+// the required fields must all be there. Returns { fields, errors } where
+// fields holds the cleaned values to save.
+const validateDoctorFields = (body, { partial = false } = {}) => {
+  const fields = {};
+  const errors = {};
+
+  for (const field of DOCTOR_REQUIRED_FIELDS) {
+    const value = body[field];
+    if (value === undefined && partial) continue;
+    if (value === undefined || value === null || String(value).trim() === '') {
+      errors[field] = `${field} is required`;
+    } else {
+      fields[field] = typeof value === 'string' ? value.trim() : value;
+    }
+  }
+
+  if (fields.consultation_fee !== undefined) {
+    const fee = Number(fields.consultation_fee);
+    if (!Number.isFinite(fee) || fee < 0) {
+      errors.consultation_fee = 'Consultation fee cannot be negative';
+    }
+  }
+
+  if (body.years_of_experience !== undefined && body.years_of_experience !== null && body.years_of_experience !== '') {
+    const years = Number(body.years_of_experience);
+    if (!Number.isInteger(years) || years < 0 || years > 80) {
+      errors.years_of_experience = 'Years of experience must be a whole number between 0 and 80';
+    }
+  }
+
+  if (body.photo_url && !/^https?:\/\/\S+$/.test(body.photo_url)) {
+    errors.photo_url = 'Photo URL must start with http:// or https://';
+  }
+
+  if (body.languages !== undefined &&
+      (!Array.isArray(body.languages) || body.languages.some((language) => typeof language !== 'string'))) {
+    errors.languages = 'Languages must be a list of names';
+  }
+
+  for (const field of DOCTOR_PROFILE_FIELDS) {
+    if (body[field] === undefined) continue;
+    if (field === 'languages') {
+      fields.languages = Array.isArray(body.languages)
+        ? body.languages.map((language) => String(language).trim()).filter(Boolean)
+        : [];
+    } else {
+      // Empty strings clear the field
+      fields[field] = body[field] === '' ? null : body[field];
+    }
+  }
+
+  return { fields, errors };
+};
+
+// CREATE DOCTOR (Admin)
+// An optional password also creates the doctor's login account, and
+// optional location_ids assign the doctor to those locations
+app.post('/api/doctors', authenticate, authorize('admin'), async (req, res) => {
+  const { fields, errors } = validateDoctorFields(req.body);
+  const locationIds = req.body.location_ids || [];
+
+  if (!Array.isArray(locationIds) || locationIds.some((id) => !Number.isInteger(Number(id)))) {
+    errors.location_ids = 'location_ids must be a list of location ids';
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: Object.values(errors)[0],
+      errors
+    });
+  }
+
+  const client = await pool.connect();
+
+  try {
+    const { name, email } = fields;
+    const { password } = req.body;
+    const columns = Object.keys(fields);
+
+    await client.query('BEGIN');
+
+    // Insert into database
+    const result = await client.query(
+      `INSERT INTO doctors (${columns.join(', ')})
+       VALUES (${columns.map((column, index) => `$${index + 1}`).join(', ')})
+       RETURNING *`,
+      columns.map((column) => fields[column])
+    );
+
+    const doctor = result.rows[0];
+
+    if (password) {
+      const passwordHash = await bcrypt.hash(password, 10);
+      await client.query(
+        `INSERT INTO users (name, email, password_hash, role, doctor_id)
+         VALUES ($1, $2, $3, 'doctor', $4)`,
+        [name, email.toLowerCase(), passwordHash, doctor.id]
+      );
+    }
+
+    await client.query(
+      `INSERT INTO doctor_locations (doctor_id, location_id)
+       SELECT $1, UNNEST($2::int[])
+       ON CONFLICT DO NOTHING`,
+      [doctor.id, locationIds.map(Number)]
+    );
+
+    await client.query('COMMIT');
+
+    res.status(201).json({
+      success: true,
+      message: 'Doctor created successfully',
+      data: doctor
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error.code === '23505') {
+      return res.status(409).json({
+        success: false,
+        message: 'A doctor or user with this email already exists'
+      });
+    }
+    if (error.code === '23503') {
+      return res.status(400).json({ success: false, message: 'Location not found' });
+    }
+    console.error(error);
+    res.status(500).json({
+      success: false,
+      message: 'Error creating doctor',
+      error: error.message
+    });
+  } finally {
+    client.release();
+  }
+});
+
+// UPDATE DOCTOR (Admin)
+// PUT replaces the whole profile, PATCH changes only the fields sent.
+// { is_active: false } retires the doctor: they disappear from the public
+// list, their free slots stop being bookable and their waitlist is closed,
+// but existing appointments and history are kept.
+const updateDoctor = ({ partial }) => async (req, res) => {
+  const { fields, errors } = validateDoctorFields(req.body, { partial });
+
+  if (req.body.is_active !== undefined && typeof req.body.is_active !== 'boolean') {
+    errors.is_active = 'is_active must be true or false';
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: Object.values(errors)[0],
+      errors
+    });
+  }
+
+  const client = await pool.connect();
+
+  try {
+    const { id } = req.params;
+    const assignments = Object.keys(fields).map((column, index) => `${column} = $${index + 2}`);
+    const params = [id, ...Object.values(fields)];
+
+    if (req.body.is_active !== undefined) {
+      params.push(req.body.is_active);
+      assignments.push(
+        `is_active = $${params.length}`,
+        `deactivated_at = CASE WHEN $${params.length} THEN NULL ELSE COALESCE(deactivated_at, NOW()) END`
+      );
+    }
+
+    if (assignments.length === 0) {
+      return res.status(400).json({ success: false, message: 'Nothing to update' });
+    }
+
+    await client.query('BEGIN');
+
+    const result = await client.query(
+      `UPDATE doctors SET ${assignments.join(', ')} WHERE id = $1 RETURNING *`,
+      params
+    );
+
+    if (result.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ success: false, message: 'Doctor not found' });
+    }
+
+    const doctor = result.rows[0];
+    let upcoming = 0;
+
+    if (!doctor.is_active) {
+      await client.query(
+        "UPDATE waitlist_entries SET status = 'CANCELLED' WHERE doctor_id = $1 AND status IN ('WAITING', 'OFFERED')",
+        [doctor.id]
+      );
+      await client.query(
+        `UPDATE slots SET hold_user_id = NULL, hold_expires_at = NULL, hold_kind = NULL
+         WHERE doctor_id = $1 AND hold_user_id IS NOT NULL`,
+        [doctor.id]
+      );
+
+      // Let the admin know what still needs rescheduling or cancelling
+      const upcomingResult = await client.query(
+        `SELECT COUNT(*)::int AS count
+         FROM appointments a JOIN slots s ON a.slot_id = s.id
+         WHERE s.doctor_id = $1 AND a.status = ANY($2) AND s.starts_at > NOW()`,
+        [doctor.id, ACTIVE_STATUSES]
+      );
+      upcoming = upcomingResult.rows[0].count;
+    }
+
+    // Keep the doctor's login in step with their profile
+    if (fields.name || fields.email) {
+      await client.query(
+        `UPDATE users SET name = COALESCE($2, name), email = COALESCE($3, email)
+         WHERE doctor_id = $1`,
+        [doctor.id, fields.name || null, fields.email ? fields.email.toLowerCase() : null]
+      );
+    }
+
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      message: doctor.is_active
+        ? 'Doctor updated successfully'
+        : `Doctor deactivated. ${upcoming} upcoming appointment(s) still need attention.`,
+      data: { ...doctor, upcoming_appointments: upcoming }
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error.code === '23505') {
+      return res.status(409).json({
+        success: false,
+        message: 'A doctor or user with this email already exists',
+        errors: { email: 'This email is already in use' }
+      });
+    }
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error updating doctor' });
+  } finally {
+    client.release();
+  }
+};
+
+app.put('/api/doctors/:id', authenticate, authorize('admin'), updateDoctor({ partial: false }));
+app.patch('/api/doctors/:id', authenticate, authorize('admin'), updateDoctor({ partial: true }));
+
+// Sort fields for GET /api/doctors
+const DOCTOR_SORTS = {
+  name: ['LOWER(name)'],
+  specialty: ['LOWER(specialty)', 'LOWER(name)'],
+  consultation_fee: ['consultation_fee']
+};
+
+// Whether a doctor (alias "doctors") has a free video slot coming up
+const HAS_VIDEO_SLOTS = `EXISTS (SELECT 1 FROM slots s
+  WHERE s.doctor_id = doctors.id AND s.visit_mode = 'video' AND NOT s.is_booked
+  AND s.starts_at > NOW() AND NOT ${SLOT_BLOCKED_BY_TIME_OFF})`;
+
+// GET ALL DOCTORS (public)
+// Filters: search (name or specialty), specialty (exact); sort: name,
+// specialty, consultation_fee; location_id (works there); video=true (has
+// free video slots); paging per the list contract. Deactivated doctors are
+// left out unless an admin asks for include_inactive=true.
+app.get('/api/doctors', optionalAuthenticate, async (req, res) => {
+  try {
+    const { search, specialty, location_id, video } = req.query;
+    const conditions = [];
+    const params = [];
+
+    if (!(req.user?.role === 'admin' && req.query.include_inactive === 'true')) {
+      conditions.push('is_active = TRUE');
+    }
+
+    if (search) {
+      params.push(`%${search}%`);
+      conditions.push(`(name ILIKE $${params.length} OR specialty ILIKE $${params.length})`);
+    }
+    if (specialty) {
+      params.push(specialty);
+      conditions.push(`specialty = $${params.length}`);
+    }
+    if (location_id) {
+      params.push(location_id);
+      conditions.push(`EXISTS (SELECT 1 FROM doctor_locations dl
+        WHERE dl.doctor_id = doctors.id AND dl.location_id = $${params.length})`);
+    }
+    if (video === 'true') {
+      conditions.push(HAS_VIDEO_SLOTS);
+    }
+
+    const sorting = buildOrderBy(req.query, DOCTOR_SORTS, { sort: 'name', tieBreaker: 'id' });
+    if (sorting.error) {
+      return res.status(400).json({ success: false, message: sorting.error });
+    }
+
+    const list = await fetchList(pool, {
+      select: `doctors.*, ${doctorLocationsJson('doctors.id')} AS locations,
+               ${HAS_VIDEO_SLOTS} AS has_video_slots`,
+      from: 'FROM doctors',
+      conditions,
+      params,
+      orderBy: sorting.orderBy
+    }, parsePagination(req.query));
+
+    res.json({
+      success: true,
+      message: 'Doctors retrieved successfully',
+      data: list.rows,
+      ...(list.pagination && { pagination: list.pagination })
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching doctors'
+    });
+  }
+});
+
+// LIST SPECIALTIES (public) - for the specialty filter
+app.get('/api/doctors/specialties', async (req, res) => {
+  try {
+    const result = await pool.query(
+      'SELECT DISTINCT specialty FROM doctors WHERE is_active = TRUE ORDER BY specialty ASC'
+    );
+
+    res.json({
+      success: true,
+      data: result.rows.map((row) => row.specialty)
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error fetching specialties' });
+  }
+});
+
+// GET SINGLE DOCTOR (public)
+app.get('/api/doctors/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const result = await pool.query(
+      `SELECT d.*, ${doctorLocationsJson('d.id')} AS locations FROM doctors d WHERE d.id = $1`,
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Doctor not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result.rows[0]
+    });
+  } catch (error) {
+    res.status(500).json({ success: false, message: 'Error fetching doctor' });
+  }
+});
+
+// DOCTOR SCHEDULE (the doctor themselves, Admin) - ?from=2025-01-13&to=2025-01-19
+// Every slot in the range with its current appointment, if any (and, on its
+// first slot, the video link once it opens)
+const MAX_SCHEDULE_DAYS = 31;
+
+app.get('/api/doctors/:id/schedule', authenticate, authorize('admin', 'doctor'), authorizeOwnDoctor, async (req, res) => {
+  try {
+    const from = req.query.from || wallClockIn(CLINIC_TIMEZONE).date;
+    const to = req.query.to || from;
+
+    if (!isDateString(from) || !isDateString(to)) {
+      return res.status(400).json({
+        success: false,
+        message: 'from and to must be dates in YYYY-MM-DD format'
+      });
+    }
+
+    const days = (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000);
+    if (days < 0 || days >= MAX_SCHEDULE_DAYS) {
+      return res.status(400).json({
+        success: false,
+        message: `to must be on or after from, and at most ${MAX_SCHEDULE_DAYS} days in total`
+      });
+    }
+
+    const result = await pool.query(
+      `SELECT s.id as slot_id, to_char(s.slot_date, 'YYYY-MM-DD') as slot_date,
+              s.start_time, s.end_time, s.starts_at, s.ends_at, ${SLOT_TIMEZONE} AS timezone,
+              s.is_booked, s.location_id, l.name as location_name, s.visit_mode,
+              ${SLOT_BLOCKED_BY_TIME_OFF} AS is_blocked,
+              a.id as appointment_id, a.status, a.patient_name, a.patient_email,
+              a.patient_phone, a.patient_age, a.reason_for_visit, a.booking_time,
+              apt.name as appointment_type_name,
+              CASE WHEN a.slot_id = s.id THEN ${MEETING_URL} END as meeting_url,
+              CASE WHEN a.slot_id = s.id AND m.id IS NOT NULL AND m.closed_at IS NULL THEN ${MEETING_OPENS_AT} END as meeting_opens_at
+       FROM slots s
+       LEFT JOIN locations l ON s.location_id = l.id
+       LEFT JOIN LATERAL (
+         SELECT appointments.* FROM appointment_slots aps
+         JOIN appointments ON aps.appointment_id = appointments.id
+         WHERE aps.slot_id = s.id AND appointments.status NOT IN ('CANCELLED', 'FAILED')
+         ORDER BY appointments.booking_time DESC
+         LIMIT 1
+       ) a ON TRUE
+       LEFT JOIN appointment_types apt ON a.appointment_type_id = apt.id
+       LEFT JOIN appointment_meetings m ON m.appointment_id = a.id
+       WHERE s.doctor_id = $1 AND s.slot_date BETWEEN $2 AND $3
+       ORDER BY s.slot_date ASC, s.start_time ASC`,
+      [req.params.id, from, to]
+    );
+
+    res.json({
+      success: true,
+      data: result.rows
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error fetching schedule' });
+  }
+});
+
+// ============================================
+// APPOINTMENT TYPES (per doctor)
+// ============================================
+// Types are never deleted, since appointments refer to them; set is_active
+// to false to stop offering one.
+
+const MAX_TYPE_DURATION_MINUTES = 8 * 60;
+
+// Returns { fields, errors } like the other validators
+const validateAppointmentType = (body) => {
+  const fields = {
+    name: String(body.name || '').trim(),
+    description: String(body.description || '').trim() || null,
+    duration_minutes: Number(body.duration_minutes),
+    fee: body.fee === null || body.fee === undefined || body.fee === '' ? null : Number(body.fee),
+    visit_mode: body.visit_mode || 'in_person',
+    is_active: body.is_active === undefined ? true : body.is_active
+  };
+  const errors = {};
+
+  if (!fields.name || fields.name.length > 100) {
+    errors.name = 'name is required (at most 100 characters)';
+  }
+  if (!Number.isInteger(fields.duration_minutes) || fields.duration_minutes < 5 ||
+      fields.duration_minutes > MAX_TYPE_DURATION_MINUTES) {
+    errors.duration_minutes = `duration_minutes must be a whole number between 5 and ${MAX_TYPE_DURATION_MINUTES}`;
+  }
+  if (fields.fee !== null && !(fields.fee > 0)) {
+    errors.fee = 'fee must be a positive amount (leave it empty to use the consultation fee)';
+  }
+  if (!VISIT_MODES.includes(fields.visit_mode)) {
+    errors.visit_mode = `visit_mode must be one of ${VISIT_MODES.join(', ')}`;
+  }
+  if (typeof fields.is_active !== 'boolean') {
+    errors.is_active = 'is_active must be true or false';
+  }
+
+  return { fields, errors };
+};
+
+// GET A DOCTOR'S APPOINTMENT TYPES (public) - active ones, shortest first.
+// The doctor themselves and admins also get the inactive ones.
+app.get('/api/doctors/:id/appointment-types', optionalAuthenticate, async (req, res) => {
+  try {
+    const canManage = Boolean(req.user) &&
+      (req.user.role === 'admin' || (req.user.role === 'doctor' && req.user.doctor_id === Number(req.params.id)));
+
+    const result = await pool.query(
+      `SELECT * FROM appointment_types
+       WHERE doctor_id = $1 ${canManage ? '' : 'AND is_active = TRUE'}
+       ORDER BY is_active DESC, duration_minutes ASC, LOWER(name) ASC`,
+      [req.params.id]
+    );
+
+    res.json({ success: true, data: result.rows });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error fetching appointment types' });
+  }
+});
+
+// Shared by POST and PUT /api/doctors/:id/appointment-types
+const saveAppointmentType = async (req, res) => {
+  const { fields, errors } = validateAppointmentType(req.body);
+
+  if (Object.keys(errors).length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: Object.values(errors)[0],
+      errors
+    });
+  }
+
+  try {
+    const params = [
+      req.params.id,
+      fields.name,
+      fields.description,
+      fields.duration_minutes,
+      fields.fee,
+      fields.visit_mode,
+      fields.is_active
+    ];
+    const result = req.params.typeId
+      ? await pool.query(
+        `UPDATE appointment_types
+         SET name = $2, description = $3, duration_minutes = $4, fee = $5, visit_mode = $6, is_active = $7
+         WHERE id = $8 AND doctor_id = $1 RETURNING *`,
+        [...params, req.params.typeId]
+      )
+      : await pool.query(
+        `INSERT INTO appointment_types (doctor_id, name, description, duration_minutes, fee, visit_mode, is_active)
+         VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
+        params
+      );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, message: 'Appointment type not found' });
+    }
+
+    res.status(req.params.typeId ? 200 : 201).json({
+      success: true,
+      message: req.params.typeId ? 'Appointment type updated' : 'Appointment type added',
+      data: result.rows[0]
+    });
+  } catch (error) {
+    if (error.code === '23505') {
+      return res.status(409).json({
+        success: false,
+        message: `This doctor already has an appointment type called "${fields.name}"`
+      });
+    }
+    if (error.code === '23503') {
+      return res.status(404).json({ success: false, message: 'Doctor not found' });
+    }
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error saving appointment type' });
+  }
+};
+
+// ADD AN APPOINTMENT TYPE (the doctor themselves, Admin)
+// { name, duration_minutes, fee (empty = consultation fee), description,
+//   visit_mode (in_person or video; booked into slots of the same mode) }
+app.post('/api/doctors/:id/appointment-types', authenticate, authorize('admin', 'doctor'), authorizeOwnDoctor, saveAppointmentType);
+
+// UPDATE / DEACTIVATE AN APPOINTMENT TYPE (the doctor themselves, Admin)
+// Bookings already made keep the duration and fee they were booked with
+app.put('/api/doctors/:id/appointment-types/:typeId', authenticate, authorize('admin', 'doctor'), authorizeOwnDoctor, saveAppointmentType);
+
+// ============================================
+// PATIENT ENDPOINTS
+// ============================================
+
+const PATIENT_FIELDS = [
+  'name', 'phone', 'date_of_birth', 'gender', 'address', 'preferred_contact', 'reminders_enabled',
+  'emergency_contact_name', 'emergency_contact_phone', 'emergency_contact_relationship'
+];
+const CONTACT_METHODS = ['email', 'phone', 'sms'];
+const PHONE_PATTERN = /^\+?[\d\s()-]{6,20}$/;
+
+// Check the patient fields present in body (all optional, name can't be
+// blanked). Returns { fields, errors } like validateDoctorFields.
+const validatePatientFields = (body) => {
+  const fields = {};
+  const errors = {};
+
+  for (const field of PATIENT_FIELDS) {
+    if (body[field] === undefined) continue;
+    // Empty strings clear the field
+    fields[field] = typeof body[field] === 'string'
+      ? (body[field].trim() === '' ? null : body[field].trim())
+      : body[field];
+  }
+
+  if (fields.name === null) {
+    errors.name = 'name is required';
+  }
+
+  for (const field of ['phone', 'emergency_contact_phone']) {
+    if (fields[field] && !PHONE_PATTERN.test(fields[field])) {
+      errors[field] = 'Phone numbers may only contain digits, spaces, +, - and brackets (6-20 characters)';
+    }
+  }
+
+  if (fields.date_of_birth && (!isDateString(fields.date_of_birth) || fields.date_of_birth > wallClockIn(CLINIC_TIMEZONE).date)) {
+    errors.date_of_birth = 'Date of birth must be a past date in YYYY-MM-DD format';
+  }
+
+  if (body.preferred_contact !== undefined && !CONTACT_METHODS.includes(fields.preferred_contact)) {
+    errors.preferred_contact = `preferred_contact must be one of ${CONTACT_METHODS.join(', ')}`;
+  }
+
+  if (body.reminders_enabled !== undefined && typeof body.reminders_enabled !== 'boolean') {
+    errors.reminders_enabled = 'reminders_enabled must be true or false';
+  }
+
+  return { fields, errors };
+};
+
+// Find the patient with this email, creating them from the booking or
+// account details the first time. Details already on file are kept; blank
+// ones are filled in. Pass the transaction client to do it inside one.
+const upsertPatient = async (db, { email, name, phone = null, userId = null }) => {
+  const result = await db.query(
+    `INSERT INTO patients (email, name, phone, user_id)
+     VALUES (LOWER($1), $2, $3, $4)
+     ON CONFLICT (email) DO UPDATE SET
+       phone = COALESCE(patients.phone, EXCLUDED.phone),
+       user_id = COALESCE(patients.user_id, EXCLUDED.user_id)
+     RETURNING *`,
+    [email, name, phone, userId]
+  );
+  return result.rows[0];
+};
+
+// The logged-in patient's record (created from their account on first use)
+const getOwnPatient = async (db, user) => {
+  const account = await db.query('SELECT name FROM users WHERE id = $1', [user.id]);
+  return upsertPatient(db, { email: user.email, name: account.rows[0].name, userId: user.id });
+};
+
+// Save validated fields on one patient, returns the updated row (or undefined)
+const savePatientFields = async (id, fields) => {
+  const assignments = Object.keys(fields).map((column, index) => `${column} = $${index + 2}`);
+  const result = await pool.query(
+    `UPDATE patients SET ${assignments.join(', ')}, updated_at = NOW() WHERE id = $1 RETURNING *`,
+    [id, ...Object.values(fields)]
+  );
+  return result.rows[0];
+};
+
+// Shared by PATCH /api/patients/me and PATCH /api/patients/:id
+const updatePatient = ({ own }) => async (req, res) => {
+  const { fields, errors } = validatePatientFields(req.body);
+
+  if (Object.keys(errors).length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: Object.values(errors)[0],
+      errors
+    });
+  }
+
+  if (Object.keys(fields).length === 0) {
+    return res.status(400).json({ success: false, message: 'Nothing to update' });
+  }
+
+  try {
+    const id = own ? (await getOwnPatient(pool, req.user)).id : req.params.id;
+    const patient = await savePatientFields(id, fields);
+
+    if (!patient) {
+      return res.status(404).json({ success: false, message: 'Patient not found' });
+    }
+
+    res.json({
+      success: true,
+      message: own ? 'Profile updated successfully' : 'Patient updated successfully',
+      data: patient
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error saving patient' });
+  }
+};
+
+// GET MY PROFILE (patient)
+app.get('/api/patients/me', authenticate, authorize('patient'), async (req, res) => {
+  try {
+    res.json({ success: true, data: await getOwnPatient(pool, req.user) });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error fetching profile' });
+  }
+});
+
+// UPDATE MY PROFILE (patient) - only the fields sent are changed
+app.patch('/api/patients/me', authenticate, authorize('patient'), updatePatient({ own: true }));
+
+// GET ALL PATIENTS (Admin)
+// ?search= matches name, email or phone; sort: name, created_at; paging per the list contract
+app.get('/api/patients', authenticate, authorize('admin'), async (req, res) => {
+  try {
+    const params = [];
+    const conditions = [];
+
+    if (req.query.search) {
+      params.push(`%${req.query.search}%`);
+      conditions.push(`(p.name ILIKE $1 OR p.email ILIKE $1 OR p.phone ILIKE $1)`);
+    }
+
+    const sorting = buildOrderBy(req.query, {
+      name: ['LOWER(p.name)'],
+      created_at: ['p.created_at']
+    }, { sort: 'name', tieBreaker: 'p.id' });
+    if (sorting.error) {
+      return res.status(400).json({ success: false, message: sorting.error });
+    }
+
+    const list = await fetchList(pool, {
+      select: `p.*, (SELECT COUNT(*)::int FROM appointments a WHERE a.patient_id = p.id) as appointment_count`,
+      from: 'FROM patients p',
+      conditions,
+      params,
+      orderBy: sorting.orderBy
+    }, parsePagination(req.query));
+
+    res.json({
+      success: true,
+      data: list.rows,
+      ...(list.pagination && { pagination: list.pagination })
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error fetching patients' });
+  }
+});
+
+// GET SINGLE PATIENT (Admin)
+app.get('/api/patients/:id', authenticate, authorize('admin'), async (req, res) => {
+  try {
+    const result = await pool.query(
+      `SELECT p.*, (SELECT COUNT(*)::int FROM appointments a WHERE a.patient_id = p.id) as appointment_count
+       FROM patients p WHERE p.id = $1`,
+      [req.params.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, message: 'Patient not found' });
+    }
+
+    res.json({ success: true, data: result.rows[0] });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error fetching patient' });
+  }
+});
+
+// UPDATE A PATIENT (Admin)
+app.patch('/api/patients/:id', authenticate, authorize('admin'), updatePatient({ own: false }));
+
+const DEPENDENT_RELATIONSHIPS = ['child', 'spouse', 'parent', 'sibling', 'other'];
+
+// Check a dependent's details (all required), returns { fields, errors }
+const validateDependent = (body) => {
+  const fields = {
+    name: String(body.name || '').trim(),
+    date_of_birth: body.date_of_birth,
+    relationship: body.relationship
+  };
+  const errors = {};
+
+  if (!fields.name) {
+    errors.name = 'name is required';
+  }
+  if (!isDateString(fields.date_of_birth) || fields.date_of_birth > wallClockIn(CLINIC_TIMEZONE).date) {
+    errors.date_of_birth = 'Date of birth must be a past date in YYYY-MM-DD format';
+  }
+  if (!DEPENDENT_RELATIONSHIPS.includes(fields.relationship)) {
+    errors.relationship = `relationship must be one of ${DEPENDENT_RELATIONSHIPS.join(', ')}`;
+  }
+
+  return { fields, errors };
+};
+
+// GET MY DEPENDENTS (patient)
+app.get('/api/patients/me/dependents', authenticate, authorize('patient'), async (req, res) => {
+  try {
+    const patient = await getOwnPatient(pool, req.user);
+    const result = await pool.query(
+      'SELECT * FROM dependents WHERE patient_id = $1 ORDER BY LOWER(name) ASC, id ASC',
+      [patient.id]
+    );
+
+    res.json({ success: true, data: result.rows });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error fetching dependents' });
+  }
+});
+
+// Shared by POST and PUT /api/patients/me/dependents
+const saveDependent = async (req, res) => {
+  const { fields, errors } = validateDependent(req.body);
+
+  if (Object.keys(errors).length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: Object.values(errors)[0],
+      errors
+    });
+  }
+
+  try {
+    const patient = await getOwnPatient(pool, req.user);
+    const params = [patient.id, fields.name, fields.date_of_birth, fields.relationship];
+    const result = req.params.id
+      ? await pool.query(
+        `UPDATE dependents SET name = $2, date_of_birth = $3, relationship = $4
+         WHERE id = $5 AND patient_id = $1 RETURNING *`,
+        [...params, req.params.id]
+      )
+      : await pool.query(
+        `INSERT INTO dependents (patient_id, name, date_of_birth, relationship)
+         VALUES ($1, $2, $3, $4) RETURNING *`,
+        params
+      );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, message: 'Dependent not found' });
+    }
+
+    res.status(req.params.id ? 200 : 201).json({
+      success: true,
+      message: req.params.id ? 'Dependent updated successfully' : 'Dependent added successfully',
+      data: result.rows[0]
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error saving dependent' });
+  }
+};
+
+// ADD A DEPENDENT (patient) - { name, date_of_birth, relationship }
+app.post('/api/patients/me/dependents', authenticate, authorize('patient'), saveDependent);
+
+// UPDATE A DEPENDENT (patient)
+app.put('/api/patients/me/dependents/:id', authenticate, authorize('patient'), saveDependent);
+
+// REMOVE A DEPENDENT (patient)
+// Not while they have upcoming appointments; past ones keep the name they were booked under
+app.delete('/api/patients/me/dependents/:id', authenticate, authorize('patient'), async (req, res) => {
+  try {
+    const patient = await getOwnPatient(pool, req.user);
+    const result = await pool.query(
+      `DELETE FROM dependents d
+       WHERE d.id = $1 AND d.patient_id = $2
+       AND NOT EXISTS (
+         SELECT 1 FROM appointments a JOIN slots s ON a.slot_id = s.id
+         WHERE a.dependent_id = d.id AND a.status = ANY($3) AND s.starts_at > NOW()
+       )
+       RETURNING id`,
+      [req.params.id, patient.id, ACTIVE_STATUSES]
+    );
+
+    if (result.rows.length === 0) {
+      const exists = await pool.query(
+        'SELECT 1 FROM dependents WHERE id = $1 AND patient_id = $2',
+        [req.params.id, patient.id]
+      );
+      return exists.rows.length === 0
+        ? res.status(404).json({ success: false, message: 'Dependent not found' })
+        : res.status(409).json({
+          success: false,
+          message: 'Cancel their upcoming appointments before removing this dependent'
+        });
+    }
+
+    res.json({ success: true, message: 'Dependent removed' });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error removing dependent' });
+  }
+});
+
+// ============================================
+// LOCATION ENDPOINTS (Clinics)
+// ============================================
+
+const isValidTimezone = (timezone) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// Check name, address, timezone and opening hours. Returns { fields, errors }
+// with the cleaned values to save.
+const validateLocation = (body) => {
+  const errors = {};
+  const name = String(body.name || '').trim();
+  const timezone = String(body.timezone || '').trim();
+  const openingHours = body.opening_hours === undefined ? [] : body.opening_hours;
+
+  if (!name) {
+    errors.name = 'Name is required';
+  }
+  if (!timezone || !isValidTimezone(timezone)) {
+    errors.timezone = 'Timezone must be an IANA name such as Asia/Kolkata';
+  }
+
+  if (!Array.isArray(openingHours)) {
+    errors.opening_hours = 'opening_hours must be a list';
+  } else {
+    for (const hours of openingHours) {
+      const day = Number(hours.day_of_week);
+      if (!Number.isInteger(day) || day < 0 || day > 6) {
+        errors.opening_hours = 'day_of_week must be between 0 (Sunday) and 6 (Saturday)';
+        break;
+      }
+      if (!hours.open_time || !hours.close_time || toMinutes(hours.close_time) <= toMinutes(hours.open_time)) {
+        errors.opening_hours = 'close_time must be after open_time';
+        break;
+      }
+    }
+  }
+
+  const fields = {
+    name,
+    address: String(body.address || '').trim(),
+    timezone,
+    opening_hours: Array.isArray(openingHours)
+      ? openingHours
+        .map((hours) => ({
+          day_of_week: Number(hours.day_of_week),
+          open_time: String(hours.open_time).slice(0, 5),
+          close_time: String(hours.close_time).slice(0, 5)
+        }))
+        .sort((a, b) => a.day_of_week - b.day_of_week || a.open_time.localeCompare(b.open_time))
+      : []
+  };
+
+  return { fields, errors };
+};
+
+// True when start-end falls inside the location's opening hours on that
+// weekday. Locations without opening hours are treated as always open.
+const fitsOpeningHours = (location, dayOfWeek, startTime, endTime) => {
+  if (!location || location.opening_hours.length === 0) return true;
+
+  return location.opening_hours.some((hours) =>
+    hours.day_of_week === dayOfWeek &&
+    toMinutes(hours.open_time) <= toMinutes(startTime) &&
+    toMinutes(endTime) <= toMinutes(hours.close_time)
+  );
+};
+
+const getDoctorLocations = async (db, doctorId) => {
+  const result = await db.query(
+    `SELECT l.* FROM locations l
+     JOIN doctor_locations dl ON dl.location_id = l.id
+     WHERE dl.doctor_id = $1
+     ORDER BY l.name ASC`,
+    [doctorId]
+  );
+  return result.rows;
+};
+
+// Pick where a doctor's slot takes place: the location asked for (which must
+// be one of theirs), or their only location. Returns { location } (null for
+// doctors not assigned to any location) or { error }.
+const pickSlotLocation = (locations, locationId) => {
+  if (locationId) {
+    const location = locations.find((item) => item.id === Number(locationId));
+    return location ? { location } : { error: 'The doctor does not work at this location' };
+  }
+  if (locations.length > 1) {
+    return { error: 'Choose a location, this doctor works at several' };
+  }
+  return { location: locations[0] || null };
+};
+
+// A doctor's locations as [{ id, name, address }], for doctor lists and profiles
+const doctorLocationsJson = (doctorRef) => `
+  (SELECT COALESCE(json_agg(json_build_object('id', l.id, 'name', l.name, 'address', l.address)
+                            ORDER BY l.name), '[]')
+   FROM doctor_locations dl JOIN locations l ON dl.location_id = l.id
+   WHERE dl.doctor_id = ${doctorRef})
+`;
+
+const LOCATION_SELECT = `l.*,
+  (SELECT COUNT(*)::int FROM doctor_locations dl JOIN doctors d ON dl.doctor_id = d.id
+   WHERE dl.location_id = l.id AND d.is_active) as doctor_count`;
+
+// GET ALL LOCATIONS (public) - sorted by name, paging per the list contract
+app.get('/api/locations', async (req, res) => {
+  try {
+    const sorting = buildOrderBy(req.query, { name: ['LOWER(l.name)'] }, { sort: 'name', tieBreaker: 'l.id' });
+    if (sorting.error) {
+      return res.status(400).json({ success: false, message: sorting.error });
+    }
+
+    const list = await fetchList(pool, {
+      select: LOCATION_SELECT,
+      from: 'FROM locations l',
+      conditions: [],
+      params: [],
+      orderBy: sorting.orderBy
+    }, parsePagination(req.query));
+
+    res.json({
+      success: true,
+      data: list.rows,
+      ...(list.pagination && { pagination: list.pagination })
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error fetching locations' });
+  }
+});
+
+// GET SINGLE LOCATION (public)
+app.get('/api/locations/:id', async (req, res) => {
+  try {
+    const result = await pool.query(`SELECT ${LOCATION_SELECT} FROM locations l WHERE l.id = $1`, [req.params.id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, message: 'Location not found' });
+    }
+
+    res.json({ success: true, data: result.rows[0] });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error fetching location' });
+  }
+});
+
+// CREATE / UPDATE LOCATION (Admin)
+const saveLocation = async (req, res) => {
+  const { fields, errors } = validateLocation(req.body);
+
+  if (Object.keys(errors).length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: Object.values(errors)[0],
+      errors
+    });
+  }
+
+  try {
+    const params = [fields.name, fields.address, fields.timezone, JSON.stringify(fields.opening_hours)];
+    const result = req.params.id
+      ? await pool.query(
+        // Slot wall clock times stay put; their moments follow the new timezone
+        `WITH updated AS (
+           UPDATE locations SET name = $1, address = $2, timezone = $3, opening_hours = $4
+           WHERE id = $5 RETURNING *
+         ),
+         moved AS (
+           UPDATE slots s
+           SET starts_at = (s.slot_date + s.start_time) AT TIME ZONE updated.timezone,
+               ends_at = (s.slot_date + s.end_time) AT TIME ZONE updated.timezone
+           FROM updated
+           WHERE s.location_id = updated.id
+         )
+         SELECT * FROM updated`,
+        [...params, req.params.id]
+      )
+      : await pool.query(
+        `INSERT INTO locations (name, address, timezone, opening_hours)
+         VALUES ($1, $2, $3, $4) RETURNING *`,
+        params
+      );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, message: 'Location not found' });
+    }
+
+    res.status(req.params.id ? 200 : 201).json({
+      success: true,
+      message: req.params.id ? 'Location updated successfully' : 'Location created successfully',
+      data: result.rows[0]
+    });
+  } catch (error) {
+    if (error.code === '23505') {
+      return res.status(409).json({
+        success: false,
+        message: 'A location with this name already exists',
+        errors: { name: 'This name is already in use' }
+      });
+    }
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error saving location' });
+  }
+};
+
+app.post('/api/locations', authenticate, authorize('admin'), saveLocation);
+app.put('/api/locations/:id', authenticate, authorize('admin'), saveLocation);
+
+// DELETE LOCATION (Admin) - only while no slot has ever been held there
+app.delete('/api/locations/:id', authenticate, authorize('admin'), async (req, res) => {
+  try {
+    const result = await pool.query('DELETE FROM locations WHERE id = $1 RETURNING id', [req.params.id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, message: 'Location not found' });
+    }
+
+    res.json({ success: true, message: 'Location deleted' });
+  } catch (error) {
+    if (error.code === '23503') {
+      return res.status(409).json({
+        success: false,
+        message: 'This location has slots and can no longer be deleted'
+      });
+    }
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error deleting location' });
+  }
+});
+
+// SET A DOCTOR'S LOCATIONS (Admin) - { location_ids: [1, 2] }
+app.put('/api/doctors/:id/locations', authenticate, authorize('admin'), async (req, res) => {
+  const { location_ids: locationIds } = req.body;
+
+  if (!Array.isArray(locationIds) || locationIds.some((id) => !Number.isInteger(Number(id)))) {
+    return res.status(400).json({
+      success: false,
+      message: 'location_ids must be a list of location ids'
+    });
+  }
+
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const doctor = await client.query('SELECT id FROM doctors WHERE id = $1 FOR UPDATE', [req.params.id]);
+    if (doctor.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ success: false, message: 'Doctor not found' });
+    }
+
+    await client.query('DELETE FROM doctor_locations WHERE doctor_id = $1', [req.params.id]);
+    await client.query(
+      `INSERT INTO doctor_locations (doctor_id, location_id)
+       SELECT $1, UNNEST($2::int[])
+       ON CONFLICT DO NOTHING`,
+      [req.params.id, locationIds.map(Number)]
+    );
+
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      message: 'Doctor locations saved',
+      data: await getDoctorLocations(pool, req.params.id)
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error.code === '23503') {
+      return res.status(400).json({ success: false, message: 'Location not found' });
+    }
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error saving doctor locations' });
+  } finally {
+    client.release();
+  }
+});
+
+// ============================================
+// SLOT ENDPOINTS
+// ============================================
+
+// CREATE SLOTS (Admin, or a doctor for themselves)
+// location_id may be left out for doctors who work at a single location;
+// visit_mode is in_person (default) or video
+app.post('/api/slots', authenticate, authorize('admin', 'doctor'), async (req, res) => {
+  try {
+    const { slot_date, start_time, end_time, location_id, visit_mode = 'in_person' } = req.body;
+    const doctor_id = req.user.role === 'doctor' ? req.user.doctor_id : req.body.doctor_id;
+
+    if (!doctor_id || !slot_date || !start_time || !end_time) {
+      return res.status(400).json({
+        success: false,
+        message: 'All fields are required'
+      });
+    }
+
+    if (!VISIT_MODES.includes(visit_mode)) {
+      const message = `visit_mode must be one of ${VISIT_MODES.join(', ')}`;
+      return res.status(400).json({ success: false, message, errors: { visit_mode: message } });
+    }
+
+    if (await isInactiveDoctor(pool, doctor_id)) {
+      return res.status(409).json({ success: false, message: INACTIVE_DOCTOR_MESSAGE });
+    }
+
+    const { location, error: locationError } = pickSlotLocation(
+      await getDoctorLocations(pool, doctor_id),
+      location_id
+    );
+    if (locationError) {
+      return res.status(400).json({
+        success: false,
+        message: locationError,
+        errors: { location_id: locationError }
+      });
+    }
+
+    const timezone = location ? location.timezone : CLINIC_TIMEZONE;
+    const errors = validateSlotTimes({ slot_date, start_time, end_time }, timezone);
+    if (Object.keys(errors).length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(errors)[0],
+        errors
+      });
+    }
+
+    if (!fitsOpeningHours(location, weekdayOf(slot_date), start_time, end_time)) {
+      const message = `Outside ${location.name}'s opening hours`;
+      return res.status(400).json({ success: false, message, errors: { start_time: message } });
+    }
+
+    // Look for an overlapping slot first so the error can say which one
+    const overlap = await pool.query(
+      `SELECT * FROM slots
+       WHERE doctor_id = $1 AND slot_date = $2
+       AND start_time < $4 AND end_time > $3
+       LIMIT 1`,
+      [doctor_id, slot_date, start_time, end_time]
+    );
+
+    if (overlap.rows.length > 0) {
+      const conflict = overlap.rows[0];
+      return res.status(409).json({
+        success: false,
+        message: `Overlaps an existing slot (${conflict.start_time.slice(0, 5)} - ${conflict.end_time.slice(0, 5)})`,
+        conflict
+      });
+    }
+
+    const result = await pool.query(
+      `INSERT INTO slots (doctor_id, slot_date, start_time, end_time, location_id, visit_mode, starts_at, ends_at)
+       VALUES ($1, $2, $3, $4, $5, $7,
+               ($2::date + $3::time) AT TIME ZONE $6,
+               ($2::date + $4::time) AT TIME ZONE $6)
+       RETURNING *, $6::text AS timezone`,
+      [doctor_id, slot_date, start_time, end_time, location ? location.id : null, timezone, visit_mode]
+    );
+
+    announceSlots('created', [result.rows[0].id]);
+
+    res.status(201).json({
+      success: true,
+      message: 'Slot created successfully',
+      data: result.rows[0]
+    });
+  } catch (error) {
+    // Another request created an overlapping slot at the same moment
+    if (error.code === '23P01' || error.code === '23505') {
+      return res.status(409).json({
+        success: false,
+        message: 'This slot overlaps another slot for the same doctor'
+      });
+    }
+    if (error.code === '23503') {
+      return res.status(400).json({
+        success: false,
+        message: 'Doctor not found',
+        errors: { doctor_id: 'Doctor not found' }
+      });
+    }
+    console.error(error);
+    res.status(500).json({
+      success: false,
+      message: 'Error creating slot',
+      error: error.message
+    });
+  }
+});
+
+// DELETE SLOT (Admin, or the slot's doctor)
+// Only free slots that were never booked can go; anything else is part of
+// an appointment's history
+app.delete('/api/slots/:id', authenticate, authorize('admin', 'doctor'), async (req, res) => {
+  try {
+    const slotResult = await pool.query(
+      `SELECT s.*, EXISTS (SELECT 1 FROM appointment_slots aps WHERE aps.slot_id = s.id) AS has_appointments,
+              s.hold_expires_at > NOW() AS is_held
+       FROM slots s WHERE s.id = $1`,
+      [req.params.id]
+    );
+    const slot = slotResult.rows[0];
+
+    if (!slot || (req.user.role === 'doctor' && slot.doctor_id !== req.user.doctor_id)) {
+      return res.status(404).json({ success: false, message: 'Slot not found' });
+    }
+
+    if (slot.is_booked || slot.has_appointments) {
+      return res.status(409).json({
+        success: false,
+        message: 'Only slots that were never booked can be deleted'
+      });
+    }
+
+    // Someone is filling in the booking form or was offered it from the
+    // waitlist; deleting it would break their booking
+    if (slot.is_held) {
+      return res.status(409).json({
+        success: false,
+        message: 'This slot is held for a patient right now. Please try again once the hold ends.'
+      });
+    }
+
+    const result = await pool.query(
+      `DELETE FROM slots s
+       WHERE s.id = $1 AND s.is_booked = FALSE
+       AND (s.hold_expires_at IS NULL OR s.hold_expires_at <= NOW())
+       AND NOT EXISTS (SELECT 1 FROM appointment_slots aps WHERE aps.slot_id = s.id)
+       RETURNING id`,
+      [slot.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'The slot was booked or held in the meantime'
+      });
+    }
+
+    res.json({ success: true, message: 'Slot deleted' });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error deleting slot' });
+  }
+});
+
+// HOLD A SLOT WHILE BOOKING (Patient, Admin)
+// { appointment_type_id } also holds the slots a longer visit needs. Replaces
+// the user's previous hold; POST /api/appointments takes over the hold.
+app.post('/api/slots/:id/hold', authenticate, authorize('patient', 'admin'), async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { appointment_type_id } = req.body;
+
+    await client.query('BEGIN');
+
+    const slotCheck = await client.query(
+      `SELECT s.*, ${SLOT_BLOCKED_BY_TIME_OFF} AS is_blocked,
+              ${slotHeldForOthers('$2')} AS is_held,
+              s.starts_at <= NOW() AS has_started,
+              NOT d.is_active AS doctor_inactive
+       FROM slots s JOIN doctors d ON s.doctor_id = d.id
+       WHERE s.id = $1 FOR UPDATE OF s`,
+      [req.params.id, req.user.id]
+    );
+
+    const slot = slotCheck.rows[0];
+    if (!slot) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ success: false, message: 'Slot not found' });
+    }
+
+    if (slot.is_booked || slot.is_blocked || slot.is_held || slot.has_started || slot.doctor_inactive) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({
+        success: false,
+        message: 'This slot is no longer available. Please select another slot.'
+      });
+    }
+
+    let slots = [slot];
+    if (appointment_type_id) {
+      const appointmentType = await findAppointmentType(client, slot.doctor_id, appointment_type_id);
+      if (!appointmentType) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({
+          success: false,
+          message: 'This doctor does not offer that appointment type'
+        });
+      }
+
+      slots = await lockSlotRun(client, slot, appointmentType.duration_minutes, req.user.id);
+      if (!slots) {
+        await client.query('ROLLBACK');
+        return res.status(409).json({
+          success: false,
+          message: `A ${appointmentType.name} takes ${appointmentType.duration_minutes} minutes and the time after this slot is not free. Please select another slot.`
+        });
+      }
+    }
+
+    const slotIds = slots.map((heldSlot) => heldSlot.id);
+    const releasedSlotIds = await releaseBookingHolds(client, req.user.id, slotIds);
+    const holdExpiresAt = await holdSlots(client, slotIds, req.user.id);
+
+    await client.query('COMMIT');
+
+    announceSlots('held', slotIds);
+    announceSlots('released', releasedSlotIds);
+
+    res.json({
+      success: true,
+      message: 'Slot held',
+      data: { slot_ids: slotIds, hold_expires_at: holdExpiresAt }
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error holding slot' });
+  } finally {
+    client.release();
+  }
+});
+
+// RELEASE A BOOKING HOLD (Patient, Admin) - "Change Slot" in the booking form
+// Ends the user's hold on this slot and the rest of its visit
+app.delete('/api/slots/:id/hold', authenticate, authorize('patient', 'admin'), async (req, res) => {
+  try {
+    const held = await pool.query(
+      "SELECT 1 FROM slots WHERE id = $1 AND hold_user_id = $2 AND hold_kind = 'booking'",
+      [req.params.id, req.user.id]
+    );
+    if (held.rows.length === 0) {
+      return res.status(404).json({ success: false, message: 'You are not holding this slot' });
+    }
+
+    const releasedSlotIds = await releaseBookingHolds(pool, req.user.id);
+    announceSlots('released', releasedSlotIds);
+
+    res.json({ success: true, message: 'Hold released', data: { slot_ids: releasedSlotIds } });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error releasing hold' });
+  }
+});
+
+// SLOT EVENTS STREAM (public)
+// Server-Sent Events: "slot.created", "slot.booked", "slot.held",
+// "slot.released" and "slot.updated", each with { slots: [{ id, doctor_id }] }.
+// Reload the slot list after reconnecting, events sent while disconnected
+// are not replayed.
+app.get('/api/slots/events', slotEvents.subscribe);
+
+// GET AVAILABLE SLOTS (public)
+// Held slots (waitlist offers, booking forms) are only shown to their holder.
+// Filters: doctor_id, location_id, from, to (slot dates), visit_mode,
+// appointment_type_id (only slots of its visit mode with enough free time
+// after them for its duration); sorted by date and time (?order=desc for
+// latest first); paging per the list contract
+app.get('/api/slots/available', optionalAuthenticate, async (req, res) => {
+  try {
+    const { doctor_id, location_id, visit_mode, appointment_type_id } = req.query;
+    const params = [req.user ? req.user.id : null];
+    const conditions = [
+      'd.is_active = TRUE',
+      's.is_booked = FALSE',
+      's.starts_at > NOW()',
+      `NOT ${SLOT_BLOCKED_BY_TIME_OFF}`,
+      `NOT ${slotHeldForOthers('$1')}`
+    ];
+
+    if (doctor_id) {
+      params.push(doctor_id);
+      conditions.push(`s.doctor_id = $${params.length}`);
+    }
+    if (location_id) {
+      params.push(location_id);
+      conditions.push(`s.location_id = $${params.length}`);
+    }
+    if (visit_mode) {
+      if (!VISIT_MODES.includes(visit_mode)) {
+        return res.status(400).json({
+          success: false,
+          message: `visit_mode must be one of ${VISIT_MODES.join(', ')}`
+        });
+      }
+      params.push(visit_mode);
+      conditions.push(`s.visit_mode = $${params.length}`);
+    }
+    if (appointment_type_id) {
+      const typeResult = await pool.query('SELECT * FROM appointment_types WHERE id = $1', [appointment_type_id]);
+      const appointmentType = typeResult.rows[0];
+      if (!appointmentType) {
+        return res.status(404).json({ success: false, message: 'Appointment type not found' });
+      }
+      params.push(appointmentType.doctor_id);
+      conditions.push(`s.doctor_id = $${params.length}`);
+      params.push(appointmentType.visit_mode);
+      conditions.push(`s.visit_mode = $${params.length}`);
+      params.push(appointmentType.duration_minutes);
+      conditions.push(slotRunCovers(`$${params.length}`, '$1'));
+    }
+
+    for (const [key, operator] of [['from', '>='], ['to', '<=']]) {
+      if (!req.query[key]) continue;
+      if (!isDateString(req.query[key])) {
+        return res.status(400).json({
+          success: false,
+          message: `${key} must be a date in YYYY-MM-DD format`
+        });
+      }
+      params.push(req.query[key]);
+      conditions.push(`s.slot_date ${operator} $${params.length}`);
+    }
+
+    const sorting = buildOrderBy(req.query, { slot_date: ['s.slot_date', 's.start_time'] }, {
+      sort: 'slot_date',
+      tieBreaker: 's.id'
+    });
+    if (sorting.error) {
+      return res.status(400).json({ success: false, message: sorting.error });
+    }
+
+    const list = await fetchList(pool, {
+      select: `s.*, d.name as doctor_name, d.specialty, d.consultation_fee,
+               l.name as location_name, l.address as location_address, ${SLOT_TIMEZONE} as timezone,
+               COALESCE(s.hold_expires_at > NOW() AND s.hold_kind = 'waitlist', FALSE) as is_held_for_me`,
+      from: `FROM slots s JOIN doctors d ON s.doctor_id = d.id
+             LEFT JOIN locations l ON s.location_id = l.id`,
+      conditions,
+      params,
+      orderBy: sorting.orderBy
+    }, parsePagination(req.query));
+
+    res.json({
+      success: true,
+      message: 'Available slots retrieved',
+      data: list.rows,
+      ...(list.pagination && { pagination: list.pagination })
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching slots'
+    });
+  }
+});
+
+// ============================================
+// AVAILABILITY TEMPLATES (Weekly schedules)
+// ============================================
+
+const MAX_GENERATION_WEEKS = 12;
+
+// Check one weekly rule, returns an error message or null
+const validateTemplate = (rule) => {
+  const day = Number(rule.day_of_week);
+  const slotMinutes = Number(rule.slot_minutes);
+  const bufferMinutes = Number(rule.buffer_minutes || 0);
+
+  if (!Number.isInteger(day) || day < 0 || day > 6) {
+    return 'day_of_week must be between 0 (Sunday) and 6 (Saturday)';
+  }
+  if (!rule.start_time || !rule.end_time || toMinutes(rule.end_time) <= toMinutes(rule.start_time)) {
+    return 'end_time must be after start_time';
+  }
+  if (!Number.isInteger(slotMinutes) || slotMinutes <= 0) {
+    return 'slot_minutes must be a positive whole number';
+  }
+  if (!Number.isInteger(bufferMinutes) || bufferMinutes < 0) {
+    return 'buffer_minutes cannot be negative';
+  }
+  if (toMinutes(rule.start_time) + slotMinutes > toMinutes(rule.end_time)) {
+    return 'slot_minutes is longer than the time window';
+  }
+  if (rule.visit_mode !== undefined && !VISIT_MODES.includes(rule.visit_mode)) {
+    return `visit_mode must be one of ${VISIT_MODES.join(', ')}`;
+  }
+  return null;
+};
+
+// Check a whole weekly schedule: every rule, and no two windows on the same
+// weekday overlapping (they would generate overlapping slots). Returns an
+// error message or null.
+const validateTemplates = (templates) => {
+  for (const template of templates) {
+    const validationError = validateTemplate(template);
+    if (validationError) return validationError;
+  }
+
+  for (let i = 0; i < templates.length; i++) {
+    for (let j = i + 1; j < templates.length; j++) {
+      const [a, b] = [templates[i], templates[j]];
+      if (Number(a.day_of_week) === Number(b.day_of_week) &&
+          toMinutes(a.start_time) < toMinutes(b.end_time) &&
+          toMinutes(a.end_time) > toMinutes(b.start_time)) {
+        return `${a.start_time}-${a.end_time} overlaps ${b.start_time}-${b.end_time} on the same day`;
+      }
+    }
+  }
+  return null;
+};
+
+// Parse the "weeks" ahead parameter, falling back to the configured default
+const parseWeeks = (value) => {
+  const weeks = parseInt(value, 10) || SLOT_GENERATION_WEEKS;
+  return Math.min(Math.max(weeks, 1), MAX_GENERATION_WEEKS);
+};
+
+// Expand weekly templates into concrete slots for the next `weeks` weeks,
+// starting today on the wall clock of each template's timezone (slots that
+// already started today are skipped)
+const buildSlotsFromTemplates = (templates, weeks, now = new Date()) => {
+  const slots = [];
+
+  templates.forEach((template) => {
+    const timezone = template.timezone || CLINIC_TIMEZONE;
+    const today = wallClockIn(timezone, now);
+    const slotMinutes = Number(template.slot_minutes);
+    const step = slotMinutes + Number(template.buffer_minutes || 0);
+    const windowEnd = toMinutes(template.end_time);
+
+    for (let offset = 0; offset < weeks * 7; offset++) {
+      const day = addDays(today.date, offset);
+      if (weekdayOf(day) !== Number(template.day_of_week)) continue;
+
+      for (let start = toMinutes(template.start_time); start + slotMinutes <= windowEnd; start += step) {
+        if (offset === 0 && start <= today.minutes) continue;
+
+        slots.push({
+          doctor_id: template.doctor_id,
+          location_id: template.effective_location_id || template.location_id || null,
+          visit_mode: template.visit_mode || 'in_person',
+          timezone,
+          slot_date: day,
+          start_time: fromMinutes(start),
+          end_time: fromMinutes(start + slotMinutes)
+        });
+      }
+    }
+  });
+
+  return slots.sort((a, b) =>
+    a.slot_date.localeCompare(b.slot_date) || a.start_time.localeCompare(b.start_time)
+  );
+};
+
+// Insert generated slots in one statement; slots that clash with existing
+// ones (same start or overlapping time) are skipped by the constraints.
+// Returns the ids of the slots created.
+const insertGeneratedSlots = async (db, slots) => {
+  if (slots.length === 0) return [];
+
+  const result = await db.query(
+    `INSERT INTO slots (doctor_id, slot_date, start_time, end_time, location_id, visit_mode, starts_at, ends_at)
+     SELECT doctor_id, slot_date, start_time, end_time, location_id, visit_mode,
+            (slot_date + start_time) AT TIME ZONE timezone,
+            (slot_date + end_time) AT TIME ZONE timezone
+     FROM UNNEST($1::int[], $2::date[], $3::time[], $4::time[], $5::int[], $6::text[], $7::text[])
+       AS g(doctor_id, slot_date, start_time, end_time, location_id, timezone, visit_mode)
+     ON CONFLICT DO NOTHING
+     RETURNING id`,
+    [
+      slots.map((slot) => slot.doctor_id),
+      slots.map((slot) => slot.slot_date),
+      slots.map((slot) => slot.start_time),
+      slots.map((slot) => slot.end_time),
+      slots.map((slot) => slot.location_id),
+      slots.map((slot) => slot.timezone),
+      slots.map((slot) => slot.visit_mode)
+    ]
+  );
+
+  return result.rows.map((row) => row.id);
+};
+
+// Where a template's slots go: its own location, or else the doctor's only one
+const TEMPLATE_LOCATION = `
+  COALESCE(t.location_id, (
+    SELECT MIN(dl.location_id) FROM doctor_locations dl
+    WHERE dl.doctor_id = t.doctor_id
+    HAVING COUNT(*) = 1
+  ))
+`;
+
+// ...and the timezone its slot times are in
+const TEMPLATE_TIMEZONE = `
+  COALESCE((SELECT tl.timezone FROM locations tl WHERE tl.id = ${TEMPLATE_LOCATION}), '${CLINIC_TIMEZONE}')
+`;
+
+const getDoctorTemplates = async (db, doctorId) => {
+  const result = await db.query(
+    `SELECT t.*, ${TEMPLATE_LOCATION} AS effective_location_id, ${TEMPLATE_TIMEZONE} AS timezone
+     FROM availability_templates t
+     WHERE t.doctor_id = $1
+     ORDER BY t.day_of_week ASC, t.start_time ASC`,
+    [doctorId]
+  );
+  return result.rows;
+};
+
+// GET A DOCTOR'S WEEKLY SCHEDULE (Admin)
+app.get('/api/doctors/:id/availability', authenticate, authorize('admin', 'doctor'), authorizeOwnDoctor, async (req, res) => {
+  try {
+    const templates = await getDoctorTemplates(pool, req.params.id);
+
+    res.json({
+      success: true,
+      data: templates
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error fetching availability' });
+  }
+});
+
+// REPLACE A DOCTOR'S WEEKLY SCHEDULE (Admin)
+app.put('/api/doctors/:id/availability', authenticate, authorize('admin', 'doctor'), authorizeOwnDoctor, async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { id } = req.params;
+    const { templates } = req.body;
+
+    if (!Array.isArray(templates)) {
+      return res.status(400).json({
+        success: false,
+        message: 'templates must be an array'
+      });
+    }
+
+    const validationError = validateTemplates(templates);
+    if (validationError) {
+      return res.status(400).json({ success: false, message: validationError });
+    }
+
+    await client.query('BEGIN');
+
+    const doctor = await client.query('SELECT id FROM doctors WHERE id = $1', [id]);
+    if (doctor.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ success: false, message: 'Doctor not found' });
+    }
+
+    // Every rule needs a location the doctor works at, open for the whole window
+    const locations = await getDoctorLocations(client, id);
+    for (const template of templates) {
+      const { location, error: locationError } = pickSlotLocation(locations, template.location_id);
+      const message = locationError || (
+        !fitsOpeningHours(location, Number(template.day_of_week), template.start_time, template.end_time) &&
+        `${template.start_time}-${template.end_time} is outside ${location.name}'s opening hours`
+      );
+      if (message) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ success: false, message });
+      }
+    }
+
+    await client.query('DELETE FROM availability_templates WHERE doctor_id = $1', [id]);
+
+    for (const template of templates) {
+      await client.query(
+        `INSERT INTO availability_templates
+         (doctor_id, day_of_week, start_time, end_time, slot_minutes, buffer_minutes, location_id, visit_mode)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          id,
+          template.day_of_week,
+          template.start_time,
+          template.end_time,
+          template.slot_minutes,
+          template.buffer_minutes || 0,
+          template.location_id || null,
+          template.visit_mode || 'in_person'
+        ]
+      );
+    }
+
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      message: 'Availability saved successfully',
+      data: await getDoctorTemplates(pool, id)
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error saving availability' });
+  } finally {
+    client.release();
+  }
+});
+
+// PREVIEW GENERATED SLOTS (Admin)
+// Uses the saved schedule, or unsaved "templates" from the request body
+app.post('/api/doctors/:id/availability/preview', authenticate, authorize('admin', 'doctor'), authorizeOwnDoctor, requireActiveDoctor, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const weeks = parseWeeks(req.body.weeks);
+    const templates = Array.isArray(req.body.templates)
+      ? req.body.templates
+      : await getDoctorTemplates(pool, id);
+
+    const validationError = validateTemplates(templates);
+    if (validationError) {
+      return res.status(400).json({ success: false, message: validationError });
+    }
+
+    // Work out unsaved rules' timezone the way saving them would
+    const locations = await getDoctorLocations(pool, id);
+    const timezoneOf = (template) => {
+      if (!Array.isArray(req.body.templates)) return template.timezone;
+      const { location } = pickSlotLocation(locations, template.location_id);
+      return location ? location.timezone : CLINIC_TIMEZONE;
+    };
+
+    const slots = buildSlotsFromTemplates(
+      templates.map((template) => ({ ...template, doctor_id: Number(id), timezone: timezoneOf(template) })),
+      weeks
+    );
+
+    // Flag slots that clash with existing ones so the admin sees what is actually new
+    const existing = await pool.query(
+      `SELECT slot_date, start_time, end_time
+       FROM slots
+       WHERE doctor_id = $1 AND ends_at > NOW()`,
+      [id]
+    );
+
+    const overlapsExisting = (slot) => existing.rows.some((row) =>
+      row.slot_date === slot.slot_date &&
+      toMinutes(row.start_time) < toMinutes(slot.end_time) &&
+      toMinutes(row.end_time) > toMinutes(slot.start_time)
+    );
+
+    res.json({
+      success: true,
+      data: slots.map((slot) => ({
+        ...slot,
+        already_exists: overlapsExisting(slot)
+      }))
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error previewing slots' });
+  }
+});
+
+// GENERATE SLOTS FROM THE SAVED SCHEDULE (Admin)
+app.post('/api/doctors/:id/availability/generate', authenticate, authorize('admin', 'doctor'), authorizeOwnDoctor, requireActiveDoctor, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const weeks = parseWeeks(req.body.weeks);
+    const templates = await getDoctorTemplates(pool, id);
+
+    if (templates.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'This doctor has no weekly schedule yet'
+      });
+    }
+
+    const slots = buildSlotsFromTemplates(templates, weeks);
+    const createdIds = await insertGeneratedSlots(pool, slots);
+    const created = createdIds.length;
+    announceSlots('created', createdIds);
+
+    res.status(201).json({
+      success: true,
+      message: `${created} slot(s) created`,
+      data: { created, skipped: slots.length - created }
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error generating slots' });
+  }
+});
+
+// ============================================
+// TIME OFF & CLINIC CLOSURES
+// ============================================
+
+// LIST UPCOMING TIME OFF (Admin)
+// ?doctor_id=1 returns that doctor's blocks plus clinic-wide closures
+app.get('/api/time-off', authenticate, authorize('admin'), async (req, res) => {
+  try {
+    const { doctor_id } = req.query;
+
+    let query = `
+      SELECT t.*, d.name as doctor_name,
+             (SELECT COUNT(*) FROM appointments a WHERE a.time_off_id = t.id
+              AND a.status IN ('PENDING', 'CONFIRMED')) as flagged_appointments
+      FROM time_off t
+      LEFT JOIN doctors d ON t.doctor_id = d.id
+      WHERE t.ends_at > NOW()
+    `;
+    const params = [];
+
+    if (doctor_id) {
+      query += ' AND (t.doctor_id = $1 OR t.doctor_id IS NULL)';
+      params.push(doctor_id);
+    }
+
+    query += ' ORDER BY t.starts_at ASC';
+
+    const result = await pool.query(query, params);
+
+    res.json({
+      success: true,
+      data: result.rows
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error fetching time off' });
+  }
+});
+
+// CREATE TIME OFF (Admin)
+// Leave out doctor_id to close the whole clinic. Leave out the times to
+// block whole days. Booked appointments inside the block are flagged, or
+// cancelled when cancel_appointments is true, and their patients notified.
+app.post('/api/time-off', authenticate, authorize('admin'), async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const {
+      doctor_id,
+      start_date,
+      end_date = start_date,
+      start_time,
+      end_time,
+      reason,
+      cancel_appointments = false
+    } = req.body;
+
+    if (!start_date) {
+      return res.status(400).json({
+        success: false,
+        message: 'start_date is required'
+      });
+    }
+
+    await client.query('BEGIN');
+
+    // Without an end_time the block runs to the end of end_date
+    const blockResult = await client.query(
+      `INSERT INTO time_off (doctor_id, starts_at, ends_at, reason, created_by)
+       VALUES (
+         $1,
+         $2::date + COALESCE($3::time, '00:00'::time),
+         CASE WHEN $5::time IS NULL THEN $4::date + 1 ELSE $4::date + $5::time END,
+         $6,
+         $7
+       )
+       RETURNING *`,
+      [doctor_id || null, start_date, start_time || null, end_date, end_time || null, reason || null, req.user.id]
+    );
+
+    const block = blockResult.rows[0];
+
+    // Find active appointments with any of their slots now inside the block
+    const affectedResult = await client.query(
+      `SELECT a.*, s.slot_date, s.start_time, s.end_time
+       FROM appointments a
+       JOIN slots s ON a.slot_id = s.id
+       WHERE a.status = ANY($4)
+       AND ($1::int IS NULL OR s.doctor_id = $1)
+       AND EXISTS (
+         SELECT 1 FROM appointment_slots aps
+         JOIN slots taken ON aps.slot_id = taken.id
+         WHERE aps.appointment_id = a.id
+         AND taken.slot_date + taken.start_time < $3
+         AND taken.slot_date + taken.end_time > $2
+       )
+       FOR UPDATE OF a`,
+      [block.doctor_id, block.starts_at, block.ends_at, ACTIVE_STATUSES]
+    );
+
+    const affected = affectedResult.rows;
+    let freedSlotIds = [];
+
+    if (affected.length > 0) {
+      const ids = affected.map((appointment) => appointment.id);
+
+      if (cancel_appointments) {
+        await transitionAppointments(client, ids, 'CANCELLED', {
+          actor: req.user,
+          note: `Doctor unavailable${block.reason ? ` (${block.reason})` : ''}`
+        });
+        for (const appointment of affected) {
+          await settleCancelledPayment(client, appointment, { reason: 'Doctor unavailable' });
+          await closeMeeting(client, meetingProvider, appointment.id);
+        }
+        freedSlotIds = await releaseAppointmentSlots(client, ids);
+      }
+
+      await client.query(
+        'UPDATE appointments SET time_off_id = $2 WHERE id = ANY($1)',
+        [ids, block.id]
+      );
+    }
+
+    await client.query('COMMIT');
+
+    announceSlots('released', freedSlotIds);
+
+    const unavailableReason = block.reason ? ` (${block.reason})` : '';
+    affected.forEach((appointment) => notifyPatient(
+      appointment.patient_email,
+      cancel_appointments
+        ? `Appointment #${appointment.id} was cancelled because the doctor is unavailable${unavailableReason}.`
+        : `The doctor is unavailable at the time of appointment #${appointment.id}${unavailableReason}. Please reschedule.`,
+      'Your doctor is unavailable'
+    ));
+
+    res.status(201).json({
+      success: true,
+      message: `Time off created. ${affected.length} appointment(s) ${cancel_appointments ? 'cancelled' : 'flagged'}.`,
+      data: { ...block, affected_appointments: affected }
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error.code === '23514') {
+      return res.status(400).json({
+        success: false,
+        message: 'The time off must end after it starts'
+      });
+    }
+    if (error.code === '22007' || error.code === '22008') {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid date or time'
+      });
+    }
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error creating time off' });
+  } finally {
+    client.release();
+  }
+});
+
+// REMOVE TIME OFF (Admin)
+// Flagged appointments are un-flagged by ON DELETE SET NULL and the
+// slots become bookable again
+app.delete('/api/time-off/:id', authenticate, authorize('admin'), async (req, res) => {
+  try {
+    const result = await pool.query(
+      'DELETE FROM time_off WHERE id = $1 RETURNING *',
+      [req.params.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, message: 'Time off not found' });
+    }
+
+    res.json({
+      success: true,
+      message: 'Time off removed'
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error removing time off' });
+  }
+});
+
+// ============================================
+// WAITLIST ENDPOINTS
+// ============================================
+
+// JOIN WAITLIST (Patient)
+app.post('/api/waitlist', authenticate, authorize('patient'), async (req, res) => {
+  try {
+    const { doctor_id, preferred_date } = req.body;
+
+    if (!doctor_id) {
+      return res.status(400).json({
+        success: false,
+        message: 'doctor_id is required'
+      });
+    }
+
+    if (preferred_date && preferred_date < wallClockIn(CLINIC_TIMEZONE).date) {
+      return res.status(400).json({
+        success: false,
+        message: 'Preferred date cannot be in the past'
+      });
+    }
+
+    const doctorResult = await pool.query('SELECT is_active FROM doctors WHERE id = $1', [doctor_id]);
+
+    if (doctorResult.rows.length === 0) {
+      return res.status(404).json({ success: false, message: 'Doctor not found' });
+    }
+
+    if (!doctorResult.rows[0].is_active) {
+      return res.status(409).json({
+        success: false,
+        message: 'This doctor is no longer taking bookings'
+      });
+    }
+
+    const existing = await pool.query(
+      `SELECT id FROM waitlist_entries
+       WHERE user_id = $1 AND doctor_id = $2
+       AND preferred_date IS NOT DISTINCT FROM $3::date
+       AND status IN ('WAITING', 'OFFERED')`,
+      [req.user.id, doctor_id, preferred_date || null]
+    );
+
+    if (existing.rows.length > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'You are already on the waitlist for this doctor'
+      });
+    }
+
+    const result = await pool.query(
+      `INSERT INTO waitlist_entries (doctor_id, user_id, patient_email, preferred_date)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [doctor_id, req.user.id, req.user.email, preferred_date || null]
+    );
+
+    res.status(201).json({
+      success: true,
+      message: "You're on the waitlist. We'll hold the next free slot for you.",
+      data: result.rows[0]
+    });
+  } catch (error) {
+    if (error.code === '23503') {
+      return res.status(404).json({ success: false, message: 'Doctor not found' });
+    }
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error joining waitlist' });
+  }
+});
+
+// GET WAITLIST
+// Patients see their own active entries, admins see every active entry
+app.get('/api/waitlist', authenticate, authorize('patient', 'admin'), async (req, res) => {
+  try {
+    let query = `
+      SELECT w.*, d.name as doctor_name, d.specialty,
+             s.slot_date as offered_slot_date, s.start_time as offered_start_time,
+             s.end_time as offered_end_time, s.starts_at as offered_starts_at,
+             s.ends_at as offered_ends_at, ${SLOT_TIMEZONE} as timezone
+      FROM waitlist_entries w
+      JOIN doctors d ON w.doctor_id = d.id
+      LEFT JOIN slots s ON w.offered_slot_id = s.id
+      LEFT JOIN locations l ON s.location_id = l.id
+      WHERE w.status IN ('WAITING', 'OFFERED')
+    `;
+    const params = [];
+
+    if (req.user.role === 'patient') {
+      query += ' AND w.user_id = $1';
+      params.push(req.user.id);
+    }
+
+    query += ' ORDER BY w.created_at ASC';
+
+    const result = await pool.query(query, params);
+
+    res.json({
+      success: true,
+      data: result.rows
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error fetching waitlist' });
+  }
+});
+
+// LEAVE WAITLIST (owner or admin)
+// Declining an offer passes the held slot straight to the next patient
+app.delete('/api/waitlist/:id', authenticate, authorize('patient', 'admin'), async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const entryResult = await client.query(
+      'SELECT * FROM waitlist_entries WHERE id = $1 FOR UPDATE',
+      [req.params.id]
+    );
+
+    const entry = entryResult.rows[0];
+
+    if (!entry || (req.user.role === 'patient' && entry.user_id !== req.user.id)) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ success: false, message: 'Waitlist entry not found' });
+    }
+
+    if (!['WAITING', 'OFFERED'].includes(entry.status)) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ success: false, message: 'This waitlist entry is no longer active' });
+    }
+
+    await client.query(
+      "UPDATE waitlist_entries SET status = 'CANCELLED' WHERE id = $1",
+      [entry.id]
+    );
+
+    if (entry.status === 'OFFERED') {
+      await client.query(
+        `UPDATE slots SET hold_user_id = NULL, hold_expires_at = NULL, hold_kind = NULL
+         WHERE id = $1 AND hold_user_id = $2 AND hold_kind = 'waitlist'`,
+        [entry.offered_slot_id, entry.user_id]
+      );
+    }
+
+    await client.query('COMMIT');
+
+    if (entry.status === 'OFFERED') {
+      offerSlotToWaitlist(entry.offered_slot_id)
+        .then(() => announceSlots('released', [entry.offered_slot_id]));
+    }
+
+    res.json({
+      success: true,
+      message: 'Removed from the waitlist'
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error leaving waitlist' });
+  } finally {
+    client.release();
+  }
+});
+
+// ============================================
+// APPOINTMENT ENDPOINTS (CONCURRENCY SAFE)
+// ============================================
+
+// BOOK APPOINTMENT
+app.post('/api/appointments', authenticate, authorize('patient', 'admin'), async (req, res) => {
+  const client = await pool.connect(); // Get dedicated connection for transaction
+
+  try {
+    const {
+      slot_id,
+      appointment_type_id,
+      patient_name,
+      patient_phone,
+      patient_age,
+      reason_for_visit,
+      dependent_id
+    } = req.body;
+
+    // Patients always book under their own account email
+    const patient_email = req.user.role === 'patient' ? req.user.email : req.body.patient_email;
+
+    // Validate input
+    if (!slot_id || !patient_name || !patient_email || !patient_phone || (!patient_age && patient_age !== 0) || !reason_for_visit) {
+      return res.status(400).json({
+        success: false,
+        message: 'All fields are required'
+      });
+    }
+
+    // START TRANSACTION (prevents double booking)
+    await client.query('BEGIN');
+
+    // STEP 1: Lock the slot (prevents other users from booking same slot)
+    const slotCheck = await client.query(
+      `SELECT s.*, ${SLOT_BLOCKED_BY_TIME_OFF} AS is_blocked,
+              ${slotHeldForOthers('$2')} AS is_held,
+              s.starts_at <= NOW() AS has_started,
+              NOT d.is_active AS doctor_inactive, d.consultation_fee,
+              ${SLOT_TIMEZONE} AS timezone
+       FROM slots s JOIN doctors d ON s.doctor_id = d.id
+       LEFT JOIN locations l ON s.location_id = l.id
+       WHERE s.id = $1 FOR UPDATE OF s`,
+      [slot_id, req.user.id]
+    );
+
+    if (slotCheck.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        message: 'Slot not found'
+      });
+    }
+
+    const slot = slotCheck.rows[0];
+
+    // STEP 2: Check if slot is already booked
+    if (slot.is_booked) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({
+        success: false,
+        message: 'Slot is already booked! Please select another slot.'
+      });
+    }
+
+    if (slot.has_started) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({
+        success: false,
+        message: 'This slot has already started. Please select another slot.'
+      });
+    }
+
+    if (slot.doctor_inactive) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({
+        success: false,
+        message: 'This doctor is no longer taking bookings.'
+      });
+    }
+
+    if (slot.is_blocked) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({
+        success: false,
+        message: 'The doctor is unavailable at this time. Please select another slot.'
+      });
+    }
+
+    if (slot.is_held) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({
+        success: false,
+        message: slot.hold_kind === 'waitlist'
+          ? 'This slot is being held for a waitlisted patient. Please select another slot.'
+          : 'Someone else is booking this slot right now. Please select another slot.'
+      });
+    }
+
+    // STEP 3: Doctors who offer appointment types are booked for one; a type
+    // longer than the slot also takes the free slots right after it
+    let appointmentType = null;
+    if (appointment_type_id) {
+      appointmentType = await findAppointmentType(client, slot.doctor_id, appointment_type_id);
+      if (!appointmentType) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({
+          success: false,
+          message: 'This doctor does not offer that appointment type'
+        });
+      }
+      if (appointmentType.visit_mode !== slot.visit_mode) {
+        await client.query('ROLLBACK');
+        return res.status(409).json({
+          success: false,
+          message: appointmentType.visit_mode === 'video'
+            ? `A ${appointmentType.name} is a video visit. Please select a video slot.`
+            : `A ${appointmentType.name} is an in-person visit. Please select an in-person slot.`
+        });
+      }
+    } else {
+      const offered = await client.query(
+        'SELECT 1 FROM appointment_types WHERE doctor_id = $1 AND is_active = TRUE LIMIT 1',
+        [slot.doctor_id]
+      );
+      if (offered.rows.length > 0) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({
+          success: false,
+          message: 'Please choose an appointment type'
+        });
+      }
+    }
+
+    const slots = appointmentType
+      ? await lockSlotRun(client, slot, appointmentType.duration_minutes, req.user.id)
+      : [slot];
+
+    if (!slots) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({
+        success: false,
+        message: `A ${appointmentType.name} takes ${appointmentType.duration_minutes} minutes and the time after this slot is not free. Please select another slot.`
+      });
+    }
+
+    const fee = appointmentType && appointmentType.fee !== null ? appointmentType.fee : slot.consultation_fee;
+
+    // STEP 4: Create appointment (expires if not confirmed within the hold window)
+    // under the patient's record, which is created on their first booking
+    const patient = await upsertPatient(client, {
+      email: patient_email,
+      name: patient_name,
+      phone: patient_phone,
+      userId: req.user.role === 'patient' ? req.user.id : null
+    });
+
+    // Booking for a family member: they must be one of this patient's dependents
+    let dependent = null;
+    if (dependent_id) {
+      const dependentResult = await client.query(
+        'SELECT * FROM dependents WHERE id = $1 AND patient_id = $2',
+        [dependent_id, patient.id]
+      );
+      dependent = dependentResult.rows[0];
+      if (!dependent) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({
+          success: false,
+          message: 'This person is not one of the patient\'s dependents'
+        });
+      }
+    }
+
+    // Patients can't pile up bookings with one doctor (staff booking for them
+    // can). upsertPatient locked the patient row, so two bookings sent at
+    // once are counted one after the other.
+    if (req.user.role === 'patient') {
+      const limitMessage = await checkBookingLimits(client, {
+        patientId: patient.id,
+        doctorId: slot.doctor_id
+      });
+      if (limitMessage) {
+        await client.query('ROLLBACK');
+        return res.status(409).json({
+          success: false,
+          message: limitMessage
+        });
+      }
+    }
+
+    const holdMinutes = await getPendingHoldMinutes(client, slot.doctor_id);
+    const appointmentResult = await client.query(
+      `INSERT INTO appointments 
+       (slot_id, patient_id, dependent_id, patient_name, patient_email, patient_phone, patient_age, reason_for_visit,
+        appointment_type_id, duration_minutes, fee, visit_mode, status, expires_at) 
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, 'PENDING', NOW() + make_interval(mins => $13)) 
+       RETURNING *`,
+      [
+        slot_id,
+        patient.id,
+        dependent ? dependent.id : null,
+        dependent ? dependent.name : patient_name,
+        patient_email,
+        patient_phone,
+        patient_age,
+        reason_for_visit,
+        appointmentType ? appointmentType.id : null,
+        appointmentType ? appointmentType.duration_minutes : null,
+        fee,
+        slot.visit_mode,
+        holdMinutes
+      ]
+    );
+
+    // STEP 5: Mark the slots as booked (taking over the patient's hold on
+    // them) and let go of any other slots they were holding
+    await occupySlots(client, appointmentResult.rows[0].id, slots);
+    const releasedSlotIds = await releaseBookingHolds(client, req.user.id);
+
+    // STEP 6: Video visits get their meeting room now; the link is shown
+    // to the patient and doctor shortly before the visit
+    if (slot.visit_mode === 'video') {
+      await createMeeting(client, meetingProvider, {
+        appointmentId: appointmentResult.rows[0].id,
+        startsAt: slot.starts_at,
+        endsAt: visitEndsAt(slot, appointmentResult.rows[0].duration_minutes)
+      });
+    }
+
+    // STEP 7: The patient no longer needs to wait for this doctor
+    await client.query(
+      `UPDATE waitlist_entries SET status = 'BOOKED'
+       WHERE user_id = $1 AND doctor_id = $2
+       AND (status = 'WAITING' OR (status = 'OFFERED' AND offered_slot_id = $3))`,
+      [req.user.id, slot.doctor_id, slot_id]
+    );
+
+    // STEP 8: Open the consultation fee payment; paying it confirms the booking
+    const payment = Number(fee) > 0
+      ? await createPayment(client, paymentProvider, {
+        appointmentId: appointmentResult.rows[0].id,
+        amount: fee
+      })
+      : null;
+
+    // STEP 9: Start the appointment's history and queue the "booking received" email
+    await recordAppointmentEvent(client, appointmentResult.rows[0], { actor: req.user, from: null, note: 'Booked' });
+    await queueAppointmentEmail(client, appointmentResult.rows[0].id, 'appointment_received', payment ? {
+      payment_amount: payment.amount,
+      currency: payment.currency
+    } : {});
+
+    // COMMIT TRANSACTION (save all changes)
+    await client.query('COMMIT');
+
+    // Other patients looking at these slots see them go
+    announceSlots('booked', slots.map((bookedSlot) => bookedSlot.id));
+    announceSlots('released', releasedSlotIds);
+
+    res.status(201).json({
+      success: true,
+      message: 'Appointment booked successfully!',
+      data: {
+        ...appointmentResult.rows[0],
+        starts_at: slot.starts_at,
+        ends_at: visitEndsAt(slot, appointmentResult.rows[0].duration_minutes),
+        timezone: slot.timezone,
+        payment: payment && {
+          id: payment.id,
+          amount: payment.amount,
+          currency: payment.currency,
+          status: payment.status,
+          client_secret: payment.client_secret
+        }
+      }
+    });
+  } catch (error) {
+    // ROLLBACK on error (undo all changes)
+    await client.query('ROLLBACK');
+    console.error(error);
+    res.status(500).json({
+      success: false,
+      message: 'Error booking appointment',
+      error: error.message
+    });
+  } finally {
+    client.release(); // Release connection back to pool
+  }
+});
+
+// Load an appointment with its slot's doctor and time (for access checks).
+// Pass forUpdate inside a transaction to lock the appointment row.
+const findAppointmentWithDoctor = async (db, id, { forUpdate = false } = {}) => {
+  const result = await db.query(
+    `SELECT a.*, s.doctor_id, s.location_id, s.slot_date, s.start_time, s.end_time, s.starts_at
+     FROM appointments a
+     JOIN slots s ON a.slot_id = s.id
+     WHERE a.id = $1
+     ${forUpdate ? 'FOR UPDATE OF a' : ''}`,
+    [id]
+  );
+  return result.rows[0];
+};
+
+// CONFIRM APPOINTMENT
+app.post('/api/appointments/:id/confirm', authenticate, async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { id } = req.params;
+
+    await client.query('BEGIN');
+
+    // Lock the appointment so a payment or the expiry job can't change it meanwhile
+    const existing = await findAppointmentWithDoctor(client, id, { forUpdate: true });
+
+    if (!existing || !canAccessAppointment(req.user, existing)) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        message: 'Appointment not found'
+      });
+    }
+
+    if (existing.status === 'PENDING' && new Date(existing.expires_at) <= new Date()) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({
+        success: false,
+        message: 'This booking has expired. Please book again.'
+      });
+    }
+
+    // Patients confirm by paying; staff can still confirm e.g. a fee paid at the desk
+    if (req.user.role === 'patient') {
+      const payment = await client.query(
+        'SELECT 1 FROM payments WHERE appointment_id = $1 AND status = ANY($2)',
+        [id, UNPAID_STATUSES]
+      );
+      if (payment.rows.length > 0) {
+        await client.query('ROLLBACK');
+        return res.status(409).json({
+          success: false,
+          message: 'Pay the consultation fee to confirm this appointment'
+        });
+      }
+    }
+
+    const confirmed = await transitionAppointment(client, id, 'CONFIRMED', { actor: req.user });
+
+    if (!confirmed) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({
+        success: false,
+        message: `A ${existing.status.toLowerCase()} appointment cannot be confirmed`
+      });
+    }
+
+    await queueAppointmentEmail(client, id, 'appointment_confirmed');
+
+    await client.query('COMMIT');
+
+    announceAppointments([confirmed.id]);
+
+    res.json({
+      success: true,
+      message: 'Appointment confirmed!',
+      data: confirmed
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error confirming appointment' });
+  } finally {
+    client.release();
+  }
+});
+
+// Columns the appointments list can be sorted by (?sort=slot_date&order=asc)
+const APPOINTMENT_SORTS = {
+  booking_time: ['a.booking_time'],
+  slot_date: ['s.slot_date', 's.start_time'],
+  patient_name: ['LOWER(a.patient_name)'],
+  doctor_name: ['LOWER(d.name)'],
+  status: ['a.status']
+};
+
+// WHERE conditions shared by the appointments list and the CSV export.
+// Patients and doctors are always limited to their own appointments.
+// Returns { conditions, params } or { error } for bad input.
+const buildAppointmentFilters = (user, query) => {
+  const conditions = [];
+  const params = [];
+
+  if (user.role === 'patient') {
+    params.push(user.email);
+    conditions.push(`a.patient_email = $${params.length}`);
+  } else if (user.role === 'doctor') {
+    params.push(user.doctor_id);
+    conditions.push(`s.doctor_id = $${params.length}`);
+  } else if (query.patient_email) {
+    params.push(query.patient_email);
+    conditions.push(`a.patient_email = $${params.length}`);
+  }
+
+  if (query.patient_id && user.role === 'admin') {
+    params.push(query.patient_id);
+    conditions.push(`a.patient_id = $${params.length}`);
+  }
+
+  if (query.doctor_id) {
+    params.push(query.doctor_id);
+    conditions.push(`s.doctor_id = $${params.length}`);
+  }
+
+  if (query.location_id) {
+    params.push(query.location_id);
+    conditions.push(`s.location_id = $${params.length}`);
+  }
+
+  if (query.status) {
+    const statuses = parseList(query.status).map((status) => status.toUpperCase());
+    const unknown = statuses.filter((status) => !STATUSES.includes(status));
+    if (unknown.length > 0) {
+      return { error: `Unknown status: ${unknown.join(', ')}` };
+    }
+    params.push(statuses);
+    conditions.push(`a.status = ANY($${params.length})`);
+  }
+
+  for (const [key, operator] of [['from', '>='], ['to', '<=']]) {
+    if (!query[key]) continue;
+    if (!isDateString(query[key])) {
+      return { error: `${key} must be a date in YYYY-MM-DD format` };
+    }
+    params.push(query[key]);
+    conditions.push(`s.slot_date ${operator} $${params.length}`);
+  }
+
+  // Free-text patient search over name, email and phone
+  if (query.patient) {
+    params.push(`%${query.patient}%`);
+    conditions.push(`(a.patient_name ILIKE $${params.length} OR a.patient_email ILIKE $${params.length}
+      OR a.patient_phone ILIKE $${params.length})`);
+  }
+
+  if (query.ids) {
+    const ids = parseList(query.ids).map(Number);
+    if (ids.some((id) => !Number.isInteger(id))) {
+      return { error: 'ids must be a comma-separated list of appointment ids' };
+    }
+    params.push(ids);
+    conditions.push(`a.id = ANY($${params.length})`);
+  }
+
+  return { conditions, params };
+};
+
+// Newest bookings first unless ?sort / ?order say otherwise
+const APPOINTMENT_DEFAULT_SORT = { sort: 'booking_time', order: 'desc', tieBreaker: 'a.id' };
+
+const APPOINTMENT_FROM = `
+  FROM appointments a
+  JOIN slots s ON a.slot_id = s.id
+  JOIN doctors d ON s.doctor_id = d.id
+  LEFT JOIN locations l ON s.location_id = l.id
+  LEFT JOIN time_off t ON a.time_off_id = t.id
+  LEFT JOIN dependents dep ON a.dependent_id = dep.id
+  LEFT JOIN payments pay ON pay.appointment_id = a.id
+  LEFT JOIN appointment_types apt ON a.appointment_type_id = apt.id
+  LEFT JOIN appointment_meetings m ON m.appointment_id = a.id
+`;
+
+// GET APPOINTMENTS
+// Admins see everything, doctors see their own schedule and patients see
+// their own bookings. Filters: doctor_id, location_id, status (comma-separated), from, to,
+// patient (name/email/phone search), patient_email (admin). Sorting and
+// paging follow the list contract (see LIST HELPERS).
+app.get('/api/appointments', authenticate, async (req, res) => {
+  try {
+    const filters = buildAppointmentFilters(req.user, req.query);
+    const sorting = buildOrderBy(req.query, APPOINTMENT_SORTS, APPOINTMENT_DEFAULT_SORT);
+    const error = filters.error || sorting.error;
+
+    if (error) {
+      return res.status(400).json({ success: false, message: error });
+    }
+
+    const list = await fetchList(pool, {
+      select: `a.*, s.doctor_id, s.slot_date, s.start_time, ${VISIT_END_TIME} as end_time,
+               s.starts_at, ${VISIT_ENDS_AT} as ends_at, ${SLOT_TIMEZONE} as timezone,
+               d.name as doctor_name, d.specialty, COALESCE(a.fee, d.consultation_fee) as consultation_fee,
+               apt.name as appointment_type_name, ${MEETING_FIELDS},
+               l.name as location_name, l.address as location_address,
+               t.reason as time_off_reason,
+               dep.name as dependent_name, dep.relationship as dependent_relationship,
+               pay.id as payment_id, pay.status as payment_status, pay.amount as payment_amount,
+               pay.currency as payment_currency, pay.refunded_amount,
+               (SELECT json_agg(json_build_object(
+                         'slot_date', r.old_slot_date,
+                         'start_time', r.old_start_time,
+                         'end_time', r.old_end_time,
+                         'rescheduled_at', r.rescheduled_at
+                       ) ORDER BY r.rescheduled_at)
+                FROM appointment_reschedules r
+                WHERE r.appointment_id = a.id) as reschedule_history`,
+      from: APPOINTMENT_FROM,
+      conditions: filters.conditions,
+      params: filters.params,
+      orderBy: sorting.orderBy
+    }, parsePagination(req.query));
+
+    res.json({
+      success: true,
+      data: list.rows,
+      ...(list.pagination && { pagination: list.pagination })
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error fetching appointments' });
+  }
+});
+
+// Quote one CSV field (RFC 4180)
+const toCsvField = (value) => {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const EXPORT_COLUMNS = [
+  'id', 'status', 'doctor_name', 'specialty', 'location_name', 'appointment_type', 'slot_date', 'start_time', 'end_time',
+  'timezone', 'patient_name', 'patient_email', 'patient_phone', 'patient_age', 'reason_for_visit',
+  'booking_time', 'confirmation_time', 'payment_status', 'payment_amount', 'refunded_amount'
+];
+
+// EXPORT APPOINTMENTS AS CSV (Admin)
+// Takes the same filters and sort as the list, plus ids=1,2,3 for a selection
+app.get('/api/appointments/export', authenticate, authorize('admin'), async (req, res) => {
+  try {
+    const filters = buildAppointmentFilters(req.user, req.query);
+    const sorting = buildOrderBy(req.query, APPOINTMENT_SORTS, APPOINTMENT_DEFAULT_SORT);
+    const error = filters.error || sorting.error;
+
+    if (error) {
+      return res.status(400).json({ success: false, message: error });
+    }
+
+    const { rows } = await fetchList(pool, {
+      select: `a.id, a.status, d.name as doctor_name, d.specialty, l.name as location_name,
+               apt.name as appointment_type, to_char(s.slot_date, 'YYYY-MM-DD') as slot_date,
+               s.start_time, ${VISIT_END_TIME} as end_time, ${SLOT_TIMEZONE} as timezone,
+               a.patient_name, a.patient_email, a.patient_phone, a.patient_age, a.reason_for_visit,
+               a.booking_time, a.confirmation_time,
+               pay.status as payment_status, pay.amount as payment_amount, pay.refunded_amount`,
+      from: APPOINTMENT_FROM,
+      conditions: filters.conditions,
+      params: filters.params,
+      orderBy: sorting.orderBy
+    });
+
+    const lines = [
+      EXPORT_COLUMNS.join(','),
+      ...rows.map((row) => EXPORT_COLUMNS.map((column) => toCsvField(row[column])).join(','))
+    ];
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="appointments-${toDateString(new Date())}.csv"`);
+    res.send(`${lines.join('\r\n')}\r\n`);
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error exporting appointments' });
+  }
+});
+
+// Statuses the bulk endpoint can move appointments to
+const BULK_ACTIONS = {
+  confirm: { status: 'CONFIRMED', email: 'appointment_confirmed' },
+  cancel: { status: 'CANCELLED', email: 'appointment_cancelled' }
+};
+const MAX_BULK_IDS = 200;
+
+// BULK CONFIRM / CANCEL (Admin) - { action: 'confirm' | 'cancel', ids: [1, 2] }
+// Appointments whose status doesn't allow the action are skipped, as are
+// expired bookings when confirming and started visits when cancelling; the
+// rest change together
+app.post('/api/appointments/bulk', authenticate, authorize('admin'), async (req, res) => {
+  const { action, ids } = req.body;
+  const bulkAction = BULK_ACTIONS[action];
+
+  if (!bulkAction) {
+    return res.status(400).json({
+      success: false,
+      message: `action must be one of: ${Object.keys(BULK_ACTIONS).join(', ')}`
+    });
+  }
+
+  if (!Array.isArray(ids) || ids.length === 0 || ids.length > MAX_BULK_IDS ||
+      ids.some((id) => !Number.isInteger(id))) {
+    return res.status(400).json({
+      success: false,
+      message: `ids must be a list of 1 to ${MAX_BULK_IDS} appointment ids`
+    });
+  }
+
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    // Expired bookings can't be confirmed any more, even before the job marks
+    // them FAILED, and visits that have started can't be cancelled
+    let eligibleIds = ids;
+    if (action === 'confirm') {
+      const fresh = await client.query(
+        'SELECT id FROM appointments WHERE id = ANY($1) AND expires_at > NOW()',
+        [ids]
+      );
+      eligibleIds = fresh.rows.map((row) => row.id);
+    } else {
+      const upcoming = await client.query(
+        `SELECT a.id FROM appointments a JOIN slots s ON a.slot_id = s.id
+         WHERE a.id = ANY($1) AND s.starts_at > NOW()`,
+        [ids]
+      );
+      eligibleIds = upcoming.rows.map((row) => row.id);
+    }
+
+    const updated = await transitionAppointments(client, eligibleIds, bulkAction.status, {
+      actor: req.user,
+      note: `Bulk ${action}`
+    });
+    const slotIds = action === 'cancel'
+      ? await releaseAppointmentSlots(client, updated.map((appointment) => appointment.id))
+      : [];
+
+    for (const appointment of updated) {
+      await queueAppointmentEmail(client, appointment.id, bulkAction.email);
+      if (action === 'cancel') {
+        await settleCancelledPayment(client, appointment, { reason: 'Appointment cancelled' });
+        await closeMeeting(client, meetingProvider, appointment.id);
+      }
+    }
+
+    await client.query('COMMIT');
+
+    if (action === 'cancel') {
+      for (const slotId of slotIds) {
+        await offerSlotToWaitlist(slotId);
+      }
+      announceSlots('released', slotIds);
+    }
+
+    const updatedIds = updated.map((appointment) => appointment.id);
+    if (action === 'confirm') {
+      announceAppointments(updatedIds);
+    }
+
+    res.json({
+      success: true,
+      message: `${updatedIds.length} of ${ids.length} appointment(s) ${action === 'confirm' ? 'confirmed' : 'cancelled'}`,
+      data: {
+        updated: updatedIds,
+        skipped: ids.filter((id) => !updatedIds.includes(id))
+      }
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error updating appointments' });
+  } finally {
+    client.release();
+  }
+});
+
+// CANCELLATION PREVIEW - the policy that applies and what cancelling now
+// would cost, for the patient to see before they cancel (owner, admin)
+app.get('/api/appointments/:id/cancellation', authenticate, async (req, res) => {
+  try {
+    const appointment = await findAppointmentWithDoctor(pool, req.params.id);
+
+    if (!appointment || !canAccessAppointment(req.user, appointment)) {
+      return res.status(404).json({ success: false, message: 'Appointment not found' });
+    }
+
+    if (!canTransition(appointment.status, 'CANCELLED')) {
+      return res.status(409).json({
+        success: false,
+        message: `A ${appointment.status.toLowerCase()} appointment cannot be cancelled`
+      });
+    }
+
+    res.json({
+      success: true,
+      data: await evaluateCancellation(pool, appointment, req.user)
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error checking cancellation policy' });
+  }
+});
+
+// CANCEL APPOINTMENT
+// Patients are held to the appointment's cancellation policy (see
+// cancellationPolicies.js); nobody can cancel a visit that has started
+app.post('/api/appointments/:id/cancel', authenticate, async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { id } = req.params;
+
+    await client.query('BEGIN');
+
+    // Get appointment details
+    const appointment = await findAppointmentWithDoctor(client, id, { forUpdate: true });
+
+    if (!appointment || !canAccessAppointment(req.user, appointment)) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ success: false, message: 'Appointment not found' });
+    }
+
+    const evaluation = await evaluateCancellation(client, appointment, req.user);
+
+    if (canTransition(appointment.status, 'CANCELLED') && !evaluation.allowed) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({
+        success: false,
+        message: evaluation.reason,
+        data: evaluation
+      });
+    }
+
+    // Update appointment status (only active appointments still own their slot)
+    const cancelled = await transitionAppointment(client, id, 'CANCELLED', {
+      actor: req.user,
+      note: [req.body.reason, evaluation.is_late && `Late cancellation (${evaluation.fee_percent}% fee)`]
+        .filter(Boolean)
+        .join(' - ') || null
+    });
+
+    if (!cancelled) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({
+        success: false,
+        message: `A ${appointment.status.toLowerCase()} appointment cannot be cancelled`
+      });
+    }
+
+    // Release the slots
+    const freedSlotIds = await releaseAppointmentSlots(client, [appointment.id]);
+
+    await queueAppointmentEmail(client, id, 'appointment_cancelled');
+
+    const refund = await settleCancelledPayment(client, appointment, {
+      reason: evaluation.is_late ? 'Late cancellation' : 'Appointment cancelled',
+      percent: 100 - evaluation.fee_percent
+    });
+    await closeMeeting(client, meetingProvider, appointment.id);
+
+    await client.query('COMMIT');
+
+    // Hand the freed slots to the next patients on the waitlist, then tell
+    // everyone else (slots held for a waitlisted patient stay hidden)
+    Promise.all(freedSlotIds.map((slotId) => offerSlotToWaitlist(slotId)))
+      .then(() => announceSlots('released', freedSlotIds));
+
+    res.json({
+      success: true,
+      message: refund
+        ? `Appointment cancelled successfully. ${refund.currency} ${refund.amount} will be refunded.`
+        : 'Appointment cancelled successfully',
+      data: {
+        refunded_amount: refund ? refund.amount : null,
+        fee_amount: evaluation.fee_amount
+      }
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error cancelling appointment' });
+  } finally {
+    client.release();
+  }
+});
+
+// RESCHEDULE APPOINTMENT
+// Moves a PENDING/CONFIRMED appointment to another free slot of the same
+// doctor in one transaction, so the old slots are only released once the new
+// ones are secured. A visit longer than one slot needs free slots after the
+// new one too (its own current slots count as free), and video visits stay
+// video (their meeting room moves along). Reminders start over for the new
+// time. Patients can only move a visit when
+// the cancellation policy would let them cancel it, and nobody can move one
+// that has started.
+app.post('/api/appointments/:id/reschedule', authenticate, async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { id } = req.params;
+    const { slot_id } = req.body;
+
+    if (!slot_id) {
+      return res.status(400).json({
+        success: false,
+        message: 'slot_id is required'
+      });
+    }
+
+    await client.query('BEGIN');
+
+    // STEP 1: Lock the appointment
+    const appointment = await findAppointmentWithDoctor(client, id, { forUpdate: true });
+
+    if (!appointment || !canAccessAppointment(req.user, appointment)) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ success: false, message: 'Appointment not found' });
+    }
+
+    if (!ACTIVE_STATUSES.includes(appointment.status)) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({
+        success: false,
+        message: `A ${appointment.status.toLowerCase()} appointment cannot be rescheduled`
+      });
+    }
+
+    if (Number(slot_id) === appointment.slot_id) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        message: 'Please pick a different slot'
+      });
+    }
 
-// GET SINGLE DOCTOR
-app.get('/api/doctors/:id', async (req, res) => {
+    const evaluation = await evaluateCancellation(client, appointment, req.user, { action: 'rescheduled' });
+
+    if (!evaluation.allowed) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({
+        success: false,
+        message: evaluation.reason,
+        data: evaluation
+      });
+    }
+
+    // STEP 2: Give up the current slots (undone by the rollback if the move fails)
+    const freedSlotIds = await releaseAppointmentSlots(client, [appointment.id]);
+    await client.query('DELETE FROM appointment_slots WHERE appointment_id = $1', [appointment.id]);
+
+    // STEP 3: Lock the new slot, and the ones after it for longer visits
+    const slotCheck = await client.query(
+      `SELECT s.*, ${SLOT_BLOCKED_BY_TIME_OFF} AS is_blocked,
+              ${slotHeldForOthers('$2')} AS is_held,
+              s.starts_at <= NOW() AS has_started,
+              NOT d.is_active AS doctor_inactive
+       FROM slots s JOIN doctors d ON s.doctor_id = d.id
+       WHERE s.id = $1 FOR UPDATE OF s`,
+      [slot_id, req.user.id]
+    );
+
+    if (slotCheck.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ success: false, message: 'Slot not found' });
+    }
+
+    const newSlot = slotCheck.rows[0];
+
+    if (newSlot.doctor_id !== appointment.doctor_id) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        message: 'You can only reschedule to another slot with the same doctor'
+      });
+    }
+
+    if (newSlot.visit_mode !== appointment.visit_mode) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        message: appointment.visit_mode === 'video'
+          ? 'This is a video visit. Please pick another video slot.'
+          : 'This is an in-person visit. Please pick another in-person slot.'
+      });
+    }
+
+    if (newSlot.is_booked || newSlot.is_blocked || newSlot.is_held || newSlot.has_started || newSlot.doctor_inactive) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({
+        success: false,
+        message: 'This slot is no longer available. Please select another slot.'
+      });
+    }
+
+    const slots = appointment.duration_minutes
+      ? await lockSlotRun(client, newSlot, appointment.duration_minutes, req.user.id)
+      : [newSlot];
+
+    if (!slots) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({
+        success: false,
+        message: `This visit takes ${appointment.duration_minutes} minutes and the time after this slot is not free. Please select another slot.`
+      });
+    }
+
+    // STEP 4: Record where the appointment was before moving it
+    await client.query(
+      `INSERT INTO appointment_reschedules
+       (appointment_id, old_slot_id, new_slot_id, old_slot_date, old_start_time, old_end_time, rescheduled_by)
+       SELECT $1, s.id, $3, s.slot_date, s.start_time, s.end_time, $4
+       FROM slots s WHERE s.id = $2`,
+      [appointment.id, appointment.slot_id, newSlot.id, req.user.id]
+    );
+
+    // STEP 5: Move the appointment and book the new slots
+    const updated = await client.query(
+      'UPDATE appointments SET slot_id = $2, time_off_id = NULL WHERE id = $1 RETURNING *',
+      [appointment.id, newSlot.id]
+    );
+    await occupySlots(client, appointment.id, slots);
+
+    // STEP 6: Move the meeting room, and let the reminders for the old time
+    // be sent again for the new one
+    if (appointment.visit_mode === 'video') {
+      await moveMeeting(client, meetingProvider, {
+        appointmentId: appointment.id,
+        startsAt: newSlot.starts_at,
+        endsAt: visitEndsAt(newSlot, appointment.duration_minutes)
+      });
+    }
+    await client.query('DELETE FROM appointment_reminders WHERE appointment_id = $1', [appointment.id]);
+
+    await recordAppointmentEvent(client, updated.rows[0], {
+      actor: req.user,
+      note: `Rescheduled from ${appointment.slot_date} ${appointment.start_time.slice(0, 5)} ` +
+        `to ${newSlot.slot_date} ${newSlot.start_time.slice(0, 5)}`
+    });
+
+    await client.query('COMMIT');
+
+    const releasedSlotIds = freedSlotIds.filter((slotId) => !slots.some((slot) => slot.id === slotId));
+    const bookedSlotIds = slots.map((slot) => slot.id).filter((slotId) => !freedSlotIds.includes(slotId));
+
+    announceSlots('booked', bookedSlotIds);
+    Promise.all(releasedSlotIds.map((slotId) => offerSlotToWaitlist(slotId)))
+      .then(() => announceSlots('released', releasedSlotIds));
+
+    res.json({
+      success: true,
+      message: 'Appointment rescheduled successfully',
+      data: updated.rows[0]
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error rescheduling appointment' });
+  } finally {
+    client.release();
+  }
+});
+
+// RECORD VISIT OUTCOME (Doctor, Admin)
+// Once a confirmed appointment has started, its doctor marks whether the
+// patient turned up
+const recordVisitOutcome = (status) => async (req, res) => {
   try {
     const { id } = req.params;
+
+    const appointment = await findAppointmentWithDoctor(pool, id);
+
+    if (!appointment || !canAccessAppointment(req.user, appointment)) {
+      return res.status(404).json({ success: false, message: 'Appointment not found' });
+    }
+
+    if (appointment.starts_at > new Date()) {
+      return res.status(409).json({
+        success: false,
+        message: 'The appointment has not started yet'
+      });
+    }
+
+    const updated = await transitionAppointment(pool, id, status, {
+      actor: req.user,
+      note: req.body.note || null
+    });
+
+    if (!updated) {
+      return res.status(409).json({
+        success: false,
+        message: `A ${appointment.status.toLowerCase()} appointment cannot be marked as ${status.toLowerCase().replace('_', '-')}`
+      });
+    }
+
+    announceAppointments([updated.id]);
+
+    res.json({
+      success: true,
+      message: status === 'COMPLETED' ? 'Appointment marked as completed' : 'Appointment marked as no-show',
+      data: updated
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error updating appointment' });
+  }
+};
+
+app.post('/api/appointments/:id/complete', authenticate, authorize('admin', 'doctor'), recordVisitOutcome('COMPLETED'));
+app.post('/api/appointments/:id/no-show', authenticate, authorize('admin', 'doctor'), recordVisitOutcome('NO_SHOW'));
+
+// APPOINTMENT TIMELINE - every status change, oldest first
+app.get('/api/appointments/:id/events', authenticate, async (req, res) => {
+  try {
+    const appointment = await findAppointmentWithDoctor(pool, req.params.id);
+
+    if (!appointment || !canAccessAppointment(req.user, appointment)) {
+      return res.status(404).json({ success: false, message: 'Appointment not found' });
+    }
+
     const result = await pool.query(
-      'SELECT * FROM doctors WHERE id = $1',
-      [id]
+      `SELECT e.id, e.from_status, e.to_status, e.actor_role, e.note, e.created_at,
+              u.name as actor_name
+       FROM appointment_events e
+       LEFT JOIN users u ON e.actor_user_id = u.id
+       WHERE e.appointment_id = $1
+       ORDER BY e.created_at ASC, e.id ASC`,
+      [appointment.id]
+    );
+
+    res.json({
+      success: true,
+      data: result.rows
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error fetching appointment history' });
+  }
+});
+
+// ============================================
+// PAYMENT ENDPOINTS
+// ============================================
+
+// Load a payment with its appointment's patient and doctor (for access checks)
+const findPaymentWithAppointment = async (db, id) => {
+  const result = await db.query(
+    `SELECT p.*, a.patient_email, a.status AS appointment_status, s.doctor_id
+     FROM payments p
+     JOIN appointments a ON p.appointment_id = a.id
+     JOIN slots s ON a.slot_id = s.id
+     WHERE p.id = $1`,
+    [id]
+  );
+  return result.rows[0];
+};
+
+// PAYMENT WEBHOOK (called by the payment provider, signed with
+// PAYMENT_WEBHOOK_SECRET in the X-Payment-Signature header)
+app.post(PAYMENT_WEBHOOK_PATH, async (req, res) => {
+  let event;
+
+  try {
+    event = paymentProvider.verifyWebhook(req.rawBody || '', req.headers['x-payment-signature']);
+  } catch (error) {
+    return res.status(400).json({ success: false, message: error.message });
+  }
+
+  try {
+    const isNew = await processPaymentEvent(event);
+    res.json({ success: true, duplicate: !isNew });
+  } catch (error) {
+    console.error('Error handling payment webhook:', error);
+    res.status(500).json({ success: false, message: 'Error handling payment event' });
+  }
+});
+
+// GET AN APPOINTMENT'S PAYMENT with its refunds (owner, admin)
+app.get('/api/appointments/:id/payment', authenticate, async (req, res) => {
+  try {
+    const appointment = await findAppointmentWithDoctor(pool, req.params.id);
+
+    if (!appointment || !canAccessAppointment(req.user, appointment)) {
+      return res.status(404).json({ success: false, message: 'Appointment not found' });
+    }
+
+    const result = await pool.query(
+      `SELECT p.id, p.appointment_id, p.provider, p.amount, p.currency, p.status,
+              p.refunded_amount, p.failure_reason, p.paid_at, p.created_at,
+              COALESCE((SELECT json_agg(r ORDER BY r.created_at) FROM payment_refunds r WHERE r.payment_id = p.id), '[]') as refunds
+       FROM payments p
+       WHERE p.appointment_id = $1`,
+      [req.params.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, message: 'This appointment has no payment' });
+    }
+
+    res.json({ success: true, data: result.rows[0] });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error fetching payment' });
+  }
+});
+
+// MOCK CHECKOUT (owner, admin) - { outcome: 'succeeded' | 'failed' }
+// Development stand-in for the provider's payment page: sends the signed
+// webhook the provider would send, through the same verification. Only
+// mounted with the mock provider, which never runs in production.
+const mockCheckout = async (req, res) => {
+  try {
+    const outcome = req.body.outcome || 'succeeded';
+    if (!['succeeded', 'failed'].includes(outcome)) {
+      return res.status(400).json({ success: false, message: 'outcome must be succeeded or failed' });
+    }
+
+    const payment = await findPaymentWithAppointment(pool, req.params.id);
+
+    if (!payment || !canAccessAppointment(req.user, payment)) {
+      return res.status(404).json({ success: false, message: 'Payment not found' });
+    }
+
+    if (!UNPAID_STATUSES.includes(payment.status)) {
+      return res.status(409).json({
+        success: false,
+        message: `A ${payment.status.toLowerCase().replace('_', ' ')} payment cannot be paid`
+      });
+    }
+
+    const webhook = paymentProvider.buildWebhook(
+      `payment.${outcome}`,
+      payment.provider_payment_id,
+      outcome === 'failed' ? { reason: 'Card declined' } : {}
+    );
+    await processPaymentEvent(paymentProvider.verifyWebhook(webhook.body, webhook.signature));
+
+    const updated = await findPaymentWithAppointment(pool, req.params.id);
+
+    res.json({
+      success: true,
+      message: {
+        SUCCEEDED: 'Payment received, your appointment is confirmed!',
+        REFUNDED: 'This booking had already closed, so the payment was refunded',
+        FAILED: 'Payment failed'
+      }[updated.status] || 'Payment processed',
+      data: {
+        id: updated.id,
+        status: updated.status,
+        failure_reason: updated.failure_reason,
+        appointment_status: updated.appointment_status
+      }
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error processing payment' });
+  }
+};
+
+if (paymentProvider.buildWebhook) {
+  app.post('/api/payments/:id/mock-checkout', authenticate, mockCheckout);
+}
+
+// ============================================
+// EMAIL OUTBOX (Admin audit)
+// ============================================
+
+// LIST EMAILS (Admin) - ?status=FAILED&appointment_id=1
+app.get('/api/notifications/outbox', authenticate, authorize('admin'), async (req, res) => {
+  try {
+    const { status, appointment_id } = req.query;
+    const conditions = [];
+    const params = [];
+
+    if (status) {
+      params.push(status);
+      conditions.push(`status = $${params.length}`);
+    }
+    if (appointment_id) {
+      params.push(appointment_id);
+      conditions.push(`appointment_id = $${params.length}`);
+    }
+
+    const result = await pool.query(
+      `SELECT * FROM email_outbox
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY created_at DESC
+       LIMIT 200`,
+      params
+    );
+
+    res.json({
+      success: true,
+      data: result.rows
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error fetching emails' });
+  }
+});
+
+// RETRY A FAILED EMAIL (Admin)
+app.post('/api/notifications/outbox/:id/retry', authenticate, authorize('admin'), async (req, res) => {
+  try {
+    const result = await pool.query(
+      `UPDATE email_outbox
+       SET status = 'PENDING', attempts = 0, next_attempt_at = NOW()
+       WHERE id = $1 AND status = 'FAILED'
+       RETURNING *`,
+      [req.params.id]
     );
 
     if (result.rows.length === 0) {
       return res.status(404).json({
         success: false,
-        message: 'Doctor not found'
+        message: 'Failed email not found'
       });
     }
 
     res.json({
       success: true,
+      message: 'Email queued for another attempt',
       data: result.rows[0]
     });
   } catch (error) {
-    res.status(500).json({ success: false, message: 'Error fetching doctor' });
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error retrying email' });
   }
 });
 
 // ============================================
-// SLOT ENDPOINTS
+// SETTINGS (Admin)
 // ============================================
 
-// CREATE SLOTS (Admin)
-app.post('/api/slots', async (req, res) => {
+const MAX_REMINDER_OFFSET_MINUTES = 30 * 24 * 60;
+
+// GET REMINDER OFFSETS (Admin)
+app.get('/api/settings/reminders', authenticate, authorize('admin'), async (req, res) => {
   try {
-    const { doctor_id, slot_date, start_time, end_time } = req.body;
+    const offsets = await getSetting('reminder_offsets_minutes', DEFAULT_REMINDER_OFFSETS);
 
-    if (!doctor_id || !slot_date || !start_time || !end_time) {
+    res.json({
+      success: true,
+      data: { offsets_minutes: offsets }
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error fetching reminder settings' });
+  }
+});
+
+// UPDATE REMINDER OFFSETS (Admin) - { offsets_minutes: [1440, 120] }
+// An empty list turns reminders off
+app.put('/api/settings/reminders', authenticate, authorize('admin'), async (req, res) => {
+  try {
+    const { offsets_minutes } = req.body;
+
+    const isValid = Array.isArray(offsets_minutes) && offsets_minutes.every((offset) =>
+      Number.isInteger(offset) && offset > 0 && offset <= MAX_REMINDER_OFFSET_MINUTES
+    );
+
+    if (!isValid) {
+      return res.status(400).json({
+        success: false,
+        message: `offsets_minutes must be a list of whole minutes between 1 and ${MAX_REMINDER_OFFSET_MINUTES}`
+      });
+    }
+
+    // Largest offset first, without duplicates
+    const offsets = await setSetting(
+      'reminder_offsets_minutes',
+      [...new Set(offsets_minutes)].sort((a, b) => b - a)
+    );
+
+    res.json({
+      success: true,
+      message: 'Reminder settings saved',
+      data: { offsets_minutes: offsets }
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error saving reminder settings' });
+  }
+});
+
+const isValidHoldMinutes = (minutes) =>
+  Number.isInteger(minutes) && minutes > 0 && minutes <= MAX_PENDING_HOLD_MINUTES;
+
+// GET PENDING HOLD WINDOW (Admin) - global value plus per-doctor overrides
+app.get('/api/settings/hold', authenticate, authorize('admin'), async (req, res) => {
+  try {
+    const holdMinutes = await getSetting('pending_hold_minutes', DEFAULT_PENDING_HOLD_MINUTES);
+    const doctors = await pool.query(
+      'SELECT id, name, pending_hold_minutes FROM doctors ORDER BY name ASC'
+    );
+
+    res.json({
+      success: true,
+      data: {
+        pending_hold_minutes: holdMinutes,
+        doctors: doctors.rows
+      }
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error fetching hold settings' });
+  }
+});
+
+// UPDATE GLOBAL PENDING HOLD WINDOW (Admin) - { pending_hold_minutes: 5 }
+// Applies to new bookings; existing ones keep their expires_at
+app.put('/api/settings/hold', authenticate, authorize('admin'), async (req, res) => {
+  try {
+    const { pending_hold_minutes } = req.body;
+
+    if (!isValidHoldMinutes(pending_hold_minutes)) {
+      return res.status(400).json({
+        success: false,
+        message: `pending_hold_minutes must be a whole number between 1 and ${MAX_PENDING_HOLD_MINUTES}`
+      });
+    }
+
+    const holdMinutes = await setSetting('pending_hold_minutes', pending_hold_minutes);
+
+    res.json({
+      success: true,
+      message: 'Hold window saved',
+      data: { pending_hold_minutes: holdMinutes }
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error saving hold settings' });
+  }
+});
+
+// SET ONE DOCTOR'S PENDING HOLD WINDOW (Admin) - null goes back to the global value
+app.put('/api/settings/hold/doctors/:id', authenticate, authorize('admin'), async (req, res) => {
+  try {
+    const { pending_hold_minutes } = req.body;
+
+    if (pending_hold_minutes !== null && !isValidHoldMinutes(pending_hold_minutes)) {
       return res.status(400).json({
         success: false,
-        message: 'All fields are required'
+        message: `pending_hold_minutes must be null or a whole number between 1 and ${MAX_PENDING_HOLD_MINUTES}`
       });
     }
 
     const result = await pool.query(
-      'INSERT INTO slots (doctor_id, slot_date, start_time, end_time) VALUES ($1, $2, $3, $4) RETURNING *',
-      [doctor_id, slot_date, start_time, end_time]
+      'UPDATE doctors SET pending_hold_minutes = $2 WHERE id = $1 RETURNING id, name, pending_hold_minutes',
+      [req.params.id, pending_hold_minutes]
     );
 
-    res.status(201).json({
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, message: 'Doctor not found' });
+    }
+
+    res.json({
       success: true,
-      message: 'Slot created successfully',
+      message: 'Doctor hold window saved',
       data: result.rows[0]
     });
   } catch (error) {
     console.error(error);
-    res.status(500).json({
-      success: false,
-      message: 'Error creating slot',
-      error: error.message
-    });
+    res.status(500).json({ success: false, message: 'Error saving doctor hold window' });
   }
 });
 
-// GET AVAILABLE SLOTS
-app.get('/api/slots/available', async (req, res) => {
+// GET BOOKING LIMITS (Admin) - per patient and doctor, null = no limit
+app.get('/api/settings/booking-limits', authenticate, authorize('admin'), async (req, res) => {
   try {
-    const { doctor_id } = req.query;
-
-    let query = `
-      SELECT s.*, d.name as doctor_name, d.specialty, d.consultation_fee
-      FROM slots s
-      JOIN doctors d ON s.doctor_id = d.id
-      WHERE s.is_booked = FALSE
-      AND s.slot_date >= CURRENT_DATE
-    `;
-    const params = [];
+    res.json({
+      success: true,
+      data: await getBookingLimits()
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error fetching booking limits' });
+  }
+});
 
-    if (doctor_id) {
-      query += ' AND s.doctor_id = $1';
-      params.push(doctor_id);
+// UPDATE BOOKING LIMITS (Admin) - { max_pending_per_doctor: 1, max_upcoming_per_doctor: null }
+// Only checked on new bookings; nobody loses appointments they already have
+app.put('/api/settings/booking-limits', authenticate, authorize('admin'), async (req, res) => {
+  try {
+    const errors = {};
+    for (const field of Object.keys(DEFAULT_BOOKING_LIMITS)) {
+      const value = req.body[field];
+      if (value !== null && !(Number.isInteger(value) && value > 0 && value <= MAX_BOOKING_LIMIT)) {
+        errors[field] = `${field} must be null or a whole number between 1 and ${MAX_BOOKING_LIMIT}`;
+      }
     }
 
-    query += ' ORDER BY s.slot_date ASC, s.start_time ASC';
+    if (Object.keys(errors).length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(errors)[0],
+        errors
+      });
+    }
 
-    const result = await pool.query(query, params);
+    const limits = await setSetting('booking_limits', {
+      max_pending_per_doctor: req.body.max_pending_per_doctor,
+      max_upcoming_per_doctor: req.body.max_upcoming_per_doctor
+    });
 
     res.json({
       success: true,
-      message: 'Available slots retrieved',
-      data: result.rows
+      message: 'Booking limits saved',
+      data: limits
     });
   } catch (error) {
     console.error(error);
-    res.status(500).json({
-      success: false,
-      message: 'Error fetching slots'
-    });
+    res.status(500).json({ success: false, message: 'Error saving booking limits' });
   }
 });
 
 // ============================================
-// APPOINTMENT ENDPOINTS (CONCURRENCY SAFE)
+// CANCELLATION POLICIES (Admin)
 // ============================================
 
-// BOOK APPOINTMENT
-app.post('/api/appointments', async (req, res) => {
-  const client = await pool.connect(); // Get dedicated connection for transaction
+const POLICY_LIMITS = {
+  min_notice_hours: { min: 0, max: 24 * 14 },
+  late_notice_hours: { min: 0, max: 24 * 14 },
+  late_fee_percent: { min: 0, max: 100 },
+  max_cancellations: { min: 1, max: 100, nullable: true },
+  period_days: { min: 1, max: 365 }
+};
+const POLICY_FIELDS = Object.keys(POLICY_LIMITS);
 
-  try {
-    const { slot_id, patient_name, patient_email, patient_phone, patient_age, reason_for_visit } = req.body;
+// Check the policy rules (all required, max_cancellations may be null).
+// Returns { fields, errors }.
+const validatePolicy = (body) => {
+  const errors = {};
+  const fields = {};
 
-    // Validate input
-    if (!slot_id || !patient_name || !patient_email || !patient_phone || !patient_age || !reason_for_visit) {
-      return res.status(400).json({
-        success: false,
-        message: 'All fields are required'
-      });
+  for (const [field, limits] of Object.entries(POLICY_LIMITS)) {
+    const value = body[field];
+    if (limits.nullable && (value === null || value === '' || value === undefined)) {
+      fields[field] = null;
+      continue;
     }
-
-    // START TRANSACTION (prevents double booking)
-    await client.query('BEGIN');
-
-    // STEP 1: Lock the slot (prevents other users from booking same slot)
-    const slotCheck = await client.query(
-      'SELECT * FROM slots WHERE id = $1 FOR UPDATE',
-      [slot_id]
-    );
-
-    if (slotCheck.rows.length === 0) {
-      await client.query('ROLLBACK');
-      return res.status(404).json({
-        success: false,
-        message: 'Slot not found'
-      });
+    if (!Number.isInteger(Number(value)) || value === '' || value === null ||
+        Number(value) < limits.min || Number(value) > limits.max) {
+      errors[field] = `${field} must be a whole number between ${limits.min} and ${limits.max}`;
+      continue;
     }
+    fields[field] = Number(value);
+  }
 
-    const slot = slotCheck.rows[0];
+  if (!errors.min_notice_hours && !errors.late_notice_hours && fields.late_notice_hours < fields.min_notice_hours) {
+    errors.late_notice_hours = 'The late cancellation window can\'t be shorter than the minimum notice';
+  }
 
-    // STEP 2: Check if slot is already booked
-    if (slot.is_booked) {
-      await client.query('ROLLBACK');
-      return res.status(409).json({
-        success: false,
-        message: 'Slot is already booked! Please select another slot.'
-      });
-    }
+  return { fields, errors };
+};
 
-    // STEP 3: Create appointment
-    const appointmentResult = await client.query(
-      `INSERT INTO appointments 
-       (slot_id, patient_name, patient_email, patient_phone, patient_age, reason_for_visit, status) 
-       VALUES ($1, $2, $3, $4, $5, $6, 'PENDING') 
-       RETURNING *`,
-      [slot_id, patient_name, patient_email, patient_phone, patient_age, reason_for_visit]
-    );
+const POLICY_SELECT = `cp.*, d.name as doctor_name, l.name as location_name
+  FROM cancellation_policies cp
+  LEFT JOIN doctors d ON cp.doctor_id = d.id
+  LEFT JOIN locations l ON cp.location_id = l.id`;
 
-    // STEP 4: Mark slot as booked
-    await client.query(
-      'UPDATE slots SET is_booked = TRUE WHERE id = $1',
-      [slot_id]
+// GET ALL CANCELLATION POLICIES (Admin) - the default first, then locations and doctors
+app.get('/api/cancellation-policies', authenticate, authorize('admin'), async (req, res) => {
+  try {
+    const result = await pool.query(
+      `SELECT ${POLICY_SELECT}
+       ORDER BY cp.doctor_id IS NOT NULL, cp.location_id IS NOT NULL, LOWER(COALESCE(d.name, l.name))`
     );
 
-    // COMMIT TRANSACTION (save all changes)
-    await client.query('COMMIT');
-
-    res.status(201).json({
+    res.json({
       success: true,
-      message: 'Appointment booked successfully!',
-      data: appointmentResult.rows[0]
+      data: result.rows.map((policy) => ({ ...policy, scope: policyScope(policy) }))
     });
   } catch (error) {
-    // ROLLBACK on error (undo all changes)
-    await client.query('ROLLBACK');
     console.error(error);
-    res.status(500).json({
+    res.status(500).json({ success: false, message: 'Error fetching cancellation policies' });
+  }
+});
+
+// Shared by POST (new doctor or location policy, { doctor_id } or
+// { location_id }) and PUT /api/cancellation-policies/:id (rules only)
+const saveCancellationPolicy = async (req, res) => {
+  const { fields, errors } = validatePolicy(req.body);
+  const doctorId = req.body.doctor_id || null;
+  const locationId = req.body.location_id || null;
+
+  if (!req.params.id && Boolean(doctorId) === Boolean(locationId)) {
+    errors.scope = 'Give either a doctor_id or a location_id';
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return res.status(400).json({
       success: false,
-      message: 'Error booking appointment',
-      error: error.message
+      message: Object.values(errors)[0],
+      errors
     });
-  } finally {
-    client.release(); // Release connection back to pool
   }
-});
 
-// CONFIRM APPOINTMENT
-app.post('/api/appointments/:id/confirm', async (req, res) => {
   try {
-    const { id } = req.params;
+    const rules = POLICY_FIELDS.map((field) => fields[field]);
+    const result = req.params.id
+      ? await pool.query(
+        `UPDATE cancellation_policies
+         SET min_notice_hours = $1, late_notice_hours = $2, late_fee_percent = $3,
+             max_cancellations = $4, period_days = $5, updated_at = NOW()
+         WHERE id = $6 RETURNING *`,
+        [...rules, req.params.id]
+      )
+      : await pool.query(
+        `INSERT INTO cancellation_policies
+         (min_notice_hours, late_notice_hours, late_fee_percent, max_cancellations, period_days, doctor_id, location_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
+        [...rules, doctorId, locationId]
+      );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, message: 'Cancellation policy not found' });
+    }
+
+    res.status(req.params.id ? 200 : 201).json({
+      success: true,
+      message: req.params.id ? 'Cancellation policy updated' : 'Cancellation policy created',
+      data: { ...result.rows[0], scope: policyScope(result.rows[0]) }
+    });
+  } catch (error) {
+    if (error.code === '23505') {
+      return res.status(409).json({
+        success: false,
+        message: `This ${doctorId ? 'doctor' : 'location'} already has a cancellation policy`
+      });
+    }
+    if (error.code === '23503') {
+      return res.status(404).json({
+        success: false,
+        message: `${doctorId ? 'Doctor' : 'Location'} not found`
+      });
+    }
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error saving cancellation policy' });
+  }
+};
 
+app.post('/api/cancellation-policies', authenticate, authorize('admin'), saveCancellationPolicy);
+app.put('/api/cancellation-policies/:id', authenticate, authorize('admin'), saveCancellationPolicy);
+
+// DELETE A DOCTOR OR LOCATION POLICY (Admin) - they fall back to the next policy up
+app.delete('/api/cancellation-policies/:id', authenticate, authorize('admin'), async (req, res) => {
+  try {
     const result = await pool.query(
-      `UPDATE appointments 
-       SET status = 'CONFIRMED', confirmation_time = NOW() 
-       WHERE id = $1 AND status = 'PENDING' 
-       RETURNING *`,
-      [id]
+      `DELETE FROM cancellation_policies
+       WHERE id = $1 AND (doctor_id IS NOT NULL OR location_id IS NOT NULL)
+       RETURNING id`,
+      [req.params.id]
     );
 
     if (result.rows.length === 0) {
       return res.status(404).json({
         success: false,
-        message: 'Appointment not found or already processed'
+        message: 'Cancellation policy not found (the default policy can only be edited)'
       });
     }
 
-    res.json({
-      success: true,
-      message: 'Appointment confirmed!',
-      data: result.rows[0]
-    });
+    res.json({ success: true, message: 'Cancellation policy deleted' });
   } catch (error) {
-    res.status(500).json({ success: false, message: 'Error confirming appointment' });
+    console.error(error);
+    res.status(500).json({ success: false, message: 'Error deleting cancellation policy' });
   }
 });
 
-// GET ALL APPOINTMENTS
-app.get('/api/appointments', async (req, res) => {
+// ============================================
+// DASHBOARD STATS (Admin)
+// ============================================
+app.get('/api/dashboard/stats', authenticate, authorize('admin'), async (req, res) => {
   try {
-    const { patient_email } = req.query;
-
-    let query = `
-      SELECT a.*, s.slot_date, s.start_time, s.end_time,
-             d.name as doctor_name, d.specialty, d.consultation_fee
-      FROM appointments a
-      JOIN slots s ON a.slot_id = s.id
-      JOIN doctors d ON s.doctor_id = d.id
-    `;
-    const params = [];
-
-    if (patient_email) {
-      query += ' WHERE a.patient_email = $1';
-      params.push(patient_email);
-    }
-
-    query += ' ORDER BY a.booking_time DESC';
+    const stats = await pool.query(`
+      SELECT 
+        (SELECT COUNT(*) FROM doctors WHERE is_active) as total_doctors,
+        (SELECT COUNT(*) FROM slots s WHERE s.is_booked = FALSE AND s.starts_at > NOW()
+          AND NOT ${SLOT_BLOCKED_BY_TIME_OFF}) as available_slots,
+        (SELECT COUNT(*) FROM appointments WHERE status = 'PENDING') as pending_appointments,
+        (SELECT COUNT(*) FROM appointments WHERE status = 'CONFIRMED') as confirmed_appointments
+    `);
 
-    const result = await pool.query(query, params);
+    // The same figures for each location
+    const locations = await pool.query(`
+      SELECT l.id, l.name,
+        (SELECT COUNT(*) FROM doctor_locations dl JOIN doctors d ON dl.doctor_id = d.id
+          WHERE dl.location_id = l.id AND d.is_active) as total_doctors,
+        (SELECT COUNT(*) FROM slots s WHERE s.location_id = l.id AND s.is_booked = FALSE
+          AND s.starts_at > NOW() AND NOT ${SLOT_BLOCKED_BY_TIME_OFF}) as available_slots,
+        (SELECT COUNT(*) FROM appointments a JOIN slots s ON a.slot_id = s.id
+          WHERE s.location_id = l.id AND a.status = 'PENDING') as pending_appointments,
+        (SELECT COUNT(*) FROM appointments a JOIN slots s ON a.slot_id = s.id
+          WHERE s.location_id = l.id AND a.status = 'CONFIRMED') as confirmed_appointments
+      FROM locations l
+      ORDER BY l.name ASC
+    `);
 
     res.json({
       success: true,
-      data: result.rows
+      data: { ...stats.rows[0], locations: locations.rows }
     });
   } catch (error) {
-    console.error(error);
-    res.status(500).json({ success: false, message: 'Error fetching appointments' });
+    res.status(500).json({ success: false, message: 'Error fetching stats' });
   }
 });
 
-// CANCEL APPOINTMENT
-app.post('/api/appointments/:id/cancel', async (req, res) => {
+// ============================================
+// AUTO-EXPIRE PENDING BOOKINGS (Background Job)
+// ============================================
+setInterval(async () => {
   const client = await pool.connect();
 
   try {
-    const { id } = req.params;
-
     await client.query('BEGIN');
 
-    // Get appointment details
-    const appointmentResult = await client.query(
-      'SELECT * FROM appointments WHERE id = $1',
-      [id]
+    const due = await client.query(
+      "SELECT id FROM appointments WHERE status = 'PENDING' AND expires_at <= NOW()"
     );
 
-    if (appointmentResult.rows.length === 0) {
-      await client.query('ROLLBACK');
-      return res.status(404).json({ success: false, message: 'Appointment not found' });
-    }
-
-    const appointment = appointmentResult.rows[0];
-
-    // Update appointment status
-    await client.query(
-      "UPDATE appointments SET status = 'CANCELLED' WHERE id = $1",
-      [id]
+    const expired = await transitionAppointments(
+      client,
+      due.rows.map((appointment) => appointment.id),
+      'FAILED',
+      { note: 'Not confirmed in time' }
     );
+    const slotIds = await releaseAppointmentSlots(client, expired.map((appointment) => appointment.id));
 
-    // Release the slot
-    await client.query(
-      'UPDATE slots SET is_booked = FALSE WHERE id = $1',
-      [appointment.slot_id]
-    );
+    for (const appointment of expired) {
+      await queueAppointmentEmail(client, appointment.id, 'appointment_expired');
+      await settleCancelledPayment(client, appointment, { reason: 'Booking expired' });
+      await closeMeeting(client, meetingProvider, appointment.id);
+    }
 
     await client.query('COMMIT');
 
-    res.json({
-      success: true,
-      message: 'Appointment cancelled successfully'
-    });
+    if (expired.length > 0) {
+      console.log(`✅ Expired ${expired.length} pending bookings`);
+    }
+
+    for (const slotId of slotIds) {
+      await offerSlotToWaitlist(slotId);
+    }
+    announceSlots('released', slotIds);
   } catch (error) {
     await client.query('ROLLBACK');
-    console.error(error);
-    res.status(500).json({ success: false, message: 'Error cancelling appointment' });
+    console.error('Error expiring bookings:', error);
   } finally {
     client.release();
   }
-});
+}, 60000); // Run every 1 minute
 
 // ============================================
-// DASHBOARD STATS (Admin)
+// EXPIRE WAITLIST OFFERS (Background Job)
 // ============================================
-app.get('/api/dashboard/stats', async (req, res) => {
+setInterval(async () => {
   try {
-    const stats = await pool.query(`
-      SELECT 
-        (SELECT COUNT(*) FROM doctors) as total_doctors,
-        (SELECT COUNT(*) FROM slots WHERE is_booked = FALSE AND slot_date >= CURRENT_DATE) as available_slots,
-        (SELECT COUNT(*) FROM appointments WHERE status = 'PENDING') as pending_appointments,
-        (SELECT COUNT(*) FROM appointments WHERE status = 'CONFIRMED') as confirmed_appointments
+    // Unused holds lapse and the slot moves on to the next waiting patient
+    const result = await pool.query(`
+      WITH expired_offers AS (
+        UPDATE waitlist_entries
+        SET status = 'EXPIRED'
+        WHERE status = 'OFFERED'
+        AND offer_expires_at <= NOW()
+        RETURNING offered_slot_id
+      )
+      UPDATE slots
+      SET hold_user_id = NULL, hold_expires_at = NULL, hold_kind = NULL
+      WHERE id IN (SELECT offered_slot_id FROM expired_offers) AND hold_kind = 'waitlist'
+      RETURNING id
     `);
 
-    res.json({
-      success: true,
-      data: stats.rows[0]
-    });
+    for (const slot of result.rows) {
+      await offerSlotToWaitlist(slot.id);
+    }
+    announceSlots('released', result.rows.map((slot) => slot.id));
   } catch (error) {
-    res.status(500).json({ success: false, message: 'Error fetching stats' });
+    console.error('Error expiring waitlist offers:', error);
   }
-});
+}, 60000); // Run every 1 minute
 
 // ============================================
-// AUTO-EXPIRE PENDING BOOKINGS (Background Job)
+// EXPIRE BOOKING HOLDS (Background Job)
 // ============================================
 setInterval(async () => {
   try {
+    // Patients who left the booking form without booking or changing slot
     const result = await pool.query(`
-      WITH expired_appointments AS (
-        UPDATE appointments
-        SET status = 'FAILED'
-        WHERE status = 'PENDING'
-        AND booking_time < NOW() - INTERVAL '2 minutes'
-        RETURNING slot_id
-      )
       UPDATE slots
-      SET is_booked = FALSE
-      WHERE id IN (SELECT slot_id FROM expired_appointments)
+      SET hold_user_id = NULL, hold_expires_at = NULL, hold_kind = NULL
+      WHERE hold_kind = 'booking' AND hold_expires_at <= NOW()
+      RETURNING id
     `);
 
-    if (result.rowCount > 0) {
-      console.log(`✅ Expired ${result.rowCount} pending bookings`);
+    announceSlots('released', result.rows.map((slot) => slot.id));
+  } catch (error) {
+    console.error('Error expiring booking holds:', error);
+  }
+}, 30000); // Run every 30 seconds
+
+// ============================================
+// PURGE IDEMPOTENCY KEYS (Background Job)
+// ============================================
+setInterval(async () => {
+  try {
+    await purgeIdempotencyKeys(pool);
+  } catch (error) {
+    console.error('Error purging idempotency keys:', error);
+  }
+}, 60 * 60 * 1000); // Run every hour
+
+// ============================================
+// APPOINTMENT REMINDERS (Background Job)
+// ============================================
+const sendDueReminders = async () => {
+  const client = await pool.connect();
+
+  try {
+    const offsets = await getSetting('reminder_offsets_minutes', DEFAULT_REMINDER_OFFSETS);
+    if (offsets.length === 0) return;
+
+    await client.query('BEGIN');
+
+    const appointmentIds = await claimDueReminders(client, offsets);
+
+    for (const appointmentId of appointmentIds) {
+      await queueAppointmentEmail(client, appointmentId, 'appointment_reminder');
+    }
+
+    await client.query('COMMIT');
+
+    if (appointmentIds.length > 0) {
+      console.log(`✅ Queued ${appointmentIds.length} appointment reminders`);
     }
   } catch (error) {
-    console.error('Error expiring bookings:', error);
+    await client.query('ROLLBACK');
+    console.error('Error sending reminders:', error);
+  } finally {
+    client.release();
   }
-}, 60000); // Run every 1 minute
+};
+
+setInterval(sendDueReminders, 60000); // Run every 1 minute
+
+// ============================================
+// SEND QUEUED EMAILS (Background Job)
+// ============================================
+setInterval(async () => {
+  try {
+    const { sent } = await processOutbox(pool, emailTransport);
+
+    if (sent > 0) {
+      console.log(`✅ Sent ${sent} emails`);
+    }
+  } catch (error) {
+    console.error('Error sending emails:', error);
+  }
+}, 30000); // Run every 30 seconds
+
+// ============================================
+// GENERATE SLOTS FROM TEMPLATES (Background Job)
+// ============================================
+const generateTemplateSlots = async () => {
+  try {
+    const templates = await pool.query(
+      `SELECT t.*, ${TEMPLATE_LOCATION} AS effective_location_id, ${TEMPLATE_TIMEZONE} AS timezone
+       FROM availability_templates t
+       JOIN doctors d ON t.doctor_id = d.id
+       WHERE d.is_active = TRUE`
+    );
+    const slots = buildSlotsFromTemplates(templates.rows, SLOT_GENERATION_WEEKS);
+    const createdIds = await insertGeneratedSlots(pool, slots);
+    announceSlots('created', createdIds);
+
+    if (createdIds.length > 0) {
+      console.log(`✅ Generated ${createdIds.length} slots from availability templates`);
+    }
+  } catch (error) {
+    console.error('Error generating template slots:', error);
+  }
+};
+
+dbReady.then(generateTemplateSlots);
+setInterval(generateTemplateSlots, 60 * 60 * 1000); // Run every hour
 
 // ============================================
 // START SERVER
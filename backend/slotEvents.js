@@ -0,0 +1,57 @@
+// ============================================
+// SLOT EVENTS
+// ============================================
+// Browsers keep a Server-Sent Events stream open (GET /api/slots/events) and
+// hear about slots as they are created, booked, held or released, or when
+// the appointment on them changes status (slot.updated: confirmed, completed,
+// ...), so booking pages and the admin stats stay current without reloading.
+// Events only carry slot and doctor ids. They live in this process only: a
+// browser that reconnects should reload what it shows instead of expecting
+// missed events.
+
+const SLOT_EVENT_TYPES = ['slot.created', 'slot.booked', 'slot.held', 'slot.released', 'slot.updated'];
+const HEARTBEAT_MS = 25 * 1000;
+
+const createSlotEventHub = () => {
+  const clients = new Set();
+  let nextId = 1;
+
+  // Send an event to every open stream
+  const publish = (type, data) => {
+    if (!SLOT_EVENT_TYPES.includes(type)) {
+      throw new Error(`Unknown slot event: ${type}`);
+    }
+
+    const message = `id: ${nextId++}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+    for (const res of clients) {
+      res.write(message);
+    }
+  };
+
+  // Express handler that turns the response into an event stream
+  const subscribe = (req, res) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no' // don't let proxies hold events back
+    });
+    res.write('retry: 5000\n\n');
+    clients.add(res);
+
+    // Comments keep idle connections from being closed along the way
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      clients.delete(res);
+    });
+  };
+
+  return { publish, subscribe };
+};
+
+module.exports = {
+  SLOT_EVENT_TYPES,
+  createSlotEventHub
+};
@@ -0,0 +1,105 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { EventEmitter } = require('node:events');
+const { createSlotEventHub } = require('./slotEvents');
+
+const HEARTBEAT_MS = 25 * 1000;
+
+// A browser's stream: the request it closes and the response it receives
+const createStream = () => {
+  const req = new EventEmitter();
+  const res = {
+    status: null,
+    headers: null,
+    written: [],
+    writeHead(status, headers) {
+      this.status = status;
+      this.headers = headers;
+    },
+    write(chunk) {
+      this.written.push(chunk);
+    }
+  };
+  return { req, res, close: () => req.emit('close') };
+};
+
+const eventsIn = (res) => res.written.filter((chunk) => chunk.startsWith('id: '));
+
+test('subscribe opens an event stream', () => {
+  const hub = createSlotEventHub();
+  const { req, res, close } = createStream();
+
+  hub.subscribe(req, res);
+
+  assert.equal(res.status, 200);
+  assert.equal(res.headers['Content-Type'], 'text/event-stream');
+  assert.equal(res.headers['Cache-Control'], 'no-cache');
+  assert.deepEqual(res.written, ['retry: 5000\n\n']);
+  close();
+});
+
+test('publish sends each event to every open stream, numbered', () => {
+  const hub = createSlotEventHub();
+  const first = createStream();
+  const second = createStream();
+  hub.subscribe(first.req, first.res);
+  hub.subscribe(second.req, second.res);
+
+  hub.publish('slot.booked', { slots: [{ id: 4, doctor_id: 3 }] });
+  hub.publish('slot.released', { slots: [{ id: 5, doctor_id: 3 }] });
+
+  const expected = [
+    'id: 1\nevent: slot.booked\ndata: {"slots":[{"id":4,"doctor_id":3}]}\n\n',
+    'id: 2\nevent: slot.released\ndata: {"slots":[{"id":5,"doctor_id":3}]}\n\n'
+  ];
+  assert.deepEqual(eventsIn(first.res), expected);
+  assert.deepEqual(eventsIn(second.res), expected);
+  first.close();
+  second.close();
+});
+
+test('a stream only hears events published after it opened', () => {
+  const hub = createSlotEventHub();
+  hub.publish('slot.created', { slots: [{ id: 1, doctor_id: 3 }] });
+
+  const { req, res, close } = createStream();
+  hub.subscribe(req, res);
+  hub.publish('slot.held', { slots: [{ id: 2, doctor_id: 3 }] });
+
+  assert.deepEqual(eventsIn(res).map((chunk) => chunk.split('\n')[1]), ['event: slot.held']);
+  close();
+});
+
+test('publish refuses unknown event types', () => {
+  const hub = createSlotEventHub();
+  assert.throws(() => hub.publish('slot.deleted', { slots: [] }), /Unknown slot event: slot.deleted/);
+});
+
+test('heartbeats keep an idle stream open', (t) => {
+  t.mock.timers.enable({ apis: ['setInterval'] });
+  const hub = createSlotEventHub();
+  const { req, res, close } = createStream();
+  hub.subscribe(req, res);
+
+  t.mock.timers.tick(HEARTBEAT_MS * 2);
+
+  assert.deepEqual(res.written.slice(1), [': ping\n\n', ': ping\n\n']);
+  close();
+});
+
+test('a closed stream gets no more events or heartbeats', (t) => {
+  t.mock.timers.enable({ apis: ['setInterval'] });
+  const hub = createSlotEventHub();
+  const gone = createStream();
+  const open = createStream();
+  hub.subscribe(gone.req, gone.res);
+  hub.subscribe(open.req, open.res);
+
+  gone.close();
+  hub.publish('slot.updated', { slots: [{ id: 4, doctor_id: 3 }] });
+  t.mock.timers.tick(HEARTBEAT_MS);
+
+  assert.deepEqual(gone.res.written, ['retry: 5000\n\n']);
+  assert.equal(eventsIn(open.res).length, 1);
+  open.close();
+});
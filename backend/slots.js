@@ -0,0 +1,192 @@
+// ============================================
+// SLOTS
+// ============================================
+// Helpers for deciding which slots can be booked, shared by the booking,
+// hold and reschedule endpoints. The functions take a db (pool or
+// transaction client) like the rest of the backend modules.
+
+const SLOT_HOLD_MINUTES = parseInt(process.env.SLOT_HOLD_MINUTES, 10) || 5; // while the booking form is filled in
+
+// ============================================
+// TIMES
+// ============================================
+
+// "09:30" or "09:30:00" -> minutes since midnight
+const toMinutes = (time) => {
+  const [hours, minutes] = String(time).split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// minutes since midnight -> "09:30"
+const fromMinutes = (total) => {
+  const hours = String(Math.floor(total / 60)).padStart(2, '0');
+  const minutes = String(total % 60).padStart(2, '0');
+  return `${hours}:${minutes}`;
+};
+
+// ============================================
+// AVAILABILITY CONDITIONS
+// ============================================
+
+// SQL condition (slot alias "s" unless given) that is true when a doctor or
+// clinic-wide time off block overlaps the slot
+const slotBlockedByTimeOff = (alias = 's') => `
+  EXISTS (
+    SELECT 1 FROM time_off t
+    WHERE (t.doctor_id IS NULL OR t.doctor_id = ${alias}.doctor_id)
+    AND t.starts_at < ${alias}.slot_date + ${alias}.end_time
+    AND t.ends_at > ${alias}.slot_date + ${alias}.start_time
+  )
+`;
+
+const SLOT_BLOCKED_BY_TIME_OFF = slotBlockedByTimeOff();
+
+// SQL condition (slot alias "s" unless given) that is true while the slot is
+// held (for a waitlisted patient or while someone fills in the booking form)
+// for a user other than the one in the given parameter
+const slotHeldForOthers = (userParam, alias = 's') => `
+  (${alias}.hold_expires_at > NOW() AND ${alias}.hold_user_id IS DISTINCT FROM ${userParam})
+`;
+
+// ============================================
+// SLOT RUNS
+// ============================================
+// A visit longer than its start slot also takes the free slots right after
+// it (same doctor, day, location and visit mode, each starting when the one
+// before ends); they are booked and released together and listed in
+// appointment_slots.
+
+// SQL condition (slot alias "s") that is true when the free slots from s
+// onwards cover the minutes in durationParam. Slots never overlap, so that
+// is when their free time up to the end of the visit adds up to the whole
+// duration.
+const slotRunCovers = (durationParam, userParam) => `
+  (SELECT COALESCE(SUM(
+     LEAST(EXTRACT(EPOCH FROM r.end_time), EXTRACT(EPOCH FROM s.start_time) + ${durationParam}::int * 60)
+     - EXTRACT(EPOCH FROM r.start_time)
+   ), 0)
+   FROM slots r
+   WHERE r.doctor_id = s.doctor_id AND r.slot_date = s.slot_date
+   AND r.location_id IS NOT DISTINCT FROM s.location_id AND r.visit_mode = s.visit_mode
+   AND r.start_time >= s.start_time
+   AND EXTRACT(EPOCH FROM r.start_time) < EXTRACT(EPOCH FROM s.start_time) + ${durationParam}::int * 60
+   AND r.is_booked = FALSE
+   AND NOT ${slotBlockedByTimeOff('r')}
+   AND NOT ${slotHeldForOthers(userParam, 'r')}
+  ) >= ${durationParam}::int * 60
+`;
+
+// Lock the slots a visit of durationMinutes takes from firstSlot, which the
+// caller has already locked and checked. The rest are locked in time order
+// too, so bookings that overlap can't deadlock. Returns the slots, or null
+// when one is missing, booked, blocked or held for someone else.
+const lockSlotRun = async (db, firstSlot, durationMinutes, userId) => {
+  const visitEnd = toMinutes(firstSlot.start_time) + durationMinutes;
+  const run = [firstSlot];
+  if (toMinutes(firstSlot.end_time) >= visitEnd) return run;
+
+  const result = await db.query(
+    `SELECT s.*, ${SLOT_BLOCKED_BY_TIME_OFF} AS is_blocked, ${slotHeldForOthers('$6')} AS is_held
+     FROM slots s
+     WHERE s.doctor_id = $1 AND s.slot_date = $2 AND s.location_id IS NOT DISTINCT FROM $3
+     AND s.start_time >= $4 AND s.start_time < $5
+     ORDER BY s.start_time ASC
+     FOR UPDATE OF s`,
+    [
+      firstSlot.doctor_id,
+      firstSlot.slot_date,
+      firstSlot.location_id,
+      firstSlot.end_time,
+      fromMinutes(Math.min(visitEnd, 24 * 60)),
+      userId
+    ]
+  );
+
+  for (const slot of result.rows) {
+    const previous = run[run.length - 1];
+    if (slot.start_time !== previous.end_time || slot.visit_mode !== firstSlot.visit_mode ||
+        slot.is_booked || slot.is_blocked || slot.is_held) {
+      return null;
+    }
+    run.push(slot);
+    if (toMinutes(slot.end_time) >= visitEnd) return run;
+  }
+  return null;
+};
+
+// Book a run of slots for an appointment (dropping any waitlist hold on them)
+const occupySlots = async (db, appointmentId, slots) => {
+  const slotIds = slots.map((slot) => slot.id);
+  await db.query(
+    'UPDATE slots SET is_booked = TRUE, hold_user_id = NULL, hold_expires_at = NULL, hold_kind = NULL WHERE id = ANY($1)',
+    [slotIds]
+  );
+  await db.query(
+    'INSERT INTO appointment_slots (appointment_id, slot_id) SELECT $1, UNNEST($2::int[])',
+    [appointmentId, slotIds]
+  );
+};
+
+// Free every slot the given appointments took; returns the freed slot ids
+// (for the waitlist)
+const releaseAppointmentSlots = async (db, appointmentIds) => {
+  const result = await db.query(
+    `UPDATE slots SET is_booked = FALSE
+     WHERE id IN (SELECT slot_id FROM appointment_slots WHERE appointment_id = ANY($1::int[]))
+     RETURNING id`,
+    [appointmentIds]
+  );
+  return result.rows.map((slot) => slot.id);
+};
+
+// ============================================
+// BOOKING HOLDS
+// ============================================
+// Picking a slot holds it (and the rest of a longer visit's slots) for the
+// patient for SLOT_HOLD_MINUTES while they fill in the booking form. Others
+// don't see held slots (see slotHeldForOthers); a patient has one booking
+// hold at a time, and booking, "Change Slot" or the timeout ends it. A slot
+// already held for the patient from the waitlist keeps that longer hold.
+
+// Hold the slots for the user; returns when the hold ends
+const holdSlots = async (db, slotIds, userId) => {
+  await db.query(
+    `UPDATE slots
+     SET hold_user_id = $2, hold_kind = 'booking', hold_expires_at = NOW() + make_interval(mins => $3)
+     WHERE id = ANY($1::int[])
+     AND NOT (hold_kind = 'waitlist' AND hold_user_id = $2 AND hold_expires_at > NOW())`,
+    [slotIds, userId, SLOT_HOLD_MINUTES]
+  );
+  const held = await db.query(
+    'SELECT MIN(hold_expires_at) AS hold_expires_at FROM slots WHERE id = ANY($1::int[])',
+    [slotIds]
+  );
+  return held.rows[0].hold_expires_at;
+};
+
+// End the user's booking holds (all of them, or the ones not in keepIds);
+// returns the slot ids that were freed
+const releaseBookingHolds = async (db, userId, keepIds = []) => {
+  const result = await db.query(
+    `UPDATE slots SET hold_user_id = NULL, hold_expires_at = NULL, hold_kind = NULL
+     WHERE hold_user_id = $1 AND hold_kind = 'booking' AND NOT (id = ANY($2::int[]))
+     RETURNING id`,
+    [userId, keepIds]
+  );
+  return result.rows.map((slot) => slot.id);
+};
+
+module.exports = {
+  SLOT_HOLD_MINUTES,
+  toMinutes,
+  fromMinutes,
+  slotBlockedByTimeOff,
+  SLOT_BLOCKED_BY_TIME_OFF,
+  slotHeldForOthers,
+  slotRunCovers,
+  lockSlotRun,
+  occupySlots,
+  releaseAppointmentSlots,
+  holdSlots,
+  releaseBookingHolds
+};
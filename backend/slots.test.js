@@ -0,0 +1,206 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  SLOT_HOLD_MINUTES,
+  toMinutes,
+  fromMinutes,
+  lockSlotRun,
+  occupySlots,
+  holdSlots,
+  releaseBookingHolds
+} = require('./slots');
+const { createFakeDb } = require('./testing/fakeDb');
+
+// A 30 minute video slot of doctor 3 on 2030-01-07, starting at start
+const createSlot = (id, start, overrides = {}) => ({
+  id,
+  doctor_id: 3,
+  slot_date: '2030-01-07',
+  location_id: null,
+  visit_mode: 'video',
+  start_time: `${start}:00`,
+  end_time: `${fromMinutes(toMinutes(start) + 30)}:00`,
+  is_booked: false,
+  is_blocked: false,
+  is_held: false,
+  ...overrides
+});
+
+// Answers lockSlotRun's query with the given slots (the ones after the first)
+const createRunDb = (rows) => createFakeDb([[/FROM slots s/, () => rows]]);
+
+test('toMinutes and fromMinutes convert both ways', () => {
+  assert.equal(toMinutes('09:30'), 570);
+  assert.equal(toMinutes('09:30:00'), 570);
+  assert.equal(fromMinutes(570), '09:30');
+  assert.equal(fromMinutes(0), '00:00');
+});
+
+// ============================================
+// SLOT RUNS
+// ============================================
+
+test('a visit that fits in its slot takes only that slot', async () => {
+  const db = createRunDb([]);
+  const first = createSlot(1, '09:00');
+
+  assert.deepEqual(await lockSlotRun(db, first, 30, 7), [first]);
+  assert.deepEqual(await lockSlotRun(db, first, 20, 7), [first]);
+  assert.equal(db.queries.length, 0);
+});
+
+test('a longer visit takes the consecutive slots after it', async () => {
+  const first = createSlot(1, '09:00');
+  const db = createRunDb([createSlot(2, '09:30'), createSlot(3, '10:00')]);
+
+  const run = await lockSlotRun(db, first, 90, 7);
+  assert.deepEqual(run.map((slot) => slot.id), [1, 2, 3]);
+  assert.deepEqual(db.queries[0].params, [3, '2030-01-07', null, '09:30:00', '10:30', 7]);
+});
+
+test('the run stops at the slot that covers the end of the visit', async () => {
+  const db = createRunDb([createSlot(2, '09:30'), createSlot(3, '10:00')]);
+
+  const run = await lockSlotRun(db, createSlot(1, '09:00'), 45, 7);
+  assert.deepEqual(run.map((slot) => slot.id), [1, 2]);
+});
+
+test('a gap between slots breaks the run', async () => {
+  const db = createRunDb([createSlot(2, '09:30'), createSlot(3, '10:15')]);
+  assert.equal(await lockSlotRun(db, createSlot(1, '09:00'), 90, 7), null);
+});
+
+test('a slot with another visit mode breaks the run', async () => {
+  const db = createRunDb([createSlot(2, '09:30', { visit_mode: 'in_person' })]);
+  assert.equal(await lockSlotRun(db, createSlot(1, '09:00'), 60, 7), null);
+});
+
+test('booked, blocked or held slots break the run', async () => {
+  for (const taken of [{ is_booked: true }, { is_blocked: true }, { is_held: true }]) {
+    const db = createRunDb([createSlot(2, '09:30', taken)]);
+    assert.equal(await lockSlotRun(db, createSlot(1, '09:00'), 60, 7), null);
+  }
+});
+
+test('a run that ends before the visit does is not enough', async () => {
+  const db = createRunDb([createSlot(2, '09:30')]);
+  assert.equal(await lockSlotRun(db, createSlot(1, '09:00'), 90, 7), null);
+  assert.equal(await lockSlotRun(createRunDb([]), createSlot(1, '09:00'), 60, 7), null);
+});
+
+test('a visit running past midnight looks no further than the end of the day', async () => {
+  const db = createRunDb([createSlot(2, '23:30')]);
+
+  assert.equal(await lockSlotRun(db, createSlot(1, '23:00'), 120, 7), null);
+  assert.equal(db.queries[0].params[4], '24:00');
+});
+
+// ============================================
+// BOOKING HOLDS
+// ============================================
+
+// The slots table in memory, answering the hold, run and booking queries.
+// Times are minutes on the database clock, which advance() moves on.
+const createSlotsDb = (slots) => {
+  let now = 0;
+  const rows = slots.map((slot) => ({ hold_user_id: null, hold_kind: null, hold_expires_at: null, ...slot }));
+  const byIds = (ids) => rows.filter((row) => ids.includes(row.id));
+  const heldForOthers = (row, userId) => row.hold_expires_at > now && row.hold_user_id !== userId;
+
+  const db = createFakeDb([
+    [/^SELECT s\.\*/, ([doctorId, slotDate, locationId, from, to, userId]) => rows
+      .filter((row) => row.doctor_id === doctorId && row.slot_date === slotDate && row.location_id === locationId &&
+        toMinutes(row.start_time) >= toMinutes(from) && toMinutes(row.start_time) < toMinutes(to))
+      .sort((a, b) => toMinutes(a.start_time) - toMinutes(b.start_time))
+      .map((row) => ({ ...row, is_blocked: false, is_held: heldForOthers(row, userId) }))],
+    [/^UPDATE slots\s+SET hold_user_id = \$2/, ([ids, userId, minutes]) => {
+      for (const row of byIds(ids)) {
+        if (!(row.hold_kind === 'waitlist' && row.hold_user_id === userId && row.hold_expires_at > now)) {
+          Object.assign(row, { hold_user_id: userId, hold_kind: 'booking', hold_expires_at: now + minutes });
+        }
+      }
+      return [];
+    }],
+    [/^SELECT MIN\(hold_expires_at\)/, ([ids]) => [{
+      hold_expires_at: Math.min(...byIds(ids).map((row) => row.hold_expires_at))
+    }]],
+    [/^UPDATE slots SET hold_user_id = NULL/, ([userId, keepIds]) => rows
+      .filter((row) => row.hold_user_id === userId && row.hold_kind === 'booking' && !keepIds.includes(row.id))
+      .map((row) => {
+        Object.assign(row, { hold_user_id: null, hold_kind: null, hold_expires_at: null });
+        return { id: row.id };
+      })],
+    [/^UPDATE slots SET is_booked = TRUE/, ([ids]) => {
+      for (const row of byIds(ids)) {
+        Object.assign(row, { is_booked: true, hold_user_id: null, hold_kind: null, hold_expires_at: null });
+      }
+      return [];
+    }],
+    [/^INSERT INTO appointment_slots/, () => []]
+  ]);
+
+  db.slot = (id) => rows.find((row) => row.id === id);
+  db.advance = (minutes) => { now += minutes; };
+  return db;
+};
+
+const twoSlots = () => [createSlot(1, '09:00'), createSlot(2, '09:30')];
+
+test('a hold keeps the slots from other users until it runs out', async () => {
+  const db = createSlotsDb(twoSlots());
+
+  assert.equal(await holdSlots(db, [1, 2], 7), SLOT_HOLD_MINUTES);
+  assert.equal(await lockSlotRun(db, db.slot(1), 60, 8), null);
+  assert.equal((await lockSlotRun(db, db.slot(1), 60, 7)).length, 2);
+
+  db.advance(SLOT_HOLD_MINUTES);
+  assert.equal((await lockSlotRun(db, db.slot(1), 60, 8)).length, 2);
+});
+
+test('another user takes over a hold that ran out', async () => {
+  const db = createSlotsDb(twoSlots());
+  await holdSlots(db, [1], 7);
+  db.advance(SLOT_HOLD_MINUTES + 1);
+
+  assert.equal(await holdSlots(db, [1], 8), 2 * SLOT_HOLD_MINUTES + 1);
+  assert.equal(db.slot(1).hold_user_id, 8);
+  assert.equal(db.slot(1).hold_kind, 'booking');
+});
+
+test("holding a slot keeps the user's own waitlist hold on it", async () => {
+  const db = createSlotsDb([
+    createSlot(1, '09:00', { hold_user_id: 7, hold_kind: 'waitlist', hold_expires_at: 15 }),
+    createSlot(2, '09:30')
+  ]);
+
+  assert.equal(await holdSlots(db, [1, 2], 7), SLOT_HOLD_MINUTES);
+  assert.equal(db.slot(1).hold_kind, 'waitlist');
+  assert.equal(db.slot(1).hold_expires_at, 15);
+  assert.equal(db.slot(2).hold_kind, 'booking');
+});
+
+test("releasing holds frees the user's booking holds except the kept ones", async () => {
+  const db = createSlotsDb([
+    ...twoSlots(),
+    createSlot(3, '10:00', { hold_user_id: 7, hold_kind: 'waitlist', hold_expires_at: 15 }),
+    createSlot(4, '10:30')
+  ]);
+  await holdSlots(db, [1, 2], 7);
+  await holdSlots(db, [4], 8);
+
+  assert.deepEqual(await releaseBookingHolds(db, 7, [2]), [1]);
+  assert.deepEqual(await releaseBookingHolds(db, 7), [2]);
+  assert.equal(db.slot(3).hold_kind, 'waitlist');
+  assert.equal(db.slot(4).hold_user_id, 8);
+});
+
+test('booking takes the slots over from their hold', async () => {
+  const db = createSlotsDb(twoSlots());
+  await holdSlots(db, [1, 2], 7);
+
+  await occupySlots(db, 42, [db.slot(1), db.slot(2)]);
+  assert.equal(db.slot(1).is_booked, true);
+  assert.equal(db.slot(2).hold_user_id, null);
+  assert.deepEqual(await releaseBookingHolds(db, 7), []);
+  assert.deepEqual(db.queries.at(-2).params, [42, [1, 2]]);
+});
@@ -0,0 +1,26 @@
+// Stand-in for a pg pool or client in unit tests. Handlers are
+// [pattern, answer] pairs: the first pattern that matches the SQL answers
+// the query with answer(params), either the rows or a whole result. Every
+// query is kept in queries, and one no handler expects fails the test.
+const createFakeDb = (handlers = []) => {
+  const queries = [];
+
+  return {
+    queries,
+    query: async (sql, params = []) => {
+      queries.push({ sql, params });
+
+      const handler = handlers.find(([pattern]) => pattern.test(sql));
+      if (!handler) {
+        throw new Error(`Unexpected query: ${sql}`);
+      }
+
+      const answer = await handler[1](params, sql);
+      return Array.isArray(answer)
+        ? { rows: answer, rowCount: answer.length }
+        : { rows: [], rowCount: 0, ...answer };
+    }
+  };
+};
+
+module.exports = { createFakeDb };
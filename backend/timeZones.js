@@ -0,0 +1,71 @@
+// ============================================
+// TIME ZONES
+// ============================================
+// Slots are entered on a timezone's wall clock (slot_date, start_time) and
+// stored as moments too (starts_at). The database works the moments out with
+// (slot_date + start_time) AT TIME ZONE tz; wallClockToMoment does the same
+// in JavaScript, for checks made before anything is stored. Around daylight
+// saving changes it resolves times the way PostgreSQL does: a time skipped
+// by the clocks going forward counts on the offset from before the change
+// (02:30 becomes 03:30 summer time), and a time the clocks pass twice going
+// back is the later of the two (standard time).
+
+const { toMinutes } = require('./slots');
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Calendar day and minutes since midnight of a moment on a timezone's
+// wall clock, e.g. { date: '2025-03-09', minutes: 570 }
+const wallClockIn = (timeZone, moment = new Date()) => {
+  const parts = {};
+  new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(moment).forEach((part) => { parts[part.type] = part.value; });
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute)
+  };
+};
+
+// The wall clock read as if it were UTC, in milliseconds
+const wallClockAsUtc = (date, minutes) => new Date(`${date}T00:00:00Z`).getTime() + minutes * MINUTE_MS;
+
+// How far a timezone's wall clock is ahead of UTC at a moment, in milliseconds
+const offsetAt = (timeZone, time) => {
+  const wall = wallClockIn(timeZone, new Date(time));
+  return wallClockAsUtc(wall.date, wall.minutes) - Math.floor(time / MINUTE_MS) * MINUTE_MS;
+};
+
+// "2025-03-09" + "09:30" on a timezone's wall clock -> the Date it happens at
+const wallClockToMoment = (date, time, timeZone) => {
+  const minutes = toMinutes(time);
+  const asUtc = wallClockAsUtc(date, minutes);
+
+  // A day is longer than any daylight saving change, so the offsets a day
+  // either side are the ones before and after a change on this date
+  const offsetBefore = offsetAt(timeZone, asUtc - DAY_MS);
+  const offsetAfter = offsetAt(timeZone, asUtc + DAY_MS);
+
+  const matches = [...new Set([asUtc - offsetBefore, asUtc - offsetAfter])].filter((time) => {
+    const wall = wallClockIn(timeZone, new Date(time));
+    return wall.date === date && wall.minutes === minutes;
+  });
+
+  if (matches.length === 0) {
+    return new Date(asUtc - offsetBefore);
+  }
+  return new Date(Math.max(...matches));
+};
+
+module.exports = {
+  wallClockIn,
+  wallClockToMoment
+};
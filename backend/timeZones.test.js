@@ -0,0 +1,49 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { wallClockIn, wallClockToMoment } = require('./timeZones');
+
+// In 2030 New York springs forward on March 10 and falls back on November 3
+// (at 02:00), Sydney springs forward on October 6 and falls back on April 7
+// (at 02:00 and 03:00)
+const iso = (date, time, timeZone) => wallClockToMoment(date, time, timeZone).toISOString();
+
+test('wallClockToMoment uses the offset in effect on the day', () => {
+  assert.equal(iso('2030-01-07', '09:30', 'America/New_York'), '2030-01-07T14:30:00.000Z');
+  assert.equal(iso('2030-07-01', '09:30:00', 'America/New_York'), '2030-07-01T13:30:00.000Z');
+  assert.equal(iso('2030-07-01', '09:00', 'Europe/London'), '2030-07-01T08:00:00.000Z');
+  assert.equal(iso('2030-01-07', '09:30', 'Asia/Kolkata'), '2030-01-07T04:00:00.000Z');
+  assert.equal(iso('2030-01-07', '00:00', 'UTC'), '2030-01-07T00:00:00.000Z');
+});
+
+test('times on the day the clocks go forward switch offset at the change', () => {
+  assert.equal(iso('2030-03-10', '01:30', 'America/New_York'), '2030-03-10T06:30:00.000Z');
+  assert.equal(iso('2030-03-10', '03:00', 'America/New_York'), '2030-03-10T07:00:00.000Z');
+  assert.equal(iso('2030-03-10', '09:00', 'America/New_York'), '2030-03-10T13:00:00.000Z');
+});
+
+test('a time skipped by the clocks going forward counts as the time after it, like PostgreSQL', () => {
+  assert.equal(iso('2030-03-10', '02:30', 'America/New_York'), '2030-03-10T07:30:00.000Z');
+  assert.equal(iso('2030-03-10', '02:30', 'America/New_York'), iso('2030-03-10', '03:30', 'America/New_York'));
+  assert.equal(iso('2030-10-06', '02:30', 'Australia/Sydney'), '2030-10-05T16:30:00.000Z');
+});
+
+test('a time passed twice when the clocks go back is the later one, like PostgreSQL', () => {
+  assert.equal(iso('2030-11-03', '00:30', 'America/New_York'), '2030-11-03T04:30:00.000Z');
+  assert.equal(iso('2030-11-03', '01:30', 'America/New_York'), '2030-11-03T06:30:00.000Z');
+  assert.equal(iso('2030-11-03', '02:30', 'America/New_York'), '2030-11-03T07:30:00.000Z');
+  assert.equal(iso('2030-04-07', '02:30', 'Australia/Sydney'), '2030-04-06T16:30:00.000Z');
+});
+
+test('a visit across the change lasts its real length', () => {
+  const start = wallClockToMoment('2030-03-10', '01:00', 'America/New_York');
+  const end = wallClockToMoment('2030-03-10', '04:00', 'America/New_York');
+  assert.equal((end - start) / (60 * 60 * 1000), 2);
+});
+
+test('wallClockIn reads moments back on the wall clock around the changes', () => {
+  assert.deepEqual(wallClockIn('America/New_York', new Date('2030-03-10T06:59:00Z')), { date: '2030-03-10', minutes: 119 });
+  assert.deepEqual(wallClockIn('America/New_York', new Date('2030-03-10T07:00:00Z')), { date: '2030-03-10', minutes: 180 });
+  assert.deepEqual(wallClockIn('America/New_York', new Date('2030-11-03T05:30:00Z')), { date: '2030-11-03', minutes: 90 });
+  assert.deepEqual(wallClockIn('America/New_York', new Date('2030-11-03T06:30:00Z')), { date: '2030-11-03', minutes: 90 });
+  assert.deepEqual(wallClockIn('Asia/Kolkata', new Date('2030-01-06T20:00:00Z')), { date: '2030-01-07', minutes: 90 });
+});
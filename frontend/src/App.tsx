@@ -1,36 +1,111 @@
 import React from 'react';
-import { BrowserRouter as Router, Routes, Route, Link } from 'react-router-dom';
-import { AppProvider } from './context/AppContext';
+import { BrowserRouter as Router, Routes, Route, Link, useNavigate } from 'react-router-dom';
+import { AppProvider, useAppContext } from './context/AppContext';
 import AdminDashboard from './pages/AdminDashboard';
 import UserDashboard from './pages/UserDashboard';
 import BookingPage from './pages/BookingPage';
 import MyAppointments from './pages/MyAppointments';
+import MyProfile from './pages/MyProfile';
+import DoctorPortal from './pages/DoctorPortal';
+import LoginPage from './pages/LoginPage';
+import ProtectedRoute from './components/ProtectedRoute';
 import './App.css';
 
+// Navigation links depend on who is logged in
+const NavBar: React.FC = () => {
+  const { user, logout } = useAppContext();
+  const navigate = useNavigate();
+
+  const handleLogout = async () => {
+    await logout();
+    navigate('/login');
+  };
+
+  return (
+    <nav className="navbar">
+      <div className="nav-container">
+        <h1 className="logo">🏥 Doctor Appointment System</h1>
+        <div className="nav-links">
+          <Link to="/" className="nav-link">Home</Link>
+          {user?.role === 'admin' && (
+            <Link to="/admin" className="nav-link">Admin</Link>
+          )}
+          {user?.role === 'doctor' && (
+            <Link to="/doctor" className="nav-link">My Schedule</Link>
+          )}
+          {user && (
+            <Link to="/my-appointments" className="nav-link">My Appointments</Link>
+          )}
+          {user?.role === 'patient' && (
+            <Link to="/profile" className="nav-link">My Profile</Link>
+          )}
+          {user ? (
+            <>
+              <span className="nav-user">👤 {user.name}</span>
+              <button onClick={handleLogout} className="btn-logout">Logout</button>
+            </>
+          ) : (
+            <Link to="/login" className="nav-link">Login</Link>
+          )}
+        </div>
+      </div>
+    </nav>
+  );
+};
+
 function App() {
   return (
     <AppProvider>
       <Router>
         <div className="App">
           {/* Navigation Bar */}
-          <nav className="navbar">
-            <div className="nav-container">
-              <h1 className="logo">🏥 Doctor Appointment System</h1>
-              <div className="nav-links">
-                <Link to="/" className="nav-link">Home</Link>
-                <Link to="/admin" className="nav-link">Admin</Link>
-                <Link to="/my-appointments" className="nav-link">My Appointments</Link>
-              </div>
-            </div>
-          </nav>
+          <NavBar />
 
           {/* Page Routes */}
           <div className="content">
             <Routes>
               <Route path="/" element={<UserDashboard />} />
-              <Route path="/admin" element={<AdminDashboard />} />
-              <Route path="/booking/:doctorId" element={<BookingPage />} />
-              <Route path="/my-appointments" element={<MyAppointments />} />
+              <Route path="/login" element={<LoginPage />} />
+              <Route
+                path="/admin"
+                element={
+                  <ProtectedRoute roles={['admin']}>
+                    <AdminDashboard />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/doctor"
+                element={
+                  <ProtectedRoute roles={['doctor']}>
+                    <DoctorPortal />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/booking/:doctorId"
+                element={
+                  <ProtectedRoute roles={['patient', 'admin']}>
+                    <BookingPage />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/my-appointments"
+                element={
+                  <ProtectedRoute>
+                    <MyAppointments />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/profile"
+                element={
+                  <ProtectedRoute roles={['patient']}>
+                    <MyProfile />
+                  </ProtectedRoute>
+                }
+              />
             </Routes>
           </div>
         </div>
@@ -39,4 +114,4 @@ function App() {
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,53 @@
+import React, { useState, useEffect } from 'react';
+import { getAppointmentEvents } from '../services/api';
+
+interface AppointmentEvent {
+  id: number;
+  from_status: string | null;
+  to_status: string;
+  actor_role: string;
+  actor_name: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+interface AppointmentTimelineProps {
+  appointmentId: number;
+}
+
+const describeEvent = (event: AppointmentEvent) => {
+  if (!event.from_status) return 'Booked';
+  if (event.from_status === event.to_status) return 'Updated';
+  return `${event.from_status} → ${event.to_status}`;
+};
+
+// Status history of one appointment, oldest first
+const AppointmentTimeline: React.FC<AppointmentTimelineProps> = ({ appointmentId }) => {
+  const [events, setEvents] = useState<AppointmentEvent[]>([]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getAppointmentEvents(appointmentId)
+      .then((response) => setEvents(response.data))
+      .catch((err) => setError(err.response?.data?.message || 'Error loading history'));
+  }, [appointmentId]);
+
+  if (error) return <div className="error-message">{error}</div>;
+
+  return (
+    <ol className="timeline">
+      {events.map((event) => (
+        <li key={event.id} className="timeline-item">
+          <div className="timeline-title">{describeEvent(event)}</div>
+          <div className="timeline-meta">
+            {new Date(event.created_at).toLocaleString()} · by{' '}
+            {event.actor_role === 'system' ? 'system' : event.actor_name || event.actor_role}
+          </div>
+          {event.note && <div className="timeline-note">{event.note}</div>}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default AppointmentTimeline;
@@ -0,0 +1,268 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAppContext } from '../context/AppContext';
+import {
+  AppointmentType,
+  VisitMode,
+  getAppointmentTypes,
+  createAppointmentType,
+  updateAppointmentType
+} from '../services/api';
+
+interface AppointmentTypesProps {
+  // Fixes the doctor (doctor portal); admins pick one from a list otherwise
+  fixedDoctorId?: number;
+}
+
+// Form values are kept as strings while typing
+const emptyForm = { name: '', duration_minutes: '30', fee: '', description: '', visit_mode: 'in_person' };
+
+// The kinds of visit a doctor offers. Patients choose one before a slot, and
+// a type longer than the doctor's slots books the free slots after it too.
+const AppointmentTypes: React.FC<AppointmentTypesProps> = ({ fixedDoctorId }) => {
+  const { doctors } = useAppContext();
+  const [doctorId, setDoctorId] = useState(fixedDoctorId ? String(fixedDoctorId) : '');
+  const [types, setTypes] = useState<AppointmentType[]>([]);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState('');
+
+  const loadTypes = useCallback(async () => {
+    try {
+      const response = await getAppointmentTypes(parseInt(doctorId));
+      setTypes(response.data);
+    } catch (err: any) {
+      setErrors({ form: err.response?.data?.message || 'Error loading appointment types' });
+    }
+  }, [doctorId]);
+
+  useEffect(() => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setErrors({});
+
+    if (!doctorId) {
+      setTypes([]);
+      return;
+    }
+    loadTypes();
+  }, [doctorId, loadTypes]);
+
+  const showMessage = (text: string) => {
+    setMessage(text);
+    setTimeout(() => setMessage(''), 3000);
+  };
+
+  const toInput = (values: typeof emptyForm, isActive: boolean) => ({
+    name: values.name,
+    duration_minutes: parseInt(values.duration_minutes),
+    fee: values.fee ? parseFloat(values.fee) : null,
+    description: values.description || null,
+    visit_mode: values.visit_mode as VisitMode,
+    is_active: isActive
+  });
+
+  const handleEdit = (type: AppointmentType) => {
+    setEditingId(type.id);
+    setForm({
+      name: type.name,
+      duration_minutes: String(type.duration_minutes),
+      fee: type.fee || '',
+      description: type.description || '',
+      visit_mode: type.visit_mode
+    });
+    setErrors({});
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setErrors({});
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setErrors({});
+      const editing = types.find((type) => type.id === editingId);
+      const response = editing
+        ? await updateAppointmentType(editing.doctor_id, editing.id, toInput(form, editing.is_active))
+        : await createAppointmentType(parseInt(doctorId), toInput(form, true));
+      showMessage(response.message);
+      handleCancelEdit();
+      loadTypes();
+    } catch (err: any) {
+      const data = err.response?.data;
+      setErrors(data?.errors || { form: data?.message || 'Error saving appointment type' });
+    }
+  };
+
+  // Stopping a type keeps it on the appointments already booked with it
+  const handleToggleActive = async (type: AppointmentType) => {
+    try {
+      setErrors({});
+      const response = await updateAppointmentType(type.doctor_id, type.id, {
+        name: type.name,
+        duration_minutes: type.duration_minutes,
+        fee: type.fee === null ? null : parseFloat(type.fee),
+        description: type.description,
+        visit_mode: type.visit_mode,
+        is_active: !type.is_active
+      });
+      showMessage(response.message);
+      loadTypes();
+    } catch (err: any) {
+      setErrors({ form: err.response?.data?.message || 'Error updating appointment type' });
+    }
+  };
+
+  const updateField = (field: keyof typeof emptyForm, value: string) => setForm({ ...form, [field]: value });
+
+  return (
+    <div className="form-section appointment-types-section">
+      <h2>🩺 Appointment Types</h2>
+      <p className="field-hint">
+        Without types every booking takes one slot at the consultation fee. A type longer than a slot
+        also takes the free slots right after it. Video types are booked into video slots.
+      </p>
+
+      {message && <div className="success-message">{message}</div>}
+      {errors.form && <div className="error-message">{errors.form}</div>}
+
+      {!fixedDoctorId && (
+        <div className="form-group">
+          <label>Doctor</label>
+          <select value={doctorId} onChange={(e) => setDoctorId(e.target.value)}>
+            <option value="">Choose a doctor</option>
+            {doctors.map((doctor) => (
+              <option key={doctor.id} value={doctor.id}>
+                {doctor.name} - {doctor.specialty}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {doctorId && (
+        <>
+          {types.length > 0 && (
+            <div className="table-container">
+              <table>
+                <thead>
+                  <tr>
+                    <th>Type</th>
+                    <th>Duration</th>
+                    <th>Visit</th>
+                    <th>Fee</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {types.map((type) => (
+                    <tr key={type.id} className={type.is_active ? '' : 'doctor-inactive'}>
+                      <td>
+                        <strong>{type.name}</strong>
+                        {!type.is_active && <span className="console-sub">Not offered</span>}
+                        {type.description && <span className="console-sub">{type.description}</span>}
+                      </td>
+                      <td>{type.duration_minutes} min</td>
+                      <td>{type.visit_mode === 'video' ? '📹 Video' : '🏥 In person'}</td>
+                      <td>{type.fee ? `₹${type.fee}` : 'Consultation fee'}</td>
+                      <td>
+                        <div className="doctor-actions">
+                          <button onClick={() => handleEdit(type)} className="btn-change">Edit</button>
+                          <button
+                            onClick={() => handleToggleActive(type)}
+                            className={type.is_active ? 'btn-cancel' : 'btn-confirm'}
+                          >
+                            {type.is_active ? 'Stop Offering' : 'Offer Again'}
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit}>
+            <h3>{editingId ? '✏️ Edit Appointment Type' : '➕ Add Appointment Type'}</h3>
+
+            <div className="form-row">
+              <div className="form-group">
+                <label>Name *</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => updateField('name', e.target.value)}
+                  placeholder="Follow-up"
+                  required
+                />
+                {errors.name && <span className="field-error">{errors.name}</span>}
+              </div>
+
+              <div className="form-group">
+                <label>Duration (min) *</label>
+                <input
+                  type="number"
+                  min="5"
+                  max="480"
+                  step="5"
+                  value={form.duration_minutes}
+                  onChange={(e) => updateField('duration_minutes', e.target.value)}
+                  required
+                />
+                {errors.duration_minutes && <span className="field-error">{errors.duration_minutes}</span>}
+              </div>
+
+              <div className="form-group">
+                <label>Fee (₹, blank = consultation fee)</label>
+                <input
+                  type="number"
+                  min="1"
+                  step="0.01"
+                  value={form.fee}
+                  onChange={(e) => updateField('fee', e.target.value)}
+                />
+                {errors.fee && <span className="field-error">{errors.fee}</span>}
+              </div>
+
+              <div className="form-group">
+                <label>Visit</label>
+                <select value={form.visit_mode} onChange={(e) => updateField('visit_mode', e.target.value)}>
+                  <option value="in_person">In person</option>
+                  <option value="video">Video</option>
+                </select>
+                {errors.visit_mode && <span className="field-error">{errors.visit_mode}</span>}
+              </div>
+            </div>
+
+            <div className="form-group">
+              <label>Description</label>
+              <input
+                type="text"
+                value={form.description}
+                onChange={(e) => updateField('description', e.target.value)}
+                placeholder="What the visit covers, what to bring..."
+              />
+            </div>
+
+            <div className="form-actions">
+              <button type="submit" className="btn-primary">
+                {editingId ? 'Save Type' : 'Add Type'}
+              </button>
+              {editingId && (
+                <button type="button" onClick={handleCancelEdit} className="btn-secondary">
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AppointmentTypes;
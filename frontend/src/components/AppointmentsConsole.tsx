@@ -0,0 +1,278 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAppContext } from '../context/AppContext';
+import {
+  AppointmentListItem,
+  AppointmentQuery,
+  Pagination,
+  searchAppointments,
+  bulkUpdateAppointments,
+  exportAppointments
+} from '../services/api';
+import { formatDateTime, formatSlotDate, formatTime } from '../utils/dateTime';
+
+interface AppointmentsConsoleProps {
+  onChange?: () => void;
+}
+
+type SortField = NonNullable<AppointmentQuery['sort']>;
+
+const STATUSES = ['PENDING', 'CONFIRMED', 'COMPLETED', 'NO_SHOW', 'CANCELLED', 'FAILED'];
+const PAGE_SIZE = 20;
+
+const emptyFilters = { doctor_id: '', status: '', from: '', to: '', patient: '' };
+
+const COLUMNS: { field: SortField; label: string }[] = [
+  { field: 'slot_date', label: 'Date' },
+  { field: 'patient_name', label: 'Patient' },
+  { field: 'doctor_name', label: 'Doctor' },
+  { field: 'status', label: 'Status' },
+  { field: 'booking_time', label: 'Booked' }
+];
+
+// Admin table of every appointment with server-side filters, sorting,
+// pagination and bulk confirm / cancel / export
+const AppointmentsConsole: React.FC<AppointmentsConsoleProps> = ({ onChange }) => {
+  const { doctors, setLoading } = useAppContext();
+  const [filters, setFilters] = useState(emptyFilters);
+  const [applied, setApplied] = useState(emptyFilters);
+  const [sort, setSort] = useState<SortField>('booking_time');
+  const [order, setOrder] = useState<'asc' | 'desc'>('desc');
+  const [page, setPage] = useState(1);
+  const [appointments, setAppointments] = useState<AppointmentListItem[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const query: AppointmentQuery = { ...applied, sort, order, page, limit: PAGE_SIZE };
+
+  const loadAppointments = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await searchAppointments({ ...applied, sort, order, page, limit: PAGE_SIZE });
+      setAppointments(response.data);
+      setPagination(response.pagination || null);
+      setSelected([]);
+      setError('');
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Error loading appointments');
+    } finally {
+      setLoading(false);
+    }
+  }, [applied, sort, order, page, setLoading]);
+
+  useEffect(() => {
+    loadAppointments();
+  }, [loadAppointments]);
+
+  const handleApplyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setApplied(filters);
+    setPage(1);
+  };
+
+  const handleResetFilters = () => {
+    setFilters(emptyFilters);
+    setApplied(emptyFilters);
+    setPage(1);
+  };
+
+  // Clicking the current column flips the order, a new column starts ascending
+  const handleSort = (field: SortField) => {
+    if (field === sort) {
+      setOrder(order === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSort(field);
+      setOrder('asc');
+    }
+    setPage(1);
+  };
+
+  const toggleSelected = (id: number) => {
+    setSelected(selected.includes(id) ? selected.filter((item) => item !== id) : [...selected, id]);
+  };
+
+  const allSelected = appointments.length > 0 && selected.length === appointments.length;
+
+  const handleBulk = async (action: 'confirm' | 'cancel') => {
+    if (!window.confirm(`${action === 'confirm' ? 'Confirm' : 'Cancel'} ${selected.length} appointment(s)?`)) return;
+
+    try {
+      setLoading(true);
+      const response = await bulkUpdateAppointments(action, selected);
+      setMessage(response.message);
+      setTimeout(() => setMessage(''), 5000);
+      loadAppointments();
+      onChange?.();
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Error updating appointments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Exports the selection, or every appointment matching the filters
+  const handleExport = async () => {
+    try {
+      setLoading(true);
+      const csv = await exportAppointments(query, selected.length > 0 ? selected : undefined);
+      const url = URL.createObjectURL(csv);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `appointments-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError('Error exporting appointments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="appointments-console">
+      <h2>📋 Appointments</h2>
+
+      {message && <div className="success-message">{message}</div>}
+      {error && <div className="error-message">{error}</div>}
+
+      {/* Filters */}
+      <form onSubmit={handleApplyFilters} className="console-filters">
+        <select
+          value={filters.doctor_id}
+          onChange={(e) => setFilters({ ...filters, doctor_id: e.target.value })}
+        >
+          <option value="">All doctors</option>
+          {doctors.map((doctor) => (
+            <option key={doctor.id} value={doctor.id}>{doctor.name}</option>
+          ))}
+        </select>
+
+        <select
+          value={filters.status}
+          onChange={(e) => setFilters({ ...filters, status: e.target.value })}
+        >
+          <option value="">All statuses</option>
+          {STATUSES.map((status) => (
+            <option key={status} value={status}>{status}</option>
+          ))}
+        </select>
+
+        <input
+          type="date"
+          value={filters.from}
+          onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+          title="From date"
+        />
+        <input
+          type="date"
+          value={filters.to}
+          onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+          min={filters.from}
+          title="To date"
+        />
+
+        <input
+          type="text"
+          value={filters.patient}
+          onChange={(e) => setFilters({ ...filters, patient: e.target.value })}
+          placeholder="Patient name, email or phone"
+        />
+
+        <button type="submit" className="btn-primary">Search</button>
+        <button type="button" onClick={handleResetFilters} className="btn-secondary">Reset</button>
+      </form>
+
+      {/* Bulk Actions */}
+      <div className="console-bulk">
+        <span>{selected.length} selected</span>
+        <button onClick={() => handleBulk('confirm')} disabled={selected.length === 0} className="btn-confirm">
+          ✓ Confirm
+        </button>
+        <button onClick={() => handleBulk('cancel')} disabled={selected.length === 0} className="btn-cancel">
+          ✕ Cancel
+        </button>
+        <button onClick={handleExport} className="btn-change">
+          ⬇ Export {selected.length > 0 ? 'selected' : 'all matching'}
+        </button>
+      </div>
+
+      <div className="table-container">
+        <table>
+          <thead>
+            <tr>
+              <th>
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={() => setSelected(allSelected ? [] : appointments.map((a) => a.id))}
+                />
+              </th>
+              <th>#</th>
+              {COLUMNS.map((column) => (
+                <th key={column.field} onClick={() => handleSort(column.field)} className="sortable">
+                  {column.label} {sort === column.field && (order === 'asc' ? '▲' : '▼')}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {appointments.length === 0 ? (
+              <tr>
+                <td colSpan={COLUMNS.length + 2}>No appointments match these filters.</td>
+              </tr>
+            ) : (
+              appointments.map((appointment) => (
+                <tr key={appointment.id}>
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(appointment.id)}
+                      onChange={() => toggleSelected(appointment.id)}
+                    />
+                  </td>
+                  <td>{appointment.id}</td>
+                  <td>
+                    {formatSlotDate(appointment, { month: 'short', day: 'numeric', year: 'numeric' })}{' '}
+                    {formatTime(appointment.starts_at, appointment.timezone)}
+                  </td>
+                  <td>
+                    {appointment.patient_name}
+                    <div className="console-sub">{appointment.patient_email}</div>
+                  </td>
+                  <td>
+                    {appointment.doctor_name}
+                    {appointment.location_name && <div className="console-sub">📍 {appointment.location_name}</div>}
+                  </td>
+                  <td>
+                    <span className={`status-badge status-${appointment.status.toLowerCase().replace('_', '-')}`}>
+                      {appointment.status}
+                    </span>
+                  </td>
+                  <td>{formatDateTime(appointment.booking_time, appointment.timezone)}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pagination */}
+      {pagination && pagination.total_pages > 1 && (
+        <div className="pagination">
+          <button onClick={() => setPage(page - 1)} disabled={page <= 1} className="btn-change">
+            ‹ Previous
+          </button>
+          <span>
+            Page {pagination.page} of {pagination.total_pages} ({pagination.total} appointments)
+          </span>
+          <button onClick={() => setPage(page + 1)} disabled={page >= pagination.total_pages} className="btn-change">
+            Next ›
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AppointmentsConsole;
@@ -0,0 +1,304 @@
+import React, { useState, useEffect } from 'react';
+import { useAppContext } from '../context/AppContext';
+import {
+  AvailabilityTemplate,
+  DoctorLocation,
+  VisitMode,
+  getDoctorById,
+  getAvailabilityTemplates,
+  saveAvailabilityTemplates,
+  previewGeneratedSlots,
+  generateSlotsFromTemplates,
+} from '../services/api';
+
+interface PreviewSlot {
+  slot_date: string;
+  start_time: string;
+  end_time: string;
+  visit_mode: VisitMode;
+  already_exists: boolean;
+}
+
+interface AvailabilityTemplatesProps {
+  // Fixes the doctor (doctor portal); admins pick one from a list otherwise
+  fixedDoctorId?: number;
+  onGenerated?: () => void;
+}
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const emptyTemplate = (): AvailabilityTemplate => ({
+  day_of_week: 1,
+  start_time: '09:00',
+  end_time: '13:00',
+  slot_minutes: 30,
+  buffer_minutes: 0,
+  visit_mode: 'in_person'
+});
+
+const AvailabilityTemplates: React.FC<AvailabilityTemplatesProps> = ({ fixedDoctorId, onGenerated }) => {
+  const { doctors, setLoading } = useAppContext();
+  const [doctorId, setDoctorId] = useState(fixedDoctorId ? String(fixedDoctorId) : '');
+  const [templates, setTemplates] = useState<AvailabilityTemplate[]>([]);
+  const [locations, setLocations] = useState<DoctorLocation[]>([]);
+  const [weeks, setWeeks] = useState(4);
+  const [preview, setPreview] = useState<PreviewSlot[] | null>(null);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setPreview(null);
+    setMessage('');
+    setError('');
+
+    if (!doctorId) {
+      setTemplates([]);
+      setLocations([]);
+      return;
+    }
+
+    getDoctorById(parseInt(doctorId))
+      .then((response) => setLocations(response.data.locations))
+      .catch((err) => setError(err.response?.data?.message || 'Error loading locations'));
+
+    getAvailabilityTemplates(parseInt(doctorId))
+      .then((response) => setTemplates(
+        response.data.map((template: AvailabilityTemplate) => ({
+          ...template,
+          start_time: template.start_time.slice(0, 5),
+          end_time: template.end_time.slice(0, 5)
+        }))
+      ))
+      .catch((err) => setError(err.response?.data?.message || 'Error loading schedule'));
+  }, [doctorId]);
+
+  const updateTemplate = (index: number, field: keyof AvailabilityTemplate, value: string) => {
+    const isNumber = field !== 'start_time' && field !== 'end_time' && field !== 'visit_mode';
+    const parsed = field === 'location_id' ? parseInt(value) || null : isNumber ? parseInt(value) || 0 : value;
+    setTemplates(templates.map((template, i) =>
+      i === index ? { ...template, [field]: parsed } : template
+    ));
+    setPreview(null);
+  };
+
+  // Copy the last row to the next day so Mon-Fri schedules are quick to enter
+  const addTemplate = () => {
+    const last = templates[templates.length - 1];
+    setTemplates([
+      ...templates,
+      last ? { ...last, id: undefined, day_of_week: (last.day_of_week + 1) % 7 } : emptyTemplate()
+    ]);
+    setPreview(null);
+  };
+
+  const removeTemplate = (index: number) => {
+    setTemplates(templates.filter((_, i) => i !== index));
+    setPreview(null);
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    try {
+      setLoading(true);
+      setError('');
+      setMessage('');
+      await action();
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Something went wrong');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = () => runAction(async () => {
+    await saveAvailabilityTemplates(parseInt(doctorId), templates);
+    setMessage('Weekly schedule saved');
+  });
+
+  const handlePreview = () => runAction(async () => {
+    const response = await previewGeneratedSlots(parseInt(doctorId), weeks, templates);
+    setPreview(response.data);
+  });
+
+  // Saves first so the generated slots always match what was previewed
+  const handleGenerate = () => runAction(async () => {
+    await saveAvailabilityTemplates(parseInt(doctorId), templates);
+    const response = await generateSlotsFromTemplates(parseInt(doctorId), weeks);
+    setMessage(response.message);
+    setPreview(null);
+    onGenerated?.();
+  });
+
+  const newSlotCount = preview?.filter((slot) => !slot.already_exists).length || 0;
+
+  return (
+    <div className="form-section availability-section">
+      <h2>🗓️ Weekly Availability</h2>
+
+      {message && <div className="success-message">{message}</div>}
+      {error && <div className="error-message">{error}</div>}
+
+      <div className="form-row">
+        {!fixedDoctorId && (
+          <div className="form-group">
+            <label>Doctor</label>
+            <select value={doctorId} onChange={(e) => setDoctorId(e.target.value)}>
+              <option value="">Choose a doctor</option>
+              {doctors.map((doctor) => (
+                <option key={doctor.id} value={doctor.id}>
+                  {doctor.name} - {doctor.specialty}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className="form-group">
+          <label>Generate Weeks Ahead</label>
+          <input
+            type="number"
+            min="1"
+            max="12"
+            value={weeks}
+            onChange={(e) => setWeeks(parseInt(e.target.value) || 1)}
+          />
+        </div>
+      </div>
+
+      {doctorId && (
+        <>
+          <div className="table-container">
+            <table>
+              <thead>
+                <tr>
+                  <th>Day</th>
+                  <th>From</th>
+                  <th>To</th>
+                  <th>Slot (min)</th>
+                  <th>Buffer (min)</th>
+                  {locations.length > 1 && <th>Location</th>}
+                  <th>Visit</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {templates.map((template, index) => (
+                  <tr key={index}>
+                    <td>
+                      <select
+                        value={template.day_of_week}
+                        onChange={(e) => updateTemplate(index, 'day_of_week', e.target.value)}
+                      >
+                        {DAYS.map((day, dayIndex) => (
+                          <option key={day} value={dayIndex}>{day}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td>
+                      <input
+                        type="time"
+                        value={template.start_time}
+                        onChange={(e) => updateTemplate(index, 'start_time', e.target.value)}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        type="time"
+                        value={template.end_time}
+                        onChange={(e) => updateTemplate(index, 'end_time', e.target.value)}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        type="number"
+                        min="5"
+                        value={template.slot_minutes}
+                        onChange={(e) => updateTemplate(index, 'slot_minutes', e.target.value)}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        type="number"
+                        min="0"
+                        value={template.buffer_minutes}
+                        onChange={(e) => updateTemplate(index, 'buffer_minutes', e.target.value)}
+                      />
+                    </td>
+                    {locations.length > 1 && (
+                      <td>
+                        <select
+                          value={template.location_id || ''}
+                          onChange={(e) => updateTemplate(index, 'location_id', e.target.value)}
+                        >
+                          <option value="">Choose...</option>
+                          {locations.map((location) => (
+                            <option key={location.id} value={location.id}>{location.name}</option>
+                          ))}
+                        </select>
+                      </td>
+                    )}
+                    <td>
+                      <select
+                        value={template.visit_mode || 'in_person'}
+                        onChange={(e) => updateTemplate(index, 'visit_mode', e.target.value)}
+                      >
+                        <option value="in_person">In person</option>
+                        <option value="video">Video</option>
+                      </select>
+                    </td>
+                    <td>
+                      <button type="button" onClick={() => removeTemplate(index)} className="btn-change">
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="form-actions">
+            <button type="button" onClick={addTemplate} className="btn-secondary">
+              + Add Day
+            </button>
+            <button type="button" onClick={handleSave} className="btn-secondary">
+              Save Schedule
+            </button>
+            <button type="button" onClick={handlePreview} className="btn-primary" disabled={templates.length === 0}>
+              Preview Slots
+            </button>
+          </div>
+        </>
+      )}
+
+      {preview && (
+        <div className="slot-preview">
+          <h3>
+            Preview: {newSlotCount} new slot(s)
+            {preview.length > newSlotCount && ` (${preview.length - newSlotCount} already exist)`}
+          </h3>
+          <div className="slots-grid">
+            {preview.map((slot) => (
+              <span
+                key={`${slot.slot_date} ${slot.start_time}`}
+                className={`preview-slot ${slot.already_exists ? 'preview-slot-existing' : ''}`}
+              >
+                {slot.slot_date} {slot.start_time}-{slot.end_time}
+                {slot.visit_mode === 'video' && ' 📹'}
+              </span>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={handleGenerate}
+            className="btn-primary"
+            disabled={newSlotCount === 0}
+          >
+            Create {newSlotCount} Slot(s)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AvailabilityTemplates;
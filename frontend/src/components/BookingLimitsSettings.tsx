@@ -0,0 +1,77 @@
+import React, { useState, useEffect } from 'react';
+import { getBookingLimits, saveBookingLimits } from '../services/api';
+
+// Blank input = no limit
+const toLimit = (value: string) => (value ? parseInt(value) : null);
+
+// How many bookings a patient (family members included) may have with one doctor
+const BookingLimitsSettings: React.FC = () => {
+  const [maxPending, setMaxPending] = useState('');
+  const [maxUpcoming, setMaxUpcoming] = useState('');
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getBookingLimits()
+      .then((response) => {
+        setMaxPending(response.data.max_pending_per_doctor?.toString() || '');
+        setMaxUpcoming(response.data.max_upcoming_per_doctor?.toString() || '');
+      })
+      .catch((err) => setError(err.response?.data?.message || 'Error loading booking limits'));
+  }, []);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setError('');
+      const response = await saveBookingLimits({
+        max_pending_per_doctor: toLimit(maxPending),
+        max_upcoming_per_doctor: toLimit(maxUpcoming)
+      });
+      setMessage(response.message);
+      setTimeout(() => setMessage(''), 3000);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Error saving booking limits');
+    }
+  };
+
+  return (
+    <div className="form-section">
+      <h2>🚦 Booking Limits</h2>
+
+      {message && <div className="success-message">{message}</div>}
+      {error && <div className="error-message">{error}</div>}
+
+      <form onSubmit={handleSave}>
+        <div className="form-group">
+          <label>Unconfirmed bookings per patient and doctor (blank = no limit)</label>
+          <input
+            type="number"
+            min="1"
+            max="100"
+            value={maxPending}
+            onChange={(e) => setMaxPending(e.target.value)}
+          />
+        </div>
+
+        <div className="form-group">
+          <label>Upcoming appointments per patient and doctor (blank = no limit)</label>
+          <input
+            type="number"
+            min="1"
+            max="100"
+            value={maxUpcoming}
+            onChange={(e) => setMaxUpcoming(e.target.value)}
+          />
+        </div>
+
+        <button type="submit" className="btn-primary">
+          Save Limits
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default BookingLimitsSettings;
@@ -0,0 +1,279 @@
+import React, { useState, useEffect } from 'react';
+import { useAppContext } from '../context/AppContext';
+import {
+  CancellationPolicy,
+  CancellationRules,
+  Location,
+  getCancellationPolicies,
+  createCancellationPolicy,
+  updateCancellationPolicy,
+  deleteCancellationPolicy
+} from '../services/api';
+
+interface CancellationPoliciesProps {
+  locations: Location[];
+}
+
+// Form values are kept as strings while typing
+type RulesForm = Record<keyof CancellationRules, string>;
+
+const emptyRules: RulesForm = {
+  min_notice_hours: '0',
+  late_notice_hours: '24',
+  late_fee_percent: '50',
+  max_cancellations: '',
+  period_days: '30'
+};
+
+const toForm = (policy: CancellationPolicy): RulesForm => ({
+  min_notice_hours: String(policy.min_notice_hours),
+  late_notice_hours: String(policy.late_notice_hours),
+  late_fee_percent: String(policy.late_fee_percent),
+  max_cancellations: policy.max_cancellations?.toString() || '',
+  period_days: String(policy.period_days)
+});
+
+const toRules = (form: RulesForm): CancellationRules => ({
+  min_notice_hours: parseInt(form.min_notice_hours),
+  late_notice_hours: parseInt(form.late_notice_hours),
+  late_fee_percent: parseInt(form.late_fee_percent),
+  max_cancellations: form.max_cancellations ? parseInt(form.max_cancellations) : null,
+  period_days: parseInt(form.period_days)
+});
+
+const policyTarget = (policy: CancellationPolicy) => {
+  if (policy.scope === 'doctor') return `👨‍⚕️ ${policy.doctor_name}`;
+  if (policy.scope === 'location') return `📍 ${policy.location_name}`;
+  return 'Default (all doctors)';
+};
+
+// Admin list of cancellation policies: the clinic-wide default plus
+// per-location and per-doctor overrides
+const CancellationPolicies: React.FC<CancellationPoliciesProps> = ({ locations }) => {
+  const { doctors } = useAppContext();
+  const [policies, setPolicies] = useState<CancellationPolicy[]>([]);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [scope, setScope] = useState<'doctor' | 'location'>('doctor');
+  const [targetId, setTargetId] = useState('');
+  const [form, setForm] = useState<RulesForm>(emptyRules);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadPolicies();
+  }, []);
+
+  const loadPolicies = async () => {
+    try {
+      const response = await getCancellationPolicies();
+      setPolicies(response.data);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Error loading cancellation policies');
+    }
+  };
+
+  const showSaved = (text: string) => {
+    setError('');
+    setMessage(text);
+    setTimeout(() => setMessage(''), 3000);
+  };
+
+  const handleEdit = (policy: CancellationPolicy) => {
+    setEditingId(policy.id);
+    setForm(toForm(policy));
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setTargetId('');
+    setForm(emptyRules);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const rules = toRules(form);
+      const response = editingId
+        ? await updateCancellationPolicy(editingId, rules)
+        : await createCancellationPolicy(scope === 'doctor'
+          ? { ...rules, doctor_id: parseInt(targetId) }
+          : { ...rules, location_id: parseInt(targetId) });
+      showSaved(response.message);
+      handleCancelEdit();
+      loadPolicies();
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Error saving cancellation policy');
+    }
+  };
+
+  const handleDelete = async (policy: CancellationPolicy) => {
+    if (!window.confirm(`Remove the policy for ${policyTarget(policy)}? The next policy up applies instead.`)) return;
+
+    try {
+      const response = await deleteCancellationPolicy(policy.id);
+      showSaved(response.message);
+      loadPolicies();
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Error deleting cancellation policy');
+    }
+  };
+
+  const updateField = (field: keyof RulesForm, value: string) => setForm({ ...form, [field]: value });
+
+  // Doctors and locations that don't have their own policy yet
+  const targets = scope === 'doctor'
+    ? doctors.filter((doctor) => !policies.some((policy) => policy.doctor_id === doctor.id))
+    : locations.filter((location) => !policies.some((policy) => policy.location_id === location.id));
+
+  return (
+    <div className="form-section">
+      <h2>📜 Cancellation Policies</h2>
+
+      {message && <div className="success-message">{message}</div>}
+      {error && <div className="error-message">{error}</div>}
+
+      <div className="table-container hold-overrides">
+        <table>
+          <thead>
+            <tr>
+              <th>Applies to</th>
+              <th>Rules</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {policies.map((policy) => (
+              <tr key={policy.id}>
+                <td>{policyTarget(policy)}</td>
+                <td>
+                  {policy.min_notice_hours > 0 && <div>No online cancellation under {policy.min_notice_hours}h</div>}
+                  <div>{policy.late_fee_percent}% fee under {policy.late_notice_hours}h</div>
+                  {policy.max_cancellations && (
+                    <div>Max {policy.max_cancellations} per {policy.period_days} days</div>
+                  )}
+                </td>
+                <td>
+                  <div className="doctor-actions">
+                    <button onClick={() => handleEdit(policy)} className="btn-change">Edit</button>
+                    {policy.scope !== 'default' && (
+                      <button onClick={() => handleDelete(policy)} className="btn-cancel">Delete</button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <form onSubmit={handleSubmit}>
+        <h3>
+          {editingId
+            ? `✏️ Edit: ${policyTarget(policies.find((policy) => policy.id === editingId)!)}`
+            : '➕ Add a Doctor or Location Policy'}
+        </h3>
+
+        {!editingId && (
+          <div className="form-row">
+            <div className="form-group">
+              <label>Applies to</label>
+              <select
+                value={scope}
+                onChange={(e) => {
+                  setScope(e.target.value as 'doctor' | 'location');
+                  setTargetId('');
+                }}
+              >
+                <option value="doctor">A doctor</option>
+                <option value="location">A location</option>
+              </select>
+            </div>
+
+            <div className="form-group">
+              <label>{scope === 'doctor' ? 'Doctor' : 'Location'} *</label>
+              <select value={targetId} onChange={(e) => setTargetId(e.target.value)} required>
+                <option value="">Choose...</option>
+                {targets.map((target) => (
+                  <option key={target.id} value={target.id}>{target.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+
+        <div className="form-row">
+          <div className="form-group">
+            <label>Minimum notice (hours)</label>
+            <input
+              type="number"
+              min="0"
+              value={form.min_notice_hours}
+              onChange={(e) => updateField('min_notice_hours', e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="form-group">
+            <label>Late under (hours)</label>
+            <input
+              type="number"
+              min="0"
+              value={form.late_notice_hours}
+              onChange={(e) => updateField('late_notice_hours', e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="form-group">
+            <label>Late fee (%)</label>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              value={form.late_fee_percent}
+              onChange={(e) => updateField('late_fee_percent', e.target.value)}
+              required
+            />
+          </div>
+        </div>
+
+        <div className="form-row">
+          <div className="form-group">
+            <label>Max cancellations (blank = no limit)</label>
+            <input
+              type="number"
+              min="1"
+              value={form.max_cancellations}
+              onChange={(e) => updateField('max_cancellations', e.target.value)}
+            />
+          </div>
+
+          <div className="form-group">
+            <label>Per (days)</label>
+            <input
+              type="number"
+              min="1"
+              max="365"
+              value={form.period_days}
+              onChange={(e) => updateField('period_days', e.target.value)}
+              required
+            />
+          </div>
+        </div>
+
+        <div className="form-actions">
+          <button type="submit" className="btn-primary">
+            {editingId ? 'Save Policy' : 'Add Policy'}
+          </button>
+          {editingId && (
+            <button type="button" onClick={handleCancelEdit} className="btn-secondary">
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default CancellationPolicies;
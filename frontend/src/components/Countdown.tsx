@@ -0,0 +1,49 @@
+import React, { useState, useEffect, useRef } from 'react';
+
+interface CountdownProps {
+  until: string; // ISO timestamp
+  onExpire?: () => void;
+}
+
+const secondsUntil = (until: string) => Math.max(0, Math.floor((new Date(until).getTime() - Date.now()) / 1000));
+
+// "4:05" style time left until a deadline, ticking every second
+const Countdown: React.FC<CountdownProps> = ({ until, onExpire }) => {
+  const [secondsLeft, setSecondsLeft] = useState(() => secondsUntil(until));
+
+  // The latest onExpire, so a parent passing a new function each render
+  // doesn't restart the timer
+  const onExpireRef = useRef(onExpire);
+  useEffect(() => {
+    onExpireRef.current = onExpire;
+  }, [onExpire]);
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const left = secondsUntil(until);
+      setSecondsLeft(left);
+      if (left === 0) {
+        clearInterval(timer);
+        onExpireRef.current?.();
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [until]);
+
+  if (secondsLeft === 0) {
+    return <span className="countdown countdown-expired">expired</span>;
+  }
+
+  const hours = Math.floor(secondsLeft / 3600);
+  const minutes = Math.floor((secondsLeft % 3600) / 60);
+  const seconds = String(secondsLeft % 60).padStart(2, '0');
+
+  return (
+    <span className={`countdown ${secondsLeft < 60 ? 'countdown-urgent' : ''}`}>
+      {hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}` : minutes}:{seconds}
+    </span>
+  );
+};
+
+export default Countdown;
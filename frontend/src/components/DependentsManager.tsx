@@ -0,0 +1,182 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Dependent,
+  DependentInput,
+  Relationship,
+  getDependents,
+  createDependent,
+  updateDependent,
+  deleteDependent
+} from '../services/api';
+import { formatDate, yearsSince } from '../utils/dateTime';
+
+export const RELATIONSHIPS: { value: Relationship; label: string }[] = [
+  { value: 'child', label: 'Child' },
+  { value: 'spouse', label: 'Spouse / Partner' },
+  { value: 'parent', label: 'Parent' },
+  { value: 'sibling', label: 'Sibling' },
+  { value: 'other', label: 'Other' }
+];
+
+const emptyForm: DependentInput = { name: '', date_of_birth: '', relationship: 'child' };
+
+// The family members a patient books for, with an add / edit form
+const DependentsManager: React.FC = () => {
+  const [dependents, setDependents] = useState<Dependent[]>([]);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<DependentInput>(emptyForm);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState('');
+
+  const loadDependents = useCallback(async () => {
+    try {
+      const response = await getDependents();
+      setDependents(response.data);
+    } catch (err: any) {
+      setErrors({ form: err.response?.data?.message || 'Error loading family members' });
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDependents();
+  }, [loadDependents]);
+
+  const showMessage = (text: string) => {
+    setMessage(text);
+    setTimeout(() => setMessage(''), 3000);
+  };
+
+  const handleEdit = (dependent: Dependent) => {
+    setEditingId(dependent.id);
+    setForm({ name: dependent.name, date_of_birth: dependent.date_of_birth, relationship: dependent.relationship });
+    setErrors({});
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setErrors({});
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setErrors({});
+      const response = editingId
+        ? await updateDependent(editingId, form)
+        : await createDependent(form);
+      showMessage(response.message);
+      handleCancelEdit();
+      loadDependents();
+    } catch (err: any) {
+      const data = err.response?.data;
+      setErrors(data?.errors || { form: data?.message || 'Error saving family member' });
+    }
+  };
+
+  const handleDelete = async (dependent: Dependent) => {
+    if (!window.confirm(`Remove ${dependent.name}?`)) return;
+
+    try {
+      const response = await deleteDependent(dependent.id);
+      showMessage(response.message);
+      loadDependents();
+    } catch (err: any) {
+      setErrors({ form: err.response?.data?.message || 'Error removing family member' });
+    }
+  };
+
+  const relationshipLabel = (value: Relationship) =>
+    RELATIONSHIPS.find((relationship) => relationship.value === value)?.label || value;
+
+  return (
+    <div className="profile-form dependents-section">
+      <h3>👨‍👩‍👧 Family Members</h3>
+      <p className="field-hint">Book appointments for the people you look after from your own account.</p>
+
+      {message && <div className="success-message">{message}</div>}
+      {errors.form && <div className="error-message">{errors.form}</div>}
+
+      {dependents.length > 0 && (
+        <ul className="dependents-list">
+          {dependents.map((dependent) => (
+            <li key={dependent.id}>
+              <div>
+                <strong>{dependent.name}</strong>
+                <span className="console-sub">
+                  {relationshipLabel(dependent.relationship)} · born {formatDate(dependent.date_of_birth, {
+                    month: 'short',
+                    day: 'numeric',
+                    year: 'numeric'
+                  })} ({yearsSince(dependent.date_of_birth)} yrs)
+                </span>
+              </div>
+              <div className="doctor-actions">
+                <button type="button" onClick={() => handleEdit(dependent)} className="btn-change">
+                  Edit
+                </button>
+                <button type="button" onClick={() => handleDelete(dependent)} className="btn-cancel">
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit}>
+        <h4>{editingId ? '✏️ Edit Family Member' : '➕ Add Family Member'}</h4>
+
+        <div className="form-row">
+          <div className="form-group">
+            <label>Full Name *</label>
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              required
+            />
+            {errors.name && <span className="field-error">{errors.name}</span>}
+          </div>
+
+          <div className="form-group">
+            <label>Date of Birth *</label>
+            <input
+              type="date"
+              value={form.date_of_birth}
+              onChange={(e) => setForm({ ...form, date_of_birth: e.target.value })}
+              required
+            />
+            {errors.date_of_birth && <span className="field-error">{errors.date_of_birth}</span>}
+          </div>
+
+          <div className="form-group">
+            <label>Relationship *</label>
+            <select
+              value={form.relationship}
+              onChange={(e) => setForm({ ...form, relationship: e.target.value as Relationship })}
+            >
+              {RELATIONSHIPS.map((relationship) => (
+                <option key={relationship.value} value={relationship.value}>{relationship.label}</option>
+              ))}
+            </select>
+            {errors.relationship && <span className="field-error">{errors.relationship}</span>}
+          </div>
+        </div>
+
+        <div className="form-actions">
+          <button type="submit" className="btn-primary">
+            {editingId ? 'Save' : 'Add'}
+          </button>
+          {editingId && (
+            <button type="button" onClick={handleCancelEdit} className="btn-secondary">
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default DependentsManager;
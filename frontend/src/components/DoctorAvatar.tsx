@@ -0,0 +1,24 @@
+import React, { useState } from 'react';
+
+interface DoctorAvatarProps {
+  name: string;
+  photoUrl?: string | null;
+  className?: string;
+}
+
+// Doctor's photo, or their initial when there is none or it fails to load
+const DoctorAvatar: React.FC<DoctorAvatarProps> = ({ name, photoUrl, className = 'doctor-avatar' }) => {
+  const [broken, setBroken] = useState(false);
+
+  return (
+    <div className={className}>
+      {photoUrl && !broken ? (
+        <img src={photoUrl} alt={name} onError={() => setBroken(true)} />
+      ) : (
+        name.charAt(0)
+      )}
+    </div>
+  );
+};
+
+export default DoctorAvatar;
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { Doctor, Location, updateDoctor, setDoctorLocations } from '../services/api';
+import LocationPicker from './LocationPicker';
+
+interface DoctorEditorProps {
+  doctor: Doctor;
+  locations: Location[];
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+// Admin form for a doctor's details and public profile
+const DoctorEditor: React.FC<DoctorEditorProps> = ({ doctor, locations, onSaved, onCancel }) => {
+  const [form, setForm] = useState({
+    name: doctor.name,
+    email: doctor.email,
+    specialty: doctor.specialty,
+    consultation_fee: String(doctor.consultation_fee),
+    years_of_experience: doctor.years_of_experience?.toString() || '',
+    photo_url: doctor.photo_url || '',
+    languages: (doctor.languages || []).join(', '),
+    qualifications: doctor.qualifications || '',
+    bio: doctor.bio || ''
+  });
+  const [locationIds, setLocationIds] = useState((doctor.locations || []).map((location) => location.id));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      setErrors({});
+      await updateDoctor(doctor.id, {
+        ...form,
+        consultation_fee: parseFloat(form.consultation_fee),
+        years_of_experience: form.years_of_experience ? parseInt(form.years_of_experience) : null,
+        languages: form.languages.split(',').map((language) => language.trim()).filter(Boolean)
+      });
+      await setDoctorLocations(doctor.id, locationIds);
+      onSaved();
+    } catch (err: any) {
+      const data = err.response?.data;
+      setErrors(data?.errors || { form: data?.message || 'Error saving doctor' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="doctor-editor">
+      <h3>✏️ Edit {doctor.name}</h3>
+      {errors.form && <div className="error-message">{errors.form}</div>}
+
+      <div className="form-row">
+        <div className="form-group">
+          <label>Name *</label>
+          <input
+            type="text"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            required
+          />
+          {errors.name && <span className="field-error">{errors.name}</span>}
+        </div>
+
+        <div className="form-group">
+          <label>Email *</label>
+          <input
+            type="email"
+            value={form.email}
+            onChange={(e) => setForm({ ...form, email: e.target.value })}
+            required
+          />
+          {errors.email && <span className="field-error">{errors.email}</span>}
+        </div>
+      </div>
+
+      <div className="form-row">
+        <div className="form-group">
+          <label>Specialty *</label>
+          <input
+            type="text"
+            value={form.specialty}
+            onChange={(e) => setForm({ ...form, specialty: e.target.value })}
+            required
+          />
+          {errors.specialty && <span className="field-error">{errors.specialty}</span>}
+        </div>
+
+        <div className="form-group">
+          <label>Consultation Fee (₹) *</label>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={form.consultation_fee}
+            onChange={(e) => setForm({ ...form, consultation_fee: e.target.value })}
+            required
+          />
+          {errors.consultation_fee && <span className="field-error">{errors.consultation_fee}</span>}
+        </div>
+      </div>
+
+      <div className="form-row">
+        <div className="form-group">
+          <label>Years of Experience</label>
+          <input
+            type="number"
+            min="0"
+            max="80"
+            value={form.years_of_experience}
+            onChange={(e) => setForm({ ...form, years_of_experience: e.target.value })}
+          />
+          {errors.years_of_experience && <span className="field-error">{errors.years_of_experience}</span>}
+        </div>
+
+        <div className="form-group">
+          <label>Languages</label>
+          <input
+            type="text"
+            value={form.languages}
+            onChange={(e) => setForm({ ...form, languages: e.target.value })}
+            placeholder="English, Hindi"
+          />
+          {errors.languages && <span className="field-error">{errors.languages}</span>}
+        </div>
+      </div>
+
+      <div className="form-group">
+        <label>Locations</label>
+        <LocationPicker locations={locations} selected={locationIds} onChange={setLocationIds} />
+      </div>
+
+      <div className="form-group">
+        <label>Photo URL</label>
+        <input
+          type="url"
+          value={form.photo_url}
+          onChange={(e) => setForm({ ...form, photo_url: e.target.value })}
+          placeholder="https://..."
+        />
+        {errors.photo_url && <span className="field-error">{errors.photo_url}</span>}
+      </div>
+
+      <div className="form-group">
+        <label>Qualifications</label>
+        <input
+          type="text"
+          value={form.qualifications}
+          onChange={(e) => setForm({ ...form, qualifications: e.target.value })}
+          placeholder="MBBS, MD (Cardiology)"
+        />
+      </div>
+
+      <div className="form-group">
+        <label>Bio</label>
+        <textarea
+          value={form.bio}
+          onChange={(e) => setForm({ ...form, bio: e.target.value })}
+          rows={4}
+        />
+      </div>
+
+      <div className="appointment-actions">
+        <button type="submit" className="btn-primary" disabled={saving}>
+          {saving ? 'Saving...' : 'Save Changes'}
+        </button>
+        <button type="button" onClick={onCancel} className="btn-secondary">
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default DoctorEditor;
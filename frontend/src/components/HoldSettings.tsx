@@ -0,0 +1,125 @@
+import React, { useState, useEffect } from 'react';
+import { getHoldSettings, saveHoldSettings, saveDoctorHoldMinutes } from '../services/api';
+
+interface DoctorHold {
+  id: number;
+  name: string;
+  pending_hold_minutes: number | null;
+}
+
+// How long a PENDING booking waits for confirmation before it expires
+const HoldSettings: React.FC = () => {
+  const [globalMinutes, setGlobalMinutes] = useState('');
+  const [doctors, setDoctors] = useState<DoctorHold[]>([]);
+  const [overrides, setOverrides] = useState<Record<number, string>>({});
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const response = await getHoldSettings();
+      setGlobalMinutes(String(response.data.pending_hold_minutes));
+      setDoctors(response.data.doctors);
+      setOverrides(Object.fromEntries(
+        response.data.doctors.map((doctor: DoctorHold) => [doctor.id, doctor.pending_hold_minutes?.toString() || ''])
+      ));
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Error loading hold settings');
+    }
+  };
+
+  const showSaved = (text: string) => {
+    setError('');
+    setMessage(text);
+    setTimeout(() => setMessage(''), 3000);
+  };
+
+  const handleSaveGlobal = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await saveHoldSettings(parseInt(globalMinutes));
+      showSaved(response.message);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Error saving hold window');
+    }
+  };
+
+  const handleSaveDoctor = async (doctorId: number) => {
+    const value = overrides[doctorId];
+    try {
+      const response = await saveDoctorHoldMinutes(doctorId, value ? parseInt(value) : null);
+      showSaved(response.message);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Error saving doctor hold window');
+    }
+  };
+
+  return (
+    <div className="form-section">
+      <h2>⏱️ Booking Hold Window</h2>
+
+      {message && <div className="success-message">{message}</div>}
+      {error && <div className="error-message">{error}</div>}
+
+      <form onSubmit={handleSaveGlobal}>
+        <div className="form-group">
+          <label>Minutes to confirm a booking before it expires</label>
+          <input
+            type="number"
+            min="1"
+            max="1440"
+            value={globalMinutes}
+            onChange={(e) => setGlobalMinutes(e.target.value)}
+            required
+          />
+        </div>
+
+        <button type="submit" className="btn-primary">
+          Save Hold Window
+        </button>
+      </form>
+
+      {doctors.length > 0 && (
+        <div className="table-container hold-overrides">
+          <table>
+            <thead>
+              <tr>
+                <th>Doctor</th>
+                <th>Minutes (blank = default)</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {doctors.map((doctor) => (
+                <tr key={doctor.id}>
+                  <td>{doctor.name}</td>
+                  <td>
+                    <input
+                      type="number"
+                      min="1"
+                      max="1440"
+                      value={overrides[doctor.id] || ''}
+                      onChange={(e) => setOverrides({ ...overrides, [doctor.id]: e.target.value })}
+                      placeholder={globalMinutes}
+                    />
+                  </td>
+                  <td>
+                    <button onClick={() => handleSaveDoctor(doctor.id)} className="btn-change">
+                      Save
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HoldSettings;
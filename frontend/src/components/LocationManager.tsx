@@ -0,0 +1,260 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { Location, OpeningHours, createLocation, updateLocation, deleteLocation } from '../services/api';
+
+interface LocationManagerProps {
+  locations: Location[];
+  onChange: () => void;
+}
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Suggestions only, any IANA timezone name is accepted
+const TIMEZONES = [
+  'Asia/Kolkata', 'Asia/Dubai', 'Asia/Singapore', 'Europe/London', 'Europe/Berlin',
+  'America/New_York', 'America/Chicago', 'America/Los_Angeles', 'Australia/Sydney', 'UTC'
+];
+
+// One row per weekday; days left unticked are closed
+interface DayHours {
+  open: boolean;
+  open_time: string;
+  close_time: string;
+}
+
+const defaultWeek = (): DayHours[] => DAYS.map((_, day) => ({
+  open: day >= 1 && day <= 5,
+  open_time: '09:00',
+  close_time: '17:00'
+}));
+
+const emptyForm = () => ({
+  name: '',
+  address: '',
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  week: defaultWeek()
+});
+
+const toWeek = (hours: OpeningHours[]): DayHours[] => DAYS.map((_, day) => {
+  const match = hours.find((item) => item.day_of_week === day);
+  return match
+    ? { open: true, open_time: match.open_time, close_time: match.close_time }
+    : { open: false, open_time: '09:00', close_time: '17:00' };
+});
+
+// "Mon 09:00-17:00, Tue 09:00-17:00" style summary
+const describeHours = (hours: OpeningHours[]) => hours.length === 0
+  ? 'No fixed hours'
+  : hours.map((item) => `${DAYS[item.day_of_week].slice(0, 3)} ${item.open_time}-${item.close_time}`).join(', ');
+
+// Admin list of clinic locations with a create / edit form
+const LocationManager: React.FC<LocationManagerProps> = ({ locations, onChange }) => {
+  const { setLoading } = useAppContext();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState('');
+
+  const updateDay = (day: number, changes: Partial<DayHours>) => {
+    setForm({ ...form, week: form.week.map((hours, i) => (i === day ? { ...hours, ...changes } : hours)) });
+  };
+
+  const handleEdit = (location: Location) => {
+    setEditingId(location.id);
+    setForm({
+      name: location.name,
+      address: location.address,
+      timezone: location.timezone,
+      week: toWeek(location.opening_hours)
+    });
+    setErrors({});
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyForm());
+    setErrors({});
+  };
+
+  const showMessage = (text: string) => {
+    setMessage(text);
+    setTimeout(() => setMessage(''), 3000);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const location = {
+      name: form.name,
+      address: form.address,
+      timezone: form.timezone,
+      opening_hours: form.week.flatMap((hours, day) => hours.open
+        ? [{ day_of_week: day, open_time: hours.open_time, close_time: hours.close_time }]
+        : [])
+    };
+
+    try {
+      setLoading(true);
+      setErrors({});
+      const response = editingId
+        ? await updateLocation(editingId, location)
+        : await createLocation(location);
+      showMessage(response.message);
+      handleCancelEdit();
+      onChange();
+    } catch (err: any) {
+      const data = err.response?.data;
+      setErrors(data?.errors || { form: data?.message || 'Error saving location' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (location: Location) => {
+    if (!window.confirm(`Delete ${location.name}?`)) return;
+
+    try {
+      setLoading(true);
+      const response = await deleteLocation(location.id);
+      showMessage(response.message);
+      onChange();
+    } catch (err: any) {
+      setErrors({ form: err.response?.data?.message || 'Error deleting location' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="form-section locations-section">
+      <h2>📍 Locations</h2>
+
+      {message && <div className="success-message">{message}</div>}
+      {errors.form && <div className="error-message">{errors.form}</div>}
+
+      {locations.length > 0 && (
+        <div className="table-container">
+          <table>
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Address</th>
+                <th>Timezone</th>
+                <th>Opening Hours</th>
+                <th>Doctors</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {locations.map((location) => (
+                <tr key={location.id}>
+                  <td>{location.name}</td>
+                  <td>{location.address}</td>
+                  <td>{location.timezone}</td>
+                  <td className="location-hours">{describeHours(location.opening_hours)}</td>
+                  <td>{location.doctor_count}</td>
+                  <td className="doctor-actions">
+                    <button onClick={() => handleEdit(location)} className="btn-change">
+                      Edit
+                    </button>
+                    <button onClick={() => handleDelete(location)} className="btn-cancel">
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit}>
+        <h3>{editingId ? '✏️ Edit Location' : '➕ Add Location'}</h3>
+
+        <div className="form-row">
+          <div className="form-group">
+            <label>Name *</label>
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              required
+              placeholder="e.g., City Centre Clinic"
+            />
+            {errors.name && <span className="field-error">{errors.name}</span>}
+          </div>
+
+          <div className="form-group">
+            <label>Timezone *</label>
+            <input
+              type="text"
+              list="timezones"
+              value={form.timezone}
+              onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+              required
+            />
+            <datalist id="timezones">
+              {TIMEZONES.map((timezone) => (
+                <option key={timezone} value={timezone} />
+              ))}
+            </datalist>
+            {errors.timezone && <span className="field-error">{errors.timezone}</span>}
+          </div>
+        </div>
+
+        <div className="form-group">
+          <label>Address</label>
+          <input
+            type="text"
+            value={form.address}
+            onChange={(e) => setForm({ ...form, address: e.target.value })}
+          />
+        </div>
+
+        <div className="form-group">
+          <label>Opening Hours</label>
+          <div className="opening-hours">
+            {form.week.map((hours, day) => (
+              <div key={day} className="opening-hours-row">
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={hours.open}
+                    onChange={(e) => updateDay(day, { open: e.target.checked })}
+                  />
+                  {DAYS[day]}
+                </label>
+                <input
+                  type="time"
+                  value={hours.open_time}
+                  onChange={(e) => updateDay(day, { open_time: e.target.value })}
+                  disabled={!hours.open}
+                />
+                <input
+                  type="time"
+                  value={hours.close_time}
+                  onChange={(e) => updateDay(day, { close_time: e.target.value })}
+                  disabled={!hours.open}
+                />
+              </div>
+            ))}
+          </div>
+          {errors.opening_hours && <span className="field-error">{errors.opening_hours}</span>}
+        </div>
+
+        <div className="form-actions">
+          <button type="submit" className="btn-primary">
+            {editingId ? 'Save Location' : 'Add Location'}
+          </button>
+          {editingId && (
+            <button type="button" onClick={handleCancelEdit} className="btn-secondary">
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default LocationManager;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Location } from '../services/api';
+
+interface LocationPickerProps {
+  locations: Location[];
+  selected: number[];
+  onChange: (selected: number[]) => void;
+}
+
+// One checkbox per location, for assigning a doctor to several
+const LocationPicker: React.FC<LocationPickerProps> = ({ locations, selected, onChange }) => {
+  if (locations.length === 0) {
+    return <p className="field-hint">No locations yet. Add one under 📍 Locations.</p>;
+  }
+
+  const toggle = (id: number) => {
+    onChange(selected.includes(id) ? selected.filter((item) => item !== id) : [...selected, id]);
+  };
+
+  return (
+    <div className="location-picker">
+      {locations.map((location) => (
+        <label key={location.id}>
+          <input
+            type="checkbox"
+            checked={selected.includes(location.id)}
+            onChange={() => toggle(location.id)}
+          />
+          {location.name}
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default LocationPicker;
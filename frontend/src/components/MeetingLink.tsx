@@ -0,0 +1,36 @@
+import React from 'react';
+import Countdown from './Countdown';
+import { formatDateTime } from '../utils/dateTime';
+
+interface MeetingLinkProps {
+  url: string | null; // only sent while the link is open
+  opensAt: string | null;
+  timezone?: string | null;
+  onOpen?: () => void; // reload to get the link once it opens
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Join button for a video visit, or when its link will show up
+const MeetingLink: React.FC<MeetingLinkProps> = ({ url, opensAt, timezone, onOpen }) => {
+  if (url) {
+    return (
+      <a href={url} target="_blank" rel="noopener noreferrer" className="btn-primary meeting-join">
+        📹 Join Video Call
+      </a>
+    );
+  }
+
+  if (!opensAt || new Date(opensAt).getTime() <= Date.now()) return null;
+
+  return (
+    <p className="meeting-pending">
+      📹 The video link opens{' '}
+      {new Date(opensAt).getTime() - Date.now() < HOUR_MS
+        ? <>in <Countdown until={opensAt} onExpire={onOpen} /></>
+        : `on ${formatDateTime(opensAt, timezone)}`}
+    </p>
+  );
+};
+
+export default MeetingLink;
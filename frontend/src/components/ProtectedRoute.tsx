@@ -0,0 +1,32 @@
+import React, { ReactElement } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAppContext, UserRole } from '../context/AppContext';
+
+interface ProtectedRouteProps {
+  roles?: UserRole[];
+  children: ReactElement;
+}
+
+// Only render children for a logged-in user with one of the allowed roles
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ roles, children }) => {
+  const { user, authLoading } = useAppContext();
+  const location = useLocation();
+
+  if (authLoading) {
+    return <div className="loading">Checking your session...</div>;
+  }
+
+  if (!user) {
+    return <Navigate to={`/login?redirect=${encodeURIComponent(location.pathname)}`} replace />;
+  }
+
+  if (roles && !roles.includes(user.role)) {
+    return (
+      <div className="error-message">You do not have permission to view this page.</div>
+    );
+  }
+
+  return children;
+};
+
+export default ProtectedRoute;
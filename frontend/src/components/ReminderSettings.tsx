@@ -0,0 +1,69 @@
+import React, { useState, useEffect } from 'react';
+import { getReminderSettings, saveReminderSettings } from '../services/api';
+
+// 1440 -> "24", 90 -> "1.5"
+const minutesToHours = (minutes: number) => String(Math.round((minutes / 60) * 100) / 100);
+
+const ReminderSettings: React.FC = () => {
+  const [hoursInput, setHoursInput] = useState('');
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getReminderSettings()
+      .then((response) => setHoursInput(response.data.offsets_minutes.map(minutesToHours).join(', ')))
+      .catch((err) => setError(err.response?.data?.message || 'Error loading reminder settings'));
+  }, []);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const offsets = hoursInput
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean)
+      .map((value) => Math.round(parseFloat(value) * 60));
+
+    if (offsets.some((offset) => Number.isNaN(offset) || offset <= 0)) {
+      setError('Enter positive numbers of hours, separated by commas');
+      return;
+    }
+
+    try {
+      setError('');
+      const response = await saveReminderSettings(offsets);
+      setHoursInput(response.data.offsets_minutes.map(minutesToHours).join(', '));
+      setMessage(response.message);
+      setTimeout(() => setMessage(''), 3000);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Error saving reminder settings');
+    }
+  };
+
+  return (
+    <div className="form-section">
+      <h2>⏰ Appointment Reminders</h2>
+
+      {message && <div className="success-message">{message}</div>}
+      {error && <div className="error-message">{error}</div>}
+
+      <form onSubmit={handleSave}>
+        <div className="form-group">
+          <label>Send reminders this many hours before (comma separated)</label>
+          <input
+            type="text"
+            value={hoursInput}
+            onChange={(e) => setHoursInput(e.target.value)}
+            placeholder="24, 2"
+          />
+        </div>
+
+        <button type="submit" className="btn-primary">
+          Save Reminders
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ReminderSettings;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { VisitMode } from '../services/api';
+import { formatDate, formatSlotTime } from '../utils/dateTime';
+
+export interface PickerSlot {
+  id: number;
+  slot_date: string;
+  start_time: string;
+  end_time: string;
+  starts_at?: string;
+  ends_at?: string;
+  timezone?: string | null;
+  location_name?: string | null;
+  visit_mode?: VisitMode;
+  is_held_for_me?: boolean; // Offered to this patient from the waitlist
+  is_taken?: boolean; // Just booked or held by someone else, shown greyed out
+}
+
+interface SlotPickerProps {
+  slots: PickerSlot[];
+  onSelect: (slot: PickerSlot) => void;
+  emptyMessage?: string;
+  showLocation?: boolean; // Name the location on each slot
+  children?: React.ReactNode; // Shown under the empty message (e.g. a back button)
+}
+
+// Available slots grouped by date, one button per slot
+const SlotPicker: React.FC<SlotPickerProps> = ({
+  slots,
+  onSelect,
+  emptyMessage = 'No available slots for this doctor.',
+  showLocation = false,
+  children
+}) => {
+  // Group slots by date
+  const groupedSlots = slots.reduce((acc: Record<string, PickerSlot[]>, slot) => {
+    const date = slot.slot_date;
+    if (!acc[date]) {
+      acc[date] = [];
+    }
+    acc[date].push(slot);
+    return acc;
+  }, {});
+
+  if (Object.keys(groupedSlots).length === 0) {
+    return (
+      <div className="no-slots">
+        <p>{emptyMessage}</p>
+        {children}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {Object.entries(groupedSlots).map(([date, dateSlots]) => (
+        <div key={date} className="date-group">
+          <h4 className="date-header">
+            {formatDate(date)}
+          </h4>
+          <div className="slots-grid">
+            {dateSlots.map((slot) => (
+              <button
+                key={slot.id}
+                onClick={() => onSelect(slot)}
+                className={`slot-button ${slot.is_held_for_me ? 'slot-held' : ''} ${slot.is_taken ? 'slot-taken' : ''}`}
+                title={slot.is_taken
+                  ? 'Just taken by someone else'
+                  : slot.is_held_for_me ? 'Held for you from the waitlist' : undefined}
+                disabled={slot.is_taken}
+              >
+                {formatSlotTime(slot)}
+                {slot.is_held_for_me && ' ⭐'}
+                {slot.visit_mode === 'video' && <span className="slot-video">📹 Video</span>}
+                {showLocation && slot.location_name && (
+                  <span className="slot-location">📍 {slot.location_name}</span>
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </>
+  );
+};
+
+export default SlotPicker;
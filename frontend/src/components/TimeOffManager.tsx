@@ -0,0 +1,224 @@
+import React, { useState, useEffect } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { getTimeOff, createTimeOff, deleteTimeOff } from '../services/api';
+
+interface TimeOff {
+  id: number;
+  doctor_id: number | null;
+  doctor_name: string | null;
+  starts_at: string;
+  ends_at: string;
+  reason: string | null;
+  flagged_appointments: string;
+}
+
+interface TimeOffManagerProps {
+  onChange?: () => void;
+}
+
+const emptyForm = {
+  doctor_id: '',
+  start_date: '',
+  end_date: '',
+  start_time: '',
+  end_time: '',
+  reason: '',
+  cancel_appointments: false
+};
+
+const TimeOffManager: React.FC<TimeOffManagerProps> = ({ onChange }) => {
+  const { doctors, setLoading } = useAppContext();
+  const [blocks, setBlocks] = useState<TimeOff[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadBlocks();
+  }, []);
+
+  const loadBlocks = async () => {
+    try {
+      const response = await getTimeOff();
+      setBlocks(response.data);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Error loading time off');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (form.cancel_appointments &&
+        !window.confirm('Cancel every booked appointment inside this block?')) return;
+
+    try {
+      setLoading(true);
+      setError('');
+      const response = await createTimeOff({
+        doctor_id: form.doctor_id ? parseInt(form.doctor_id) : undefined,
+        start_date: form.start_date,
+        end_date: form.end_date || form.start_date,
+        start_time: form.start_time || undefined,
+        end_time: form.end_time || undefined,
+        reason: form.reason || undefined,
+        cancel_appointments: form.cancel_appointments
+      });
+
+      setMessage(response.message);
+      setForm(emptyForm);
+      loadBlocks();
+      onChange?.();
+      setTimeout(() => setMessage(''), 5000);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Error creating time off');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (timeOffId: number) => {
+    if (!window.confirm('Remove this block? Its slots become bookable again.')) return;
+
+    try {
+      setLoading(true);
+      await deleteTimeOff(timeOffId);
+      loadBlocks();
+      onChange?.();
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Error removing time off');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="form-section time-off-section">
+      <h2>🌴 Time Off & Closures</h2>
+
+      {message && <div className="success-message">{message}</div>}
+      {error && <div className="error-message">{error}</div>}
+
+      <form onSubmit={handleSubmit}>
+        <div className="form-row">
+          <div className="form-group">
+            <label>Doctor</label>
+            <select
+              value={form.doctor_id}
+              onChange={(e) => setForm({ ...form, doctor_id: e.target.value })}
+            >
+              <option value="">🏥 Whole clinic (holiday / closure)</option>
+              {doctors.map((doctor) => (
+                <option key={doctor.id} value={doctor.id}>
+                  {doctor.name} - {doctor.specialty}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label>Reason</label>
+            <input
+              type="text"
+              value={form.reason}
+              onChange={(e) => setForm({ ...form, reason: e.target.value })}
+              placeholder="Annual leave, public holiday..."
+            />
+          </div>
+        </div>
+
+        <div className="form-row">
+          <div className="form-group">
+            <label>From Date *</label>
+            <input
+              type="date"
+              value={form.start_date}
+              onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+              required
+            />
+          </div>
+
+          <div className="form-group">
+            <label>To Date</label>
+            <input
+              type="date"
+              value={form.end_date}
+              onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+              min={form.start_date}
+            />
+          </div>
+        </div>
+
+        <div className="form-row">
+          <div className="form-group">
+            <label>From Time (blank = whole day)</label>
+            <input
+              type="time"
+              value={form.start_time}
+              onChange={(e) => setForm({ ...form, start_time: e.target.value })}
+            />
+          </div>
+
+          <div className="form-group">
+            <label>To Time (blank = whole day)</label>
+            <input
+              type="time"
+              value={form.end_time}
+              onChange={(e) => setForm({ ...form, end_time: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <div className="form-group checkbox-group">
+          <label>
+            <input
+              type="checkbox"
+              checked={form.cancel_appointments}
+              onChange={(e) => setForm({ ...form, cancel_appointments: e.target.checked })}
+            />
+            Cancel booked appointments in this period (otherwise they are flagged for rescheduling)
+          </label>
+        </div>
+
+        <button type="submit" className="btn-primary">
+          Add Time Off
+        </button>
+      </form>
+
+      {blocks.length > 0 && (
+        <div className="table-container time-off-list">
+          <table>
+            <thead>
+              <tr>
+                <th>Who</th>
+                <th>From</th>
+                <th>To</th>
+                <th>Reason</th>
+                <th>Flagged</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {blocks.map((block) => (
+                <tr key={block.id}>
+                  <td>{block.doctor_name || 'Whole clinic'}</td>
+                  <td>{new Date(block.starts_at).toLocaleString()}</td>
+                  <td>{new Date(block.ends_at).toLocaleString()}</td>
+                  <td>{block.reason || '-'}</td>
+                  <td>{block.flagged_appointments}</td>
+                  <td>
+                    <button onClick={() => handleDelete(block.id)} className="btn-change">
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimeOffManager;
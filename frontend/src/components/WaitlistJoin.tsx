@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { joinWaitlist } from '../services/api';
+
+interface WaitlistJoinProps {
+  doctorId: number;
+}
+
+// Lets a patient queue for the next free slot with a doctor
+const WaitlistJoin: React.FC<WaitlistJoinProps> = ({ doctorId }) => {
+  const [preferredDate, setPreferredDate] = useState('');
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setError('');
+      const response = await joinWaitlist({
+        doctor_id: doctorId,
+        preferred_date: preferredDate || undefined
+      });
+      setMessage(response.message);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Could not join the waitlist');
+    }
+  };
+
+  if (message) {
+    return <div className="success-message waitlist-join">{message}</div>;
+  }
+
+  return (
+    <form onSubmit={handleJoin} className="waitlist-join">
+      <p>⏳ Join the waitlist and we'll hold the next free slot for you.</p>
+      {error && <div className="error-message">{error}</div>}
+      <div className="waitlist-join-row">
+        <input
+          type="date"
+          value={preferredDate}
+          onChange={(e) => setPreferredDate(e.target.value)}
+          min={new Date().toISOString().split('T')[0]}
+          title="Only this date (optional)"
+        />
+        <button type="submit" className="btn-primary">
+          Join Waitlist
+        </button>
+      </div>
+      <small>Leave the date empty to take the first slot on any day.</small>
+    </form>
+  );
+};
+
+export default WaitlistJoin;
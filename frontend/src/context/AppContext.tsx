@@ -1,12 +1,36 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import {
+  login as loginRequest,
+  register as registerRequest,
+  logout as logoutRequest,
+  getCurrentUser,
+  TOKEN_STORAGE_KEY,
+} from '../services/api';
 
 // Define Types
+export type UserRole = 'admin' | 'doctor' | 'patient';
+
+export interface User {
+  id: number;
+  name: string;
+  email: string;
+  role: UserRole;
+  doctor_id: number | null;
+}
+
 interface Doctor {
   id: number;
   name: string;
   email: string;
   specialty: string;
   consultation_fee: number;
+  bio?: string | null;
+  qualifications?: string | null;
+  languages?: string[];
+  years_of_experience?: number | null;
+  photo_url?: string | null;
+  is_active?: boolean;
+  locations?: { id: number; name: string; address: string }[];
 }
 
 interface Slot {
@@ -15,6 +39,9 @@ interface Slot {
   slot_date: string;
   start_time: string;
   end_time: string;
+  starts_at?: string;
+  ends_at?: string;
+  timezone?: string;
   is_booked: boolean;
   doctor_name?: string;
   specialty?: string;
@@ -43,9 +70,12 @@ interface AppContextType {
   loading: boolean;
   error: string | null;
   
-  // User info
-  patientEmail: string;
-  setPatientEmail: (email: string) => void;
+  // Authenticated user
+  user: User | null;
+  authLoading: boolean;
+  login: (email: string, password: string) => Promise<User>;
+  register: (name: string, email: string, password: string) => Promise<User>;
+  logout: () => Promise<void>;
   
   // Functions
   setDoctors: (doctors: Doctor[]) => void;
@@ -65,14 +95,46 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const [appointments, setAppointments] = useState<Appointment[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [patientEmail, setPatientEmail] = useState<string>(
-    localStorage.getItem('patientEmail') || ''
+  const [user, setUser] = useState<User | null>(null);
+  const [authLoading, setAuthLoading] = useState(
+    Boolean(localStorage.getItem(TOKEN_STORAGE_KEY))
   );
 
-  // Save email to localStorage when it changes
-  const handleSetPatientEmail = (email: string) => {
-    setPatientEmail(email);
-    localStorage.setItem('patientEmail', email);
+  // Restore the session from a saved token
+  useEffect(() => {
+    if (!localStorage.getItem(TOKEN_STORAGE_KEY)) return;
+
+    getCurrentUser()
+      .then((response) => setUser(response.data))
+      .catch(() => localStorage.removeItem(TOKEN_STORAGE_KEY))
+      .finally(() => setAuthLoading(false));
+  }, []);
+
+  // Save the token and user returned by login/register
+  const startSession = (data: { token: string; user: User }) => {
+    localStorage.setItem(TOKEN_STORAGE_KEY, data.token);
+    setUser(data.user);
+    return data.user;
+  };
+
+  const login = async (email: string, password: string) => {
+    const response = await loginRequest({ email, password });
+    return startSession(response.data);
+  };
+
+  const register = async (name: string, email: string, password: string) => {
+    const response = await registerRequest({ name, email, password });
+    return startSession(response.data);
+  };
+
+  const logout = async () => {
+    try {
+      await logoutRequest();
+    } catch (err) {
+      console.error('Error logging out:', err);
+    }
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+    setUser(null);
   };
 
   return (
@@ -83,8 +145,11 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         appointments,
         loading,
         error,
-        patientEmail,
-        setPatientEmail: handleSetPatientEmail,
+        user,
+        authLoading,
+        login,
+        register,
+        logout,
         setDoctors,
         setSlots,
         setAppointments,
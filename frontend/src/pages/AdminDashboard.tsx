@@ -1,39 +1,91 @@
 import React, { useState, useEffect } from 'react';
 import { useAppContext } from '../context/AppContext';
-import { createDoctor, getAllDoctors, createSlot, getDashboardStats } from '../services/api';
+import {
+  DashboardStats,
+  Doctor,
+  Location,
+  VisitMode,
+  createDoctor,
+  getAllDoctors,
+  updateDoctor,
+  createSlot,
+  getDashboardStats,
+  getLocations,
+  subscribeToSlotEvents
+} from '../services/api';
+import AvailabilityTemplates from '../components/AvailabilityTemplates';
+import AppointmentTypes from '../components/AppointmentTypes';
+import TimeOffManager from '../components/TimeOffManager';
+import ReminderSettings from '../components/ReminderSettings';
+import HoldSettings from '../components/HoldSettings';
+import BookingLimitsSettings from '../components/BookingLimitsSettings';
+import CancellationPolicies from '../components/CancellationPolicies';
+import AppointmentsConsole from '../components/AppointmentsConsole';
+import DoctorEditor from '../components/DoctorEditor';
+import LocationManager from '../components/LocationManager';
+import LocationPicker from '../components/LocationPicker';
 
 const AdminDashboard: React.FC = () => {
   const { doctors, setDoctors, setLoading, setError } = useAppContext();
-  const [stats, setStats] = useState<any>(null);
+  const [stats, setStats] = useState<DashboardStats | null>(null);
+  const [locations, setLocations] = useState<Location[]>([]);
   
   // Doctor Form State
   const [doctorForm, setDoctorForm] = useState({
     name: '',
     email: '',
     specialty: '',
-    consultation_fee: ''
+    consultation_fee: '',
+    password: '',
+    location_ids: [] as number[]
   });
 
   // Slot Form State
   const [slotForm, setSlotForm] = useState({
     doctor_id: '',
+    location_id: '',
     slot_date: '',
     start_time: '',
-    end_time: ''
+    end_time: '',
+    visit_mode: 'in_person'
   });
 
+  // Server validation errors for the slot form, keyed by field ("form" = whole form)
+  const [slotErrors, setSlotErrors] = useState<Record<string, string>>({});
+
   const [successMessage, setSuccessMessage] = useState('');
 
+  // Doctor being edited in the doctors table
+  const [editingDoctor, setEditingDoctor] = useState<Doctor | null>(null);
+
   // Load data on mount
   useEffect(() => {
     loadDoctors();
     loadStats();
+    loadLocations();
+  }, []);
+
+  // New slots, bookings, releases and status changes anywhere change the
+  // counts; a burst of them (bulk actions, the expiry job) reloads the
+  // stats once
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const reloadSoon = () => {
+      clearTimeout(timer);
+      timer = setTimeout(loadStats, 1000);
+    };
+
+    const unsubscribe = subscribeToSlotEvents(reloadSoon, reloadSoon);
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
   }, []);
 
   const loadDoctors = async () => {
     try {
       setLoading(true);
-      const response = await getAllDoctors();
+      const response = await getAllDoctors({ include_inactive: true });
       setDoctors(response.data);
     } catch (err: any) {
       setError(err.message);
@@ -42,6 +94,50 @@ const AdminDashboard: React.FC = () => {
     }
   };
 
+  const loadLocations = async () => {
+    try {
+      const response = await getLocations();
+      setLocations(response.data);
+    } catch (err) {
+      console.error('Error loading locations:', err);
+    }
+  };
+
+  // Locations also show up on doctors and in the stats
+  const handleLocationsChanged = () => {
+    loadLocations();
+    loadDoctors();
+    loadStats();
+  };
+
+  const handleDoctorSaved = () => {
+    setEditingDoctor(null);
+    setSuccessMessage('Doctor updated successfully!');
+    setTimeout(() => setSuccessMessage(''), 3000);
+    loadDoctors();
+  };
+
+  // Deactivated doctors keep their history but can't be booked
+  const handleToggleActive = async (doctor: Doctor) => {
+    const active = doctor.is_active !== false;
+    if (active && !window.confirm(
+      `Deactivate ${doctor.name}? They will be hidden from patients and their free slots can no longer be booked.`
+    )) return;
+
+    try {
+      setLoading(true);
+      const response = await updateDoctor(doctor.id, { is_active: !active });
+      setSuccessMessage(response.message);
+      setTimeout(() => setSuccessMessage(''), 5000);
+      loadDoctors();
+      loadStats();
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Error updating doctor');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const loadStats = async () => {
     try {
       const response = await getDashboardStats();
@@ -58,11 +154,12 @@ const AdminDashboard: React.FC = () => {
       setLoading(true);
       await createDoctor({
         ...doctorForm,
-        consultation_fee: parseFloat(doctorForm.consultation_fee)
+        consultation_fee: parseFloat(doctorForm.consultation_fee),
+        password: doctorForm.password || undefined
       });
       
       setSuccessMessage('Doctor created successfully!');
-      setDoctorForm({ name: '', email: '', specialty: '', consultation_fee: '' });
+      setDoctorForm({ name: '', email: '', specialty: '', consultation_fee: '', password: '', location_ids: [] });
       loadDoctors();
       
       setTimeout(() => setSuccessMessage(''), 3000);
@@ -78,23 +175,34 @@ const AdminDashboard: React.FC = () => {
     e.preventDefault();
     try {
       setLoading(true);
+      setSlotErrors({});
       await createSlot({
         ...slotForm,
-        doctor_id: parseInt(slotForm.doctor_id)
+        doctor_id: parseInt(slotForm.doctor_id),
+        location_id: slotForm.location_id ? parseInt(slotForm.location_id) : undefined,
+        visit_mode: slotForm.visit_mode as VisitMode
       });
       
       setSuccessMessage('Slot created successfully!');
-      setSlotForm({ doctor_id: '', slot_date: '', start_time: '', end_time: '' });
+      setSlotForm({ doctor_id: '', location_id: '', slot_date: '', start_time: '', end_time: '', visit_mode: 'in_person' });
       loadStats();
       
       setTimeout(() => setSuccessMessage(''), 3000);
     } catch (err: any) {
-      setError(err.response?.data?.message || 'Error creating slot');
+      const data = err.response?.data;
+      if (data?.errors) {
+        setSlotErrors(data.errors);
+      } else {
+        setSlotErrors({ form: data?.message || 'Error creating slot' });
+      }
     } finally {
       setLoading(false);
     }
   };
 
+  // Doctors at several locations need one picked for the slot
+  const slotDoctorLocations = doctors.find((doctor) => String(doctor.id) === slotForm.doctor_id)?.locations || [];
+
   return (
     <div className="admin-dashboard">
       <h1>🔧 Admin Dashboard</h1>
@@ -126,6 +234,34 @@ const AdminDashboard: React.FC = () => {
         </div>
       )}
 
+      {/* Stats per Location */}
+      {stats && stats.locations.length > 1 && (
+        <div className="table-container location-stats">
+          <table>
+            <thead>
+              <tr>
+                <th>Location</th>
+                <th>Doctors</th>
+                <th>Available Slots</th>
+                <th>Pending</th>
+                <th>Confirmed</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.locations.map((location) => (
+                <tr key={location.id}>
+                  <td>📍 {location.name}</td>
+                  <td>{location.total_doctors}</td>
+                  <td>{location.available_slots}</td>
+                  <td>{location.pending_appointments}</td>
+                  <td>{location.confirmed_appointments}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       <div className="admin-forms">
         {/* Create Doctor Form */}
         <div className="form-section">
@@ -182,6 +318,26 @@ const AdminDashboard: React.FC = () => {
               />
             </div>
 
+            <div className="form-group">
+              <label>Login Password (optional)</label>
+              <input
+                type="password"
+                value={doctorForm.password}
+                onChange={(e) => setDoctorForm({ ...doctorForm, password: e.target.value })}
+                minLength={8}
+                placeholder="Creates a doctor login account"
+              />
+            </div>
+
+            <div className="form-group">
+              <label>Locations</label>
+              <LocationPicker
+                locations={locations}
+                selected={doctorForm.location_ids}
+                onChange={(locationIds) => setDoctorForm({ ...doctorForm, location_ids: locationIds })}
+              />
+            </div>
+
             <button type="submit" className="btn-primary">
               Create Doctor
             </button>
@@ -192,22 +348,44 @@ const AdminDashboard: React.FC = () => {
         <div className="form-section">
           <h2>📅 Create Time Slot</h2>
           <form onSubmit={handleCreateSlot}>
+            {slotErrors.form && (
+              <div className="error-message">{slotErrors.form}</div>
+            )}
+
             <div className="form-group">
               <label>Select Doctor *</label>
               <select
                 value={slotForm.doctor_id}
-                onChange={(e) => setSlotForm({ ...slotForm, doctor_id: e.target.value })}
+                onChange={(e) => setSlotForm({ ...slotForm, doctor_id: e.target.value, location_id: '' })}
                 required
               >
                 <option value="">Choose a doctor</option>
-                {doctors.map((doctor) => (
+                {doctors.filter((doctor) => doctor.is_active !== false).map((doctor) => (
                   <option key={doctor.id} value={doctor.id}>
                     {doctor.name} - {doctor.specialty}
                   </option>
                 ))}
               </select>
+              {slotErrors.doctor_id && <span className="field-error">{slotErrors.doctor_id}</span>}
             </div>
 
+            {slotDoctorLocations.length > 1 && (
+              <div className="form-group">
+                <label>Location *</label>
+                <select
+                  value={slotForm.location_id}
+                  onChange={(e) => setSlotForm({ ...slotForm, location_id: e.target.value })}
+                  required
+                >
+                  <option value="">Choose a location</option>
+                  {slotDoctorLocations.map((location) => (
+                    <option key={location.id} value={location.id}>{location.name}</option>
+                  ))}
+                </select>
+                {slotErrors.location_id && <span className="field-error">{slotErrors.location_id}</span>}
+              </div>
+            )}
+
             <div className="form-group">
               <label>Date *</label>
               <input
@@ -217,6 +395,7 @@ const AdminDashboard: React.FC = () => {
                 required
                 min={new Date().toISOString().split('T')[0]}
               />
+              {slotErrors.slot_date && <span className="field-error">{slotErrors.slot_date}</span>}
             </div>
 
             <div className="form-row">
@@ -228,6 +407,7 @@ const AdminDashboard: React.FC = () => {
                   onChange={(e) => setSlotForm({ ...slotForm, start_time: e.target.value })}
                   required
                 />
+                {slotErrors.start_time && <span className="field-error">{slotErrors.start_time}</span>}
               </div>
 
               <div className="form-group">
@@ -238,9 +418,22 @@ const AdminDashboard: React.FC = () => {
                   onChange={(e) => setSlotForm({ ...slotForm, end_time: e.target.value })}
                   required
                 />
+                {slotErrors.end_time && <span className="field-error">{slotErrors.end_time}</span>}
               </div>
             </div>
 
+            <div className="form-group">
+              <label>Visit</label>
+              <select
+                value={slotForm.visit_mode}
+                onChange={(e) => setSlotForm({ ...slotForm, visit_mode: e.target.value })}
+              >
+                <option value="in_person">In person</option>
+                <option value="video">Video</option>
+              </select>
+              {slotErrors.visit_mode && <span className="field-error">{slotErrors.visit_mode}</span>}
+            </div>
+
             <button type="submit" className="btn-primary">
               Create Slot
             </button>
@@ -248,6 +441,29 @@ const AdminDashboard: React.FC = () => {
         </div>
       </div>
 
+      {/* Recurring Weekly Schedules */}
+      <AvailabilityTemplates onGenerated={loadStats} />
+
+      {/* Kinds of Visit per Doctor */}
+      <AppointmentTypes />
+
+      {/* Doctor Leave & Clinic Closures */}
+      <TimeOffManager onChange={loadStats} />
+
+      {/* Clinic Locations */}
+      <LocationManager locations={locations} onChange={handleLocationsChanged} />
+
+      {/* Settings */}
+      <div className="admin-forms">
+        <ReminderSettings />
+        <HoldSettings />
+        <BookingLimitsSettings />
+        <CancellationPolicies locations={locations} />
+      </div>
+
+      {/* All Appointments */}
+      <AppointmentsConsole onChange={loadStats} />
+
       {/* Doctors List */}
       <div className="doctors-list">
         <h2>👨‍⚕️ All Doctors ({doctors.length})</h2>
@@ -257,22 +473,52 @@ const AdminDashboard: React.FC = () => {
               <tr>
                 <th>Name</th>
                 <th>Specialty</th>
+                <th>Locations</th>
                 <th>Email</th>
                 <th>Fee</th>
+                <th>Status</th>
+                <th>Actions</th>
               </tr>
             </thead>
             <tbody>
               {doctors.map((doctor) => (
-                <tr key={doctor.id}>
+                <tr key={doctor.id} className={doctor.is_active === false ? 'doctor-inactive' : ''}>
                   <td>{doctor.name}</td>
                   <td>{doctor.specialty}</td>
+                  <td>{(doctor.locations || []).map((location) => location.name).join(', ') || '-'}</td>
                   <td>{doctor.email}</td>
                   <td>₹{doctor.consultation_fee}</td>
+                  <td>
+                    <span className={`status-badge ${doctor.is_active === false ? 'status-cancelled' : 'status-confirmed'}`}>
+                      {doctor.is_active === false ? 'INACTIVE' : 'ACTIVE'}
+                    </span>
+                  </td>
+                  <td className="doctor-actions">
+                    <button onClick={() => setEditingDoctor(doctor)} className="btn-change">
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleToggleActive(doctor)}
+                      className={doctor.is_active === false ? 'btn-confirm' : 'btn-cancel'}
+                    >
+                      {doctor.is_active === false ? 'Activate' : 'Deactivate'}
+                    </button>
+                  </td>
                 </tr>
               ))}
             </tbody>
           </table>
         </div>
+
+        {editingDoctor && (
+          <DoctorEditor
+            key={editingDoctor.id}
+            doctor={editingDoctor}
+            locations={locations}
+            onSaved={handleDoctorSaved}
+            onCancel={() => setEditingDoctor(null)}
+          />
+        )}
       </div>
     </div>
   );
@@ -1,13 +1,49 @@
-import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useRef } from 'react';
+import { Link, useParams, useNavigate } from 'react-router-dom';
 import { useAppContext } from '../context/AppContext';
-import { getDoctorById, getAvailableSlots, bookAppointment } from '../services/api';
+import {
+  Patient,
+  Dependent,
+  AppointmentType,
+  SlotHold,
+  VisitMode,
+  SlotEvent,
+  getDoctorById,
+  getAppointmentTypes,
+  getAvailableSlots,
+  bookAppointment,
+  newIdempotencyKey,
+  getMyProfile,
+  getDependents,
+  payWithMockProvider,
+  holdSlot,
+  releaseSlotHold,
+  subscribeToSlotEvents
+} from '../services/api';
+import SlotPicker from '../components/SlotPicker';
+import WaitlistJoin from '../components/WaitlistJoin';
+import Countdown from '../components/Countdown';
+import DoctorAvatar from '../components/DoctorAvatar';
+import { formatSlotDate, formatSlotTime, yearsSince, withDuration } from '../utils/dateTime';
 
 interface Doctor {
   id: number;
   name: string;
   specialty: string;
   consultation_fee: number;
+  bio: string | null;
+  qualifications: string | null;
+  languages: string[];
+  years_of_experience: number | null;
+  photo_url: string | null;
+  is_active: boolean;
+  locations: { id: number; name: string; address: string }[];
+}
+
+interface BookingPayment {
+  id: number;
+  amount: string;
+  currency: string;
 }
 
 interface Slot {
@@ -15,34 +51,95 @@ interface Slot {
   slot_date: string;
   start_time: string;
   end_time: string;
+  starts_at?: string;
+  ends_at?: string;
+  timezone?: string | null;
+  location_id?: number | null;
+  location_name?: string | null;
+  location_address?: string | null;
+  visit_mode?: VisitMode;
+  is_held_for_me?: boolean;
 }
 
 const BookingPage: React.FC = () => {
   const { doctorId } = useParams<{ doctorId: string }>();
   const navigate = useNavigate();
-  const { patientEmail, setPatientEmail, setLoading } = useAppContext();
+  const { user, setLoading } = useAppContext();
 
   const [doctor, setDoctor] = useState<Doctor | null>(null);
+  const [types, setTypes] = useState<AppointmentType[]>([]);
+  const [selectedType, setSelectedType] = useState<AppointmentType | null>(null);
   const [slots, setSlots] = useState<Slot[]>([]);
   const [selectedSlot, setSelectedSlot] = useState<Slot | null>(null);
-  const [step, setStep] = useState(1); // 1: Select slot, 2: Fill details
+  const [takenSlotIds, setTakenSlotIds] = useState<number[]>([]); // taken by others since the list loaded
+  const [hold, setHold] = useState<SlotHold | null>(null);
+  const [holdExpired, setHoldExpired] = useState(false);
+  // The slots this page is holding, so their "held" events aren't mistaken for someone else's
+  const ownSlotIds = useRef<number[]>([]);
+  const [locationId, setLocationId] = useState('');
+  const [visitMode, setVisitMode] = useState('');
+  const [step, setStep] = useState(1); // 0: Choose visit type (doctors who offer types), 1: Select slot, 2: Fill details
   
   // Form state
   const [formData, setFormData] = useState({
-    patient_name: '',
-    patient_email: patientEmail,
+    patient_name: user?.role === 'patient' ? user.name : '',
+    patient_email: user?.email || '',
     patient_phone: '',
     patient_age: '',
     reason_for_visit: ''
   });
 
   const [bookingSuccess, setBookingSuccess] = useState(false);
+  const [confirmBy, setConfirmBy] = useState<string | null>(null);
+  const [payment, setPayment] = useState<BookingPayment | null>(null);
+  const [paymentMessage, setPaymentMessage] = useState('');
   const [bookingError, setBookingError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  // Kept while a booking attempt may have reached the server, so a retry
+  // (or a second click) can't book twice
+  const bookingKey = useRef<string | null>(null);
+  const [profile, setProfile] = useState<Patient | null>(null);
+  const [dependents, setDependents] = useState<Dependent[]>([]);
+  const [dependentId, setDependentId] = useState('');
 
   useEffect(() => {
     loadDoctorAndSlots();
   }, [doctorId]);
 
+  // Patients book with the details saved on their profile
+  useEffect(() => {
+    if (user?.role !== 'patient') return;
+    getMyProfile()
+      .then((response) => {
+        const patient: Patient = response.data;
+        setProfile(patient);
+        setFormData((current) => ({
+          ...current,
+          patient_name: patient.name,
+          patient_phone: patient.phone || current.patient_phone,
+          patient_age: patient.date_of_birth ? String(yearsSince(patient.date_of_birth)) : current.patient_age
+        }));
+      })
+      .catch((err) => console.error('Error loading profile:', err));
+    getDependents()
+      .then((response) => setDependents(response.data))
+      .catch((err) => console.error('Error loading family members:', err));
+  }, [user]);
+
+  // Switching who the visit is for swaps in that person's name and age;
+  // the contact details stay the account holder's
+  const handleBookingForChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const dependent = dependents.find((item) => item.id === parseInt(e.target.value));
+    const dateOfBirth = dependent ? dependent.date_of_birth : profile?.date_of_birth;
+
+    setDependentId(e.target.value);
+    setFormData({
+      ...formData,
+      patient_name: dependent ? dependent.name : profile?.name || user?.name || '',
+      patient_age: dateOfBirth ? String(yearsSince(dateOfBirth)) : ''
+    });
+  };
+
   const loadDoctorAndSlots = async () => {
     try {
       setLoading(true);
@@ -51,9 +148,18 @@ const BookingPage: React.FC = () => {
       const doctorResponse = await getDoctorById(parseInt(doctorId!));
       setDoctor(doctorResponse.data);
 
+      // Doctors who offer appointment types are booked for one, chosen first
+      const typesResponse = await getAppointmentTypes(parseInt(doctorId!));
+      setTypes(typesResponse.data);
+
+      if (typesResponse.data.length > 0) {
+        setStep(0);
+        return;
+      }
+
       // Load available slots
-      const slotsResponse = await getAvailableSlots(parseInt(doctorId!));
-      setSlots(slotsResponse.data);
+      setSlots(await fetchSlots(null));
+      setTakenSlotIds([]);
     } catch (err: any) {
       console.error('Error loading data:', err);
       setBookingError('Failed to load doctor information');
@@ -62,9 +168,112 @@ const BookingPage: React.FC = () => {
     }
   };
 
-  const handleSlotSelect = (slot: Slot) => {
-    setSelectedSlot(slot);
-    setStep(2);
+  // With a type, only slots with enough free time after them for it are
+  // offered, shown with the visit's own end time
+  const fetchSlots = async (type: AppointmentType | null): Promise<Slot[]> => {
+    if (!type) {
+      const response = await getAvailableSlots(parseInt(doctorId!));
+      return response.data;
+    }
+    const response = await getAvailableSlots(type.doctor_id, { appointment_type_id: type.id });
+    return response.data.map((slot: Slot) => withDuration(slot, type.duration_minutes));
+  };
+
+  // Keep the list current while the patient chooses: slots others book or
+  // hold are greyed out, and freed ones show up again
+  const refreshSlots = async () => {
+    try {
+      setSlots(await fetchSlots(selectedType));
+      setTakenSlotIds([]);
+    } catch (err) {
+      console.error('Error refreshing slots:', err);
+    }
+  };
+
+  const handleSlotEvent = (event: SlotEvent) => {
+    const changedIds = event.slots
+      .filter((slot) => slot.doctor_id === doctor?.id)
+      .map((slot) => slot.id);
+    if (changedIds.length === 0 || event.type === 'slot.updated') return;
+
+    // New or freed slots show up after a reload
+    if (event.type === 'slot.created' || event.type === 'slot.released') {
+      refreshSlots();
+      return;
+    }
+
+    const othersIds = changedIds.filter((slotId) => !ownSlotIds.current.includes(slotId));
+    if (othersIds.length > 0) {
+      setTakenSlotIds((current) => [...current, ...othersIds]);
+    }
+  };
+
+  // The stream calls the latest handlers, so it stays open across renders
+  const slotEventHandlers = useRef({ onEvent: handleSlotEvent, onReconnect: refreshSlots });
+  useEffect(() => {
+    slotEventHandlers.current = { onEvent: handleSlotEvent, onReconnect: refreshSlots };
+  });
+
+  const listensToSlots = Boolean(doctor) && !bookingSuccess && (types.length === 0 || Boolean(selectedType));
+
+  useEffect(() => {
+    if (!listensToSlots) return;
+
+    return subscribeToSlotEvents(
+      (event) => slotEventHandlers.current.onEvent(event),
+      () => slotEventHandlers.current.onReconnect()
+    );
+  }, [listensToSlots]);
+
+  const handleTypeSelect = async (type: AppointmentType) => {
+    try {
+      setLoading(true);
+      setBookingError('');
+      setSlots(await fetchSlots(type));
+      setTakenSlotIds([]);
+      setSelectedType(type);
+      setStep(1);
+    } catch (err: any) {
+      setBookingError(err.response?.data?.message || 'Failed to load available slots');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Picking a slot holds it while the form is filled in, so nobody else
+  // can book it in the meantime
+  const handleSlotSelect = async (slot: Slot) => {
+    try {
+      setLoading(true);
+      setBookingError('');
+      ownSlotIds.current = [slot.id];
+      const response = await holdSlot(slot.id, selectedType?.id);
+      ownSlotIds.current = response.data.slot_ids;
+      setHold(response.data);
+      setHoldExpired(false);
+      setSelectedSlot(slot);
+      setStep(2);
+    } catch (err: any) {
+      ownSlotIds.current = [];
+      if (err.response?.status === 409) {
+        setTakenSlotIds((current) => [...current, slot.id]);
+      }
+      setBookingError(err.response?.data?.message || 'This slot could not be held. Please select another slot.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Give the held slot back for others before picking another
+  const handleChangeSlot = () => {
+    if (selectedSlot && hold && !holdExpired) {
+      releaseSlotHold(selectedSlot.id).catch((err) => console.error('Error releasing hold:', err));
+    }
+    ownSlotIds.current = [];
+    bookingKey.current = null;
+    setHold(null);
+    setBookingError('');
+    setStep(1);
   };
 
   const handleFormChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
@@ -81,45 +290,90 @@ const BookingPage: React.FC = () => {
       setBookingError('Please select a time slot');
       return;
     }
+    if (submitting) return;
+
+    bookingKey.current = bookingKey.current || newIdempotencyKey();
 
     try {
+      setSubmitting(true);
       setLoading(true);
       setBookingError('');
 
-      await bookAppointment({
+      const response = await bookAppointment({
         slot_id: selectedSlot.id,
         patient_name: formData.patient_name,
         patient_email: formData.patient_email,
         patient_phone: formData.patient_phone,
         patient_age: parseInt(formData.patient_age),
-        reason_for_visit: formData.reason_for_visit
-      });
-
-      // Save email for future bookings
-      setPatientEmail(formData.patient_email);
+        reason_for_visit: formData.reason_for_visit,
+        dependent_id: dependentId ? parseInt(dependentId) : undefined,
+        appointment_type_id: selectedType?.id
+      }, bookingKey.current);
 
+      setConfirmBy(response.data.expires_at);
       setBookingSuccess(true);
-      
-      // Redirect after 3 seconds
-      setTimeout(() => {
-        navigate('/my-appointments');
-      }, 3000);
+
+      // Bookings with a fee wait on the payment step, the rest redirect after 3 seconds
+      if (response.data.payment) {
+        setPayment(response.data.payment);
+      } else {
+        setTimeout(() => {
+          navigate('/my-appointments');
+        }, 3000);
+      }
     } catch (err: any) {
+      // The server answered, so the next try (maybe with changed details)
+      // is a new request. Without an answer it may still have booked, and
+      // trying again with the same key finds out.
+      if (err.response) {
+        bookingKey.current = null;
+      }
       setBookingError(err.response?.data?.message || 'Booking failed. Slot might be already booked.');
     } finally {
+      setSubmitting(false);
       setLoading(false);
     }
   };
 
-  // Group slots by date
-  const groupedSlots = slots.reduce((acc: any, slot) => {
-    const date = slot.slot_date;
-    if (!acc[date]) {
-      acc[date] = [];
+  // Paying confirms the booking; a declined payment can be tried again
+  const handlePay = async () => {
+    if (!payment) return;
+
+    try {
+      setLoading(true);
+      const response = await payWithMockProvider(payment.id);
+      setPaymentMessage(response.message);
+
+      if (response.data.status === 'SUCCEEDED') {
+        setPayment(null);
+        setConfirmBy(null);
+        setTimeout(() => {
+          navigate('/my-appointments');
+        }, 3000);
+      }
+    } catch (err: any) {
+      setPaymentMessage(err.response?.data?.message || 'Payment failed, please try again');
+    } finally {
+      setLoading(false);
     }
-    acc[date].push(slot);
-    return acc;
-  }, {});
+  };
+
+  const typeFee = (type: AppointmentType) => type.fee ?? doctor?.consultation_fee;
+  const hasTypes = types.length > 0;
+
+  // Doctors working at several locations can be narrowed down to one
+  const hasSeveralLocations = (doctor?.locations.length || 0) > 1;
+  // Doctors offering both kinds of visit can be narrowed down to one
+  const hasBothModes = slots.some((slot) => slot.visit_mode === 'video') &&
+    slots.some((slot) => slot.visit_mode !== 'video');
+  const visibleSlots = slots
+    .filter((slot) =>
+      (!locationId || slot.location_id === parseInt(locationId)) &&
+      (!visitMode || slot.visit_mode === visitMode)
+    )
+    .map((slot) => ({ ...slot, is_taken: takenSlotIds.includes(slot.id) }));
+  const selectedSlotTaken = !!selectedSlot && takenSlotIds.includes(selectedSlot.id);
+  const isVideo = selectedSlot?.visit_mode === 'video';
 
   if (bookingSuccess) {
     return (
@@ -128,7 +382,29 @@ const BookingPage: React.FC = () => {
           <div className="success-icon">✅</div>
           <h2>Appointment Booked Successfully!</h2>
           <p>Your appointment with {doctor?.name} has been booked.</p>
-          <p className="redirect-text">Redirecting to My Appointments...</p>
+          {selectedType && <p>🩺 {selectedType.name} ({selectedType.duration_minutes} min)</p>}
+          {selectedSlot && <p>📅 {formatSlotDate(selectedSlot)}, {formatSlotTime(selectedSlot)}</p>}
+          {isVideo
+            ? <p>📹 Video visit: the link appears in My Appointments shortly before it starts</p>
+            : selectedSlot?.location_name && <p>📍 {selectedSlot.location_name}</p>}
+          {confirmBy && (
+            <p>
+              Please {payment ? 'pay' : 'confirm it'} within <Countdown until={confirmBy} /> or the slot will be released.
+            </p>
+          )}
+          {paymentMessage && <p className="payment-message">{paymentMessage}</p>}
+          {payment ? (
+            <div className="payment-actions">
+              <button onClick={handlePay} className="btn-primary">
+                💳 Pay {payment.currency} {payment.amount}
+              </button>
+              <button onClick={() => navigate('/my-appointments')} className="btn-secondary">
+                Pay Later
+              </button>
+            </div>
+          ) : (
+            <p className="redirect-text">Redirecting to My Appointments...</p>
+          )}
         </div>
       </div>
     );
@@ -139,25 +415,47 @@ const BookingPage: React.FC = () => {
       {/* Doctor Info */}
       {doctor && (
         <div className="doctor-header">
-          <div className="doctor-avatar-large">
-            {doctor.name.charAt(0)}
-          </div>
+          <DoctorAvatar name={doctor.name} photoUrl={doctor.photo_url} className="doctor-avatar-large" />
           <div>
             <h2>{doctor.name}</h2>
             <p className="specialty">{doctor.specialty}</p>
+            {doctor.qualifications && <p className="qualifications">{doctor.qualifications}</p>}
             <p className="fee">₹{doctor.consultation_fee} / consultation</p>
+            <div className="doctor-facts">
+              {doctor.years_of_experience != null && (
+                <span>🩺 {doctor.years_of_experience} yrs experience</span>
+              )}
+              {doctor.languages.length > 0 && <span>🗣️ {doctor.languages.join(', ')}</span>}
+              {doctor.locations.length > 0 && (
+                <span>📍 {doctor.locations.map((location) => location.name).join(', ')}</span>
+              )}
+            </div>
           </div>
         </div>
       )}
 
+      {doctor?.bio && <p className="doctor-bio-full">{doctor.bio}</p>}
+
+      {doctor && !doctor.is_active && (
+        <div className="error-message">
+          {doctor.name} is no longer taking bookings. Please choose another doctor.
+        </div>
+      )}
+
       {/* Steps Indicator */}
       <div className="steps-indicator">
+        {hasTypes && (
+          <div className="step active">
+            <span className="step-number">1</span>
+            <span>Choose Visit</span>
+          </div>
+        )}
         <div className={`step ${step >= 1 ? 'active' : ''}`}>
-          <span className="step-number">1</span>
+          <span className="step-number">{hasTypes ? 2 : 1}</span>
           <span>Select Slot</span>
         </div>
         <div className={`step ${step >= 2 ? 'active' : ''}`}>
-          <span className="step-number">2</span>
+          <span className="step-number">{hasTypes ? 3 : 2}</span>
           <span>Enter Details</span>
         </div>
       </div>
@@ -166,42 +464,88 @@ const BookingPage: React.FC = () => {
         <div className="error-message">{bookingError}</div>
       )}
 
+      {/* Step 0: Choose the kind of visit */}
+      {step === 0 && (
+        <div className="slots-section">
+          <h3>🩺 What kind of visit do you need?</h3>
+          <div className="appointment-type-options">
+            {types.map((type) => (
+              <button
+                key={type.id}
+                onClick={() => handleTypeSelect(type)}
+                className={`appointment-type-option ${selectedType?.id === type.id ? 'selected' : ''}`}
+              >
+                <strong>{type.name}</strong>
+                <span className="console-sub">
+                  {type.duration_minutes} min · ₹{typeFee(type)}
+                  {type.visit_mode === 'video' && ' · 📹 Video'}
+                </span>
+                {type.description && <span className="field-hint">{type.description}</span>}
+              </button>
+            ))}
+          </div>
+          <button onClick={() => navigate('/')} className="btn-secondary">
+            Go Back
+          </button>
+        </div>
+      )}
+
       {/* Step 1: Select Slot */}
       {step === 1 && (
         <div className="slots-section">
           <h3>📅 Available Time Slots</h3>
-          
-          {Object.keys(groupedSlots).length === 0 ? (
-            <div className="no-slots">
-              <p>No available slots for this doctor.</p>
-              <button onClick={() => navigate('/')} className="btn-secondary">
-                Go Back
+
+          {selectedType && (
+            <div className="selected-type-info">
+              🩺 {selectedType.name} · {selectedType.duration_minutes} min · ₹{typeFee(selectedType)}
+              {selectedType.visit_mode === 'video' && ' · 📹 Video'}
+              <button onClick={() => setStep(0)} className="btn-change">
+                Change Visit Type
               </button>
             </div>
-          ) : (
-            Object.entries(groupedSlots).map(([date, dateSlots]: [string, any]) => (
-              <div key={date} className="date-group">
-                <h4 className="date-header">
-                  {new Date(date).toLocaleDateString('en-US', { 
-                    weekday: 'long', 
-                    year: 'numeric', 
-                    month: 'long', 
-                    day: 'numeric' 
-                  })}
-                </h4>
-                <div className="slots-grid">
-                  {dateSlots.map((slot: Slot) => (
-                    <button
-                      key={slot.id}
-                      onClick={() => handleSlotSelect(slot)}
-                      className="slot-button"
-                    >
-                      {slot.start_time} - {slot.end_time}
-                    </button>
-                  ))}
-                </div>
-              </div>
-            ))
+          )}
+
+          {hasSeveralLocations && (
+            <div className="location-filter">
+              <select value={locationId} onChange={(e) => setLocationId(e.target.value)} className="filter-select">
+                <option value="">All locations</option>
+                {doctor!.locations.map((location) => (
+                  <option key={location.id} value={location.id}>{location.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {hasBothModes && (
+            <div className="location-filter">
+              <select value={visitMode} onChange={(e) => setVisitMode(e.target.value)} className="filter-select">
+                <option value="">In person or video</option>
+                <option value="in_person">In person only</option>
+                <option value="video">Video only</option>
+              </select>
+            </div>
+          )}
+          
+          <SlotPicker
+            slots={visibleSlots}
+            onSelect={handleSlotSelect}
+            showLocation={hasSeveralLocations && !locationId}
+            emptyMessage={locationId || visitMode
+              ? 'No available slots match these filters.'
+              : selectedType ? `No free time long enough for a ${selectedType.name} right now.` : undefined}
+          >
+            {user?.role === 'patient' && doctor?.is_active && <WaitlistJoin doctorId={doctor.id} />}
+            <button onClick={() => navigate('/')} className="btn-secondary">
+              Go Back
+            </button>
+          </SlotPicker>
+
+          {/* Waitlist for patients who can't find a suitable time */}
+          {slots.length > 0 && user?.role === 'patient' && doctor?.is_active && (
+            <details className="waitlist-more">
+              <summary>Can't find a suitable time?</summary>
+              <WaitlistJoin doctorId={doctor.id} />
+            </details>
           )}
         </div>
       )}
@@ -211,15 +555,56 @@ const BookingPage: React.FC = () => {
         <div className="booking-form-section">
           <div className="selected-slot-info">
             <h3>Selected Slot</h3>
-            <p>📅 {new Date(selectedSlot.slot_date).toLocaleDateString()}</p>
-            <p>🕐 {selectedSlot.start_time} - {selectedSlot.end_time}</p>
-            <button onClick={() => setStep(1)} className="btn-change">
+            {selectedType && <p>🩺 {selectedType.name} · ₹{typeFee(selectedType)}</p>}
+            <p>📅 {formatSlotDate(selectedSlot)}</p>
+            <p>🕐 {formatSlotTime(selectedSlot)}</p>
+            {isVideo && <p>📹 Video visit</p>}
+            {!isVideo && selectedSlot.location_name && (
+              <p>
+                📍 {selectedSlot.location_name}
+                {selectedSlot.location_address && ` - ${selectedSlot.location_address}`}
+              </p>
+            )}
+            <button onClick={handleChangeSlot} className="btn-change">
               Change Slot
             </button>
           </div>
 
+          {hold && (
+            <p className={holdExpired ? 'hold-notice hold-expired' : 'hold-notice'}>
+              {holdExpired
+                ? 'Your hold on this slot ran out. You can still book it if nobody else has.'
+                : <>⏱️ Held for you for <Countdown until={hold.hold_expires_at} onExpire={() => setHoldExpired(true)} /></>}
+            </p>
+          )}
+
+          {selectedSlotTaken && (
+            <div className="error-message">
+              Someone else just took this slot. Please change to another one.
+            </div>
+          )}
+
           <form onSubmit={handleSubmit} className="booking-form">
             <h3>Patient Information</h3>
+            {user?.role === 'patient' && (
+              <p className="field-hint">
+                Filled in from <Link to="/profile">your profile</Link>, changes here only apply to this booking.
+              </p>
+            )}
+
+            {dependents.length > 0 && (
+              <div className="form-group">
+                <label>Who is this appointment for?</label>
+                <select value={dependentId} onChange={handleBookingForChange}>
+                  <option value="">Myself</option>
+                  {dependents.map((dependent) => (
+                    <option key={dependent.id} value={dependent.id}>
+                      {dependent.name} ({dependent.relationship})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
 
             <div className="form-group">
               <label>Full Name *</label>
@@ -229,6 +614,7 @@ const BookingPage: React.FC = () => {
                 value={formData.patient_name}
                 onChange={handleFormChange}
                 required
+                readOnly={dependentId !== ''}
                 placeholder="John Doe"
               />
             </div>
@@ -241,6 +627,7 @@ const BookingPage: React.FC = () => {
                 value={formData.patient_email}
                 onChange={handleFormChange}
                 required
+                readOnly={user?.role === 'patient'}
                 placeholder="john@example.com"
               />
             </div>
@@ -265,7 +652,7 @@ const BookingPage: React.FC = () => {
                 value={formData.patient_age}
                 onChange={handleFormChange}
                 required
-                min="1"
+                min="0"
                 max="120"
                 placeholder="25"
               />
@@ -284,11 +671,11 @@ const BookingPage: React.FC = () => {
             </div>
 
             <div className="form-actions">
-              <button type="button" onClick={() => setStep(1)} className="btn-secondary">
+              <button type="button" onClick={handleChangeSlot} className="btn-secondary">
                 Back
               </button>
-              <button type="submit" className="btn-primary">
-                Confirm Booking
+              <button type="submit" className="btn-primary" disabled={submitting}>
+                {submitting ? 'Booking...' : 'Confirm Booking'}
               </button>
             </div>
           </form>
@@ -0,0 +1,395 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAppContext } from '../context/AppContext';
+import {
+  DoctorLocation,
+  VisitMode,
+  getDoctorById,
+  getDoctorSchedule,
+  createSlot,
+  deleteSlot,
+  completeAppointment,
+  markAppointmentNoShow
+} from '../services/api';
+import AvailabilityTemplates from '../components/AvailabilityTemplates';
+import AppointmentTypes from '../components/AppointmentTypes';
+import AppointmentTimeline from '../components/AppointmentTimeline';
+import MeetingLink from '../components/MeetingLink';
+import { formatDate, formatSlotTime, hasStarted } from '../utils/dateTime';
+
+interface ScheduleEntry {
+  slot_id: number;
+  slot_date: string; // YYYY-MM-DD
+  start_time: string;
+  end_time: string;
+  starts_at: string;
+  ends_at: string;
+  timezone: string;
+  is_booked: boolean;
+  is_blocked: boolean;
+  location_id: number | null;
+  location_name: string | null;
+  visit_mode: VisitMode;
+  appointment_id: number | null;
+  status: string | null;
+  patient_name: string | null;
+  patient_email: string | null;
+  patient_phone: string | null;
+  patient_age: number | null;
+  reason_for_visit: string | null;
+  appointment_type_name: string | null;
+  meeting_url: string | null; // on the visit's first slot, once the link opens
+  meeting_opens_at: string | null;
+}
+
+type View = 'day' | 'week';
+
+// Date -> "YYYY-MM-DD" in the browser's calendar
+const toDateString = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const addDays = (date: Date, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+// Weeks run Monday to Sunday
+const startOfWeek = (date: Date) => addDays(date, -((date.getDay() + 6) % 7));
+
+const formatDay = (day: string) => formatDate(day, { weekday: 'long', month: 'long', day: 'numeric' });
+
+const emptySlotForm = { slot_date: '', start_time: '', end_time: '', location_id: '', visit_mode: 'in_person' };
+
+const DoctorPortal: React.FC = () => {
+  const { user, setLoading } = useAppContext();
+  const doctorId = user?.doctor_id;
+
+  const [view, setView] = useState<View>('day');
+  const [date, setDate] = useState(new Date());
+  const [entries, setEntries] = useState<ScheduleEntry[]>([]);
+  const [locations, setLocations] = useState<DoctorLocation[]>([]);
+  const [openSlotId, setOpenSlotId] = useState<number | null>(null);
+  const [slotForm, setSlotForm] = useState(emptySlotForm);
+  const [slotErrors, setSlotErrors] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const from = view === 'day' ? date : startOfWeek(date);
+  const to = view === 'day' ? date : addDays(from, 6);
+  const fromDate = toDateString(from);
+  const toDate = toDateString(to);
+
+  const loadSchedule = useCallback(async () => {
+    if (!doctorId) return;
+
+    try {
+      setLoading(true);
+      const response = await getDoctorSchedule(doctorId, fromDate, toDate);
+      setEntries(response.data);
+      setError('');
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Error loading your schedule');
+    } finally {
+      setLoading(false);
+    }
+  }, [doctorId, fromDate, toDate, setLoading]);
+
+  useEffect(() => {
+    loadSchedule();
+  }, [loadSchedule]);
+
+  useEffect(() => {
+    if (!doctorId) return;
+    getDoctorById(doctorId)
+      .then((response) => setLocations(response.data.locations))
+      .catch((err) => console.error('Error loading locations:', err));
+  }, [doctorId]);
+
+  const showMessage = (text: string) => {
+    setMessage(text);
+    setTimeout(() => setMessage(''), 3000);
+  };
+
+  const handleVisitOutcome = async (appointmentId: number, outcome: 'COMPLETED' | 'NO_SHOW') => {
+    try {
+      setLoading(true);
+      const response = outcome === 'COMPLETED'
+        ? await completeAppointment(appointmentId)
+        : await markAppointmentNoShow(appointmentId);
+      showMessage(response.message);
+      loadSchedule();
+    } catch (err: any) {
+      alert(err.response?.data?.message || 'Error updating appointment');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteSlot = async (slotId: number) => {
+    if (!window.confirm('Delete this free slot?')) return;
+
+    try {
+      setLoading(true);
+      await deleteSlot(slotId);
+      showMessage('Slot deleted');
+      loadSchedule();
+    } catch (err: any) {
+      alert(err.response?.data?.message || 'Error deleting slot');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreateSlot = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setLoading(true);
+      setSlotErrors({});
+      await createSlot({
+        ...slotForm,
+        location_id: slotForm.location_id ? parseInt(slotForm.location_id) : undefined,
+        visit_mode: slotForm.visit_mode as VisitMode
+      });
+      showMessage('Slot created successfully!');
+      setSlotForm(emptySlotForm);
+      loadSchedule();
+    } catch (err: any) {
+      const data = err.response?.data;
+      setSlotErrors(data?.errors || { form: data?.message || 'Error creating slot' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const days = Array.from(new Set(entries.map((entry) => entry.slot_date)));
+
+  const renderEntry = (entry: ScheduleEntry) => {
+    const isOpen = openSlotId === entry.slot_id;
+
+    return (
+      <div key={entry.slot_id} className={`agenda-item ${entry.appointment_id ? 'agenda-booked' : ''}`}>
+        <div className="agenda-row">
+          <span className="agenda-time">
+            {formatSlotTime(entry)}
+          </span>
+
+          {entry.appointment_id ? (
+            <button onClick={() => setOpenSlotId(isOpen ? null : entry.slot_id)} className="btn-link">
+              {entry.patient_name}
+            </button>
+          ) : (
+            <span className="agenda-free">{entry.is_blocked ? '🌴 Time off' : 'Free'}</span>
+          )}
+
+          {locations.length > 1 && entry.location_name && (
+            <span className="agenda-location">📍 {entry.location_name}</span>
+          )}
+
+          {entry.visit_mode === 'video' && <span className="video-badge">📹 Video</span>}
+
+          {entry.status && (
+            <span className={`status-badge status-${entry.status.toLowerCase().replace('_', '-')}`}>
+              {entry.status}
+            </span>
+          )}
+
+          {!entry.appointment_id && !entry.is_booked && (
+            <button onClick={() => handleDeleteSlot(entry.slot_id)} className="btn-change">
+              Delete
+            </button>
+          )}
+        </div>
+
+        {/* Patient Details */}
+        {isOpen && entry.appointment_id && (
+          <div className="agenda-details">
+            <p><strong>📧 Email:</strong> {entry.patient_email}</p>
+            <p><strong>📞 Phone:</strong> {entry.patient_phone}</p>
+            <p><strong>🎂 Age:</strong> {entry.patient_age}</p>
+            {entry.appointment_type_name && <p><strong>🩺 Visit:</strong> {entry.appointment_type_name}</p>}
+            <p><strong>📝 Reason:</strong> {entry.reason_for_visit}</p>
+
+            <MeetingLink
+              url={entry.meeting_url}
+              opensAt={entry.meeting_opens_at}
+              timezone={entry.timezone}
+              onOpen={loadSchedule}
+            />
+
+            {entry.status === 'CONFIRMED' && hasStarted(entry) && (
+              <div className="appointment-actions">
+                <button
+                  onClick={() => handleVisitOutcome(entry.appointment_id!, 'COMPLETED')}
+                  className="btn-confirm"
+                >
+                  ✓ Completed
+                </button>
+                <button
+                  onClick={() => handleVisitOutcome(entry.appointment_id!, 'NO_SHOW')}
+                  className="btn-cancel"
+                >
+                  No-show
+                </button>
+              </div>
+            )}
+
+            <AppointmentTimeline key={entry.status} appointmentId={entry.appointment_id} />
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  if (!doctorId) {
+    return <div className="error-message">Your account is not linked to a doctor profile.</div>;
+  }
+
+  return (
+    <div className="doctor-portal">
+      <h1>🩺 My Schedule</h1>
+
+      {message && <div className="success-message">{message}</div>}
+      {error && <div className="error-message">{error}</div>}
+
+      {/* Day / Week Navigation */}
+      <div className="agenda-toolbar">
+        <div className="agenda-views">
+          <button
+            onClick={() => setView('day')}
+            className={view === 'day' ? 'btn-primary' : 'btn-secondary'}
+          >
+            Day
+          </button>
+          <button
+            onClick={() => setView('week')}
+            className={view === 'week' ? 'btn-primary' : 'btn-secondary'}
+          >
+            Week
+          </button>
+        </div>
+
+        <div className="agenda-nav">
+          <button onClick={() => setDate(addDays(date, view === 'day' ? -1 : -7))} className="btn-change">
+            ‹ Previous
+          </button>
+          <button onClick={() => setDate(new Date())} className="btn-change">
+            Today
+          </button>
+          <button onClick={() => setDate(addDays(date, view === 'day' ? 1 : 7))} className="btn-change">
+            Next ›
+          </button>
+        </div>
+
+        <span className="agenda-range">
+          {view === 'day'
+            ? formatDay(toDateString(date))
+            : `${formatDay(fromDate)} - ${formatDay(toDate)}`}
+        </span>
+      </div>
+
+      {/* Agenda */}
+      <div className="agenda">
+        {days.length === 0 ? (
+          <p className="no-slots">No slots in this period.</p>
+        ) : (
+          days.map((day) => (
+            <div key={day} className="agenda-day">
+              {view === 'week' && <h3>{formatDay(day)}</h3>}
+              {entries.filter((entry) => entry.slot_date === day).map(renderEntry)}
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Add a Single Slot */}
+      <div className="admin-forms">
+        <div className="form-section">
+          <h2>📅 Add a Slot</h2>
+          <form onSubmit={handleCreateSlot}>
+            {slotErrors.form && <div className="error-message">{slotErrors.form}</div>}
+
+            {locations.length > 1 && (
+              <div className="form-group">
+                <label>Location *</label>
+                <select
+                  value={slotForm.location_id}
+                  onChange={(e) => setSlotForm({ ...slotForm, location_id: e.target.value })}
+                  required
+                >
+                  <option value="">Choose a location</option>
+                  {locations.map((location) => (
+                    <option key={location.id} value={location.id}>{location.name}</option>
+                  ))}
+                </select>
+                {slotErrors.location_id && <span className="field-error">{slotErrors.location_id}</span>}
+              </div>
+            )}
+
+            <div className="form-group">
+              <label>Date *</label>
+              <input
+                type="date"
+                value={slotForm.slot_date}
+                onChange={(e) => setSlotForm({ ...slotForm, slot_date: e.target.value })}
+                required
+                min={toDateString(new Date())}
+              />
+              {slotErrors.slot_date && <span className="field-error">{slotErrors.slot_date}</span>}
+            </div>
+
+            <div className="form-row">
+              <div className="form-group">
+                <label>Start Time *</label>
+                <input
+                  type="time"
+                  value={slotForm.start_time}
+                  onChange={(e) => setSlotForm({ ...slotForm, start_time: e.target.value })}
+                  required
+                />
+                {slotErrors.start_time && <span className="field-error">{slotErrors.start_time}</span>}
+              </div>
+
+              <div className="form-group">
+                <label>End Time *</label>
+                <input
+                  type="time"
+                  value={slotForm.end_time}
+                  onChange={(e) => setSlotForm({ ...slotForm, end_time: e.target.value })}
+                  required
+                />
+                {slotErrors.end_time && <span className="field-error">{slotErrors.end_time}</span>}
+              </div>
+            </div>
+
+            <div className="form-group">
+              <label>Visit</label>
+              <select
+                value={slotForm.visit_mode}
+                onChange={(e) => setSlotForm({ ...slotForm, visit_mode: e.target.value })}
+              >
+                <option value="in_person">In person</option>
+                <option value="video">Video</option>
+              </select>
+              {slotErrors.visit_mode && <span className="field-error">{slotErrors.visit_mode}</span>}
+            </div>
+
+            <button type="submit" className="btn-primary">
+              Create Slot
+            </button>
+          </form>
+        </div>
+      </div>
+
+      {/* Recurring Weekly Schedule */}
+      <AvailabilityTemplates fixedDoctorId={doctorId} onGenerated={loadSchedule} />
+
+      {/* Kinds of Visit */}
+      <AppointmentTypes fixedDoctorId={doctorId} />
+    </div>
+  );
+};
+
+export default DoctorPortal;
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { Navigate, useNavigate, useSearchParams } from 'react-router-dom';
+import { useAppContext, UserRole } from '../context/AppContext';
+
+// Where each role lands after logging in
+const HOME_BY_ROLE: Record<UserRole, string> = {
+  admin: '/admin',
+  doctor: '/doctor',
+  patient: '/my-appointments',
+};
+
+const LoginPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { user, login, register } = useAppContext();
+
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [formData, setFormData] = useState({
+    name: '',
+    email: '',
+    password: ''
+  });
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const redirectTo = searchParams.get('redirect');
+
+  if (user) {
+    return <Navigate to={redirectTo || HOME_BY_ROLE[user.role]} replace />;
+  }
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormData({
+      ...formData,
+      [e.target.name]: e.target.value
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSubmitting(true);
+      setError('');
+
+      const loggedInUser = mode === 'login'
+        ? await login(formData.email, formData.password)
+        : await register(formData.name, formData.email, formData.password);
+
+      navigate(redirectTo || HOME_BY_ROLE[loggedInUser.role], { replace: true });
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Something went wrong. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const toggleMode = () => {
+    setMode(mode === 'login' ? 'register' : 'login');
+    setError('');
+  };
+
+  return (
+    <div className="auth-page">
+      <div className="auth-card">
+        <h2>{mode === 'login' ? '🔐 Login' : '📝 Create Account'}</h2>
+        <p>
+          {mode === 'login'
+            ? 'Log in to book and manage your appointments'
+            : 'Register as a patient to start booking appointments'}
+        </p>
+
+        {error && (
+          <div className="error-message">{error}</div>
+        )}
+
+        <form onSubmit={handleSubmit}>
+          {mode === 'register' && (
+            <div className="form-group">
+              <label>Full Name *</label>
+              <input
+                type="text"
+                name="name"
+                value={formData.name}
+                onChange={handleChange}
+                required
+                placeholder="John Doe"
+              />
+            </div>
+          )}
+
+          <div className="form-group">
+            <label>Email *</label>
+            <input
+              type="email"
+              name="email"
+              value={formData.email}
+              onChange={handleChange}
+              required
+              placeholder="your.email@example.com"
+            />
+          </div>
+
+          <div className="form-group">
+            <label>Password *</label>
+            <input
+              type="password"
+              name="password"
+              value={formData.password}
+              onChange={handleChange}
+              required
+              minLength={mode === 'register' ? 8 : undefined}
+              placeholder="••••••••"
+            />
+          </div>
+
+          <button type="submit" className="btn-primary" disabled={submitting}>
+            {mode === 'login' ? 'Login' : 'Create Account'}
+          </button>
+        </form>
+
+        <p className="auth-switch">
+          {mode === 'login' ? "Don't have an account?" : 'Already have an account?'}
+          <button type="button" onClick={toggleMode} className="btn-link">
+            {mode === 'login' ? 'Register' : 'Login'}
+          </button>
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default LoginPage;
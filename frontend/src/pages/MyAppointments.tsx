@@ -1,41 +1,198 @@
 import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useAppContext } from '../context/AppContext';
-import { getAppointments, confirmAppointment, cancelAppointment } from '../services/api';
+import {
+  getAppointments,
+  confirmAppointment,
+  cancelAppointment,
+  completeAppointment,
+  markAppointmentNoShow,
+  getAvailableSlots,
+  rescheduleAppointment,
+  getWaitlist,
+  leaveWaitlist,
+  payWithMockProvider,
+  getCancellationPreview,
+  CancellationPolicy,
+  CancellationPreview,
+  PaymentStatus,
+  VisitMode
+} from '../services/api';
+import SlotPicker, { PickerSlot } from '../components/SlotPicker';
+import Countdown from '../components/Countdown';
+import AppointmentTimeline from '../components/AppointmentTimeline';
+import MeetingLink from '../components/MeetingLink';
+import {
+  SlotTimes,
+  formatDate,
+  formatTime,
+  formatDateTime,
+  formatSlotDate,
+  formatSlotTime,
+  withDuration
+} from '../utils/dateTime';
+
+interface WaitlistEntry {
+  id: number;
+  doctor_id: number;
+  doctor_name: string;
+  specialty: string;
+  preferred_date: string | null;
+  status: 'WAITING' | 'OFFERED';
+  offer_expires_at: string | null;
+  offered_slot_date: string | null;
+  offered_start_time: string | null;
+  offered_end_time: string | null;
+  offered_starts_at: string | null;
+  offered_ends_at: string | null;
+  timezone: string | null;
+}
+
+// The slot a waitlist entry was offered, in the shape the date helpers take
+const offeredSlot = (entry: WaitlistEntry): SlotTimes => ({
+  slot_date: entry.offered_slot_date!,
+  start_time: entry.offered_start_time!,
+  end_time: entry.offered_end_time!,
+  starts_at: entry.offered_starts_at || undefined,
+  ends_at: entry.offered_ends_at || undefined,
+  timezone: entry.timezone
+});
+
+interface PreviousSlot {
+  slot_date: string;
+  start_time: string;
+  end_time: string;
+  rescheduled_at: string;
+}
 
 interface Appointment {
   id: number;
+  doctor_id: number;
   patient_name: string;
   patient_email: string;
   patient_phone: string;
   reason_for_visit: string;
   status: string;
   booking_time: string;
+  expires_at: string | null;
   slot_date: string;
   start_time: string;
   end_time: string;
+  starts_at: string;
+  ends_at: string;
+  timezone: string;
   doctor_name: string;
   specialty: string;
   consultation_fee: number;
+  appointment_type_id: number | null;
+  appointment_type_name: string | null;
+  duration_minutes: number | null;
+  visit_mode: VisitMode;
+  meeting_url: string | null; // only while the video link is open
+  meeting_opens_at: string | null;
+  location_name: string | null;
+  location_address: string | null;
+  time_off_id: number | null;
+  time_off_reason: string | null;
+  reschedule_history: PreviousSlot[] | null;
+  dependent_id: number | null;
+  dependent_name: string | null;
+  dependent_relationship: string | null;
+  payment_id: number | null;
+  payment_status: PaymentStatus | null;
+  payment_amount: string | null;
+  refunded_amount: string | null;
 }
 
+const PAYMENT_LABELS: Record<PaymentStatus, string> = {
+  REQUIRES_PAYMENT: 'Awaiting payment',
+  SUCCEEDED: 'Paid',
+  FAILED: 'Payment failed',
+  CANCELLED: 'Not charged',
+  PARTIALLY_REFUNDED: 'Partly refunded',
+  REFUNDED: 'Refunded'
+};
+
+// "Free cancellation up to 24 hours before, later cancellations keep 50% of the fee. ..."
+const describePolicy = (policy: CancellationPolicy) => [
+  policy.late_fee_percent > 0
+    ? `Free cancellation up to ${policy.late_notice_hours} hours before, later cancellations keep ${policy.late_fee_percent}% of the fee.`
+    : 'Free cancellation.',
+  policy.min_notice_hours > 0 && `Online cancellation closes ${policy.min_notice_hours} hours before the visit.`,
+  policy.max_cancellations && `Up to ${policy.max_cancellations} cancellations every ${policy.period_days} days.`
+].filter(Boolean).join(' ');
+
+// What cancelling now means for this appointment
+const describeConsequence = (preview: CancellationPreview) => {
+  if (preview.fee_amount > 0) {
+    return `This is a late cancellation: ₹${preview.fee_amount} of the fee is kept and ₹${preview.refund_amount} refunded.`;
+  }
+  if (preview.is_late && preview.fee_percent > 0) {
+    return 'This is a late cancellation, but nothing has been paid so there is no fee.';
+  }
+  if (preview.refund_amount > 0) {
+    return `You'll get the full ₹${preview.refund_amount} back.`;
+  }
+  return 'There is no charge for cancelling.';
+};
+
+// Unpaid bookings are confirmed by paying rather than by the confirm button
+const awaitsPayment = (appointment: Appointment) =>
+  appointment.payment_status === 'REQUIRES_PAYMENT' || appointment.payment_status === 'FAILED';
+
+interface Household {
+  key: string;
+  title: string;
+  appointments: Appointment[];
+}
+
+// A patient's own bookings first, then one group per family member
+const groupByPerson = (appointments: Appointment[]): Household[] => {
+  const groups = new Map<string, Household>();
+
+  appointments.forEach((appointment) => {
+    const key = appointment.dependent_id ? `dependent-${appointment.dependent_id}` : 'me';
+    if (!groups.has(key)) {
+      groups.set(key, {
+        key,
+        title: appointment.dependent_id
+          ? `${appointment.dependent_name || appointment.patient_name} (${appointment.dependent_relationship || 'family'})`
+          : 'Me',
+        appointments: []
+      });
+    }
+    groups.get(key)!.appointments.push(appointment);
+  });
+
+  return Array.from(groups.values()).sort((a, b) => (a.key === 'me' ? -1 : b.key === 'me' ? 1 : 0));
+};
+
 const MyAppointments: React.FC = () => {
-  const { patientEmail, setPatientEmail, setLoading } = useAppContext();
+  const navigate = useNavigate();
+  const { user, setLoading } = useAppContext();
   const [appointments, setAppointments] = useState<Appointment[]>([]);
-  const [emailInput, setEmailInput] = useState(patientEmail);
-  const [showEmailPrompt, setShowEmailPrompt] = useState(!patientEmail);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
   const [message, setMessage] = useState('');
+  const [reschedulingId, setReschedulingId] = useState<number | null>(null);
+  const [rescheduleSlots, setRescheduleSlots] = useState<PickerSlot[]>([]);
+  const [historyId, setHistoryId] = useState<number | null>(null);
+  const [cancelling, setCancelling] = useState<{ id: number; preview: CancellationPreview } | null>(null);
 
   useEffect(() => {
-    if (patientEmail) {
-      loadAppointments();
-    }
-  }, [patientEmail]);
+    loadAppointments();
+  }, [user]);
 
   const loadAppointments = async () => {
     try {
       setLoading(true);
-      const response = await getAppointments(patientEmail);
+      // The server only returns the logged-in user's own appointments
+      const response = await getAppointments();
       setAppointments(response.data);
+
+      if (user?.role === 'patient') {
+        const waitlistResponse = await getWaitlist();
+        setWaitlist(waitlistResponse.data);
+      }
     } catch (err: any) {
       console.error('Error loading appointments:', err);
     } finally {
@@ -43,12 +200,6 @@ const MyAppointments: React.FC = () => {
     }
   };
 
-  const handleEmailSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    setPatientEmail(emailInput);
-    setShowEmailPrompt(false);
-  };
-
   const handleConfirm = async (appointmentId: number) => {
     if (!window.confirm('Confirm this appointment?')) return;
 
@@ -65,13 +216,25 @@ const MyAppointments: React.FC = () => {
     }
   };
 
-  const handleCancel = async (appointmentId: number) => {
-    if (!window.confirm('Are you sure you want to cancel this appointment?')) return;
+  // Show the cancellation policy and its consequence before cancelling
+  const handleStartCancel = async (appointmentId: number) => {
+    try {
+      setLoading(true);
+      const response = await getCancellationPreview(appointmentId);
+      setCancelling({ id: appointmentId, preview: response.data });
+    } catch (err: any) {
+      alert(err.response?.data?.message || 'Error loading the cancellation policy');
+    } finally {
+      setLoading(false);
+    }
+  };
 
+  const handleCancel = async (appointmentId: number) => {
     try {
       setLoading(true);
-      await cancelAppointment(appointmentId);
-      setMessage('Appointment cancelled successfully');
+      const response = await cancelAppointment(appointmentId);
+      setCancelling(null);
+      setMessage(response.message);
       loadAppointments();
       setTimeout(() => setMessage(''), 3000);
     } catch (err: any) {
@@ -81,52 +244,119 @@ const MyAppointments: React.FC = () => {
     }
   };
 
+  const handlePay = async (appointment: Appointment) => {
+    try {
+      setLoading(true);
+      const response = await payWithMockProvider(appointment.payment_id!);
+      setMessage(response.message);
+      loadAppointments();
+      setTimeout(() => setMessage(''), 3000);
+    } catch (err: any) {
+      alert(err.response?.data?.message || 'Error processing payment');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Doctors and admins record whether the patient turned up
+  const handleVisitOutcome = async (appointmentId: number, outcome: 'COMPLETED' | 'NO_SHOW') => {
+    const label = outcome === 'COMPLETED' ? 'completed' : 'a no-show';
+    if (!window.confirm(`Mark this appointment as ${label}?`)) return;
+
+    try {
+      setLoading(true);
+      const response = outcome === 'COMPLETED'
+        ? await completeAppointment(appointmentId)
+        : await markAppointmentNoShow(appointmentId);
+      setMessage(response.message);
+      loadAppointments();
+      setTimeout(() => setMessage(''), 3000);
+    } catch (err: any) {
+      alert(err.response?.data?.message || 'Error updating appointment');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLeaveWaitlist = async (entryId: number) => {
+    if (!window.confirm('Leave this waitlist?')) return;
+
+    try {
+      setLoading(true);
+      await leaveWaitlist(entryId);
+      loadAppointments();
+    } catch (err: any) {
+      alert(err.response?.data?.message || 'Error leaving waitlist');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Open the slot picker for one appointment. Longer visits are only
+  // offered slots with enough free time after them.
+  const handleStartReschedule = async (appointment: Appointment) => {
+    try {
+      setLoading(true);
+      const response = await getAvailableSlots(appointment.doctor_id, {
+        appointment_type_id: appointment.appointment_type_id || undefined,
+        visit_mode: appointment.visit_mode
+      });
+      const duration = appointment.duration_minutes;
+      setRescheduleSlots(duration
+        ? response.data.map((slot: PickerSlot) => withDuration(slot, duration))
+        : response.data);
+      setReschedulingId(appointment.id);
+    } catch (err: any) {
+      alert(err.response?.data?.message || 'Error loading available slots');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReschedule = async (appointmentId: number, slot: PickerSlot) => {
+    const slotLabel = `${formatSlotDate(slot)} ${formatSlotTime(slot)}`;
+    if (!window.confirm(`Move this appointment to ${slotLabel}?`)) return;
+
+    try {
+      setLoading(true);
+      await rescheduleAppointment(appointmentId, slot.id);
+      setReschedulingId(null);
+      setMessage('Appointment rescheduled successfully!');
+      loadAppointments();
+      setTimeout(() => setMessage(''), 3000);
+    } catch (err: any) {
+      alert(err.response?.data?.message || 'Error rescheduling appointment');
+      // The slot list may be stale, load it again
+      const appointment = appointments.find((a) => a.id === appointmentId);
+      if (appointment) handleStartReschedule(appointment);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Patients see their household's appointments grouped by person
+  const households = user?.role === 'patient'
+    ? groupByPerson(appointments)
+    : [{ key: 'all', title: '', appointments }];
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'CONFIRMED': return 'status-confirmed';
       case 'PENDING': return 'status-pending';
       case 'CANCELLED': return 'status-cancelled';
       case 'FAILED': return 'status-failed';
+      case 'COMPLETED': return 'status-completed';
+      case 'NO_SHOW': return 'status-no-show';
       default: return '';
     }
   };
 
-  if (showEmailPrompt) {
-    return (
-      <div className="email-prompt">
-        <div className="prompt-card">
-          <h2>Enter Your Email</h2>
-          <p>Please enter your email to view your appointments</p>
-          <form onSubmit={handleEmailSubmit}>
-            <input
-              type="email"
-              value={emailInput}
-              onChange={(e) => setEmailInput(e.target.value)}
-              placeholder="your.email@example.com"
-              required
-              className="email-input"
-            />
-            <button type="submit" className="btn-primary">
-              View My Appointments
-            </button>
-          </form>
-        </div>
-      </div>
-    );
-  }
-
   return (
     <div className="my-appointments">
       <div className="appointments-header">
         <h1>📋 My Appointments</h1>
         <p className="email-display">
-          Showing appointments for: <strong>{patientEmail}</strong>
-          <button
-            onClick={() => setShowEmailPrompt(true)}
-            className="btn-change-email"
-          >
-            Change Email
-          </button>
+          Showing appointments for: <strong>{user?.email}</strong>
         </p>
       </div>
 
@@ -134,6 +364,46 @@ const MyAppointments: React.FC = () => {
         <div className="success-message">{message}</div>
       )}
 
+      {/* Waitlist */}
+      {waitlist.length > 0 && (
+        <div className="waitlist-section">
+          <h2>⏳ My Waitlist</h2>
+          {waitlist.map((entry) => (
+            <div
+              key={entry.id}
+              className={`waitlist-card ${entry.status === 'OFFERED' ? 'waitlist-offered' : ''}`}
+            >
+              <div>
+                <strong>{entry.doctor_name}</strong> ({entry.specialty})
+                {entry.preferred_date && ` · only ${formatDate(entry.preferred_date)}`}
+                {entry.status === 'OFFERED' && entry.offered_slot_date ? (
+                  <p>
+                    🎉 A slot opened up: {formatSlotDate(offeredSlot(entry))}{' '}
+                    {formatSlotTime(offeredSlot(entry))}. Held for you until{' '}
+                    {formatTime(entry.offer_expires_at!, entry.timezone)}.
+                  </p>
+                ) : (
+                  <p>Waiting for a free slot...</p>
+                )}
+              </div>
+              <div className="waitlist-actions">
+                {entry.status === 'OFFERED' && (
+                  <button
+                    onClick={() => navigate(`/booking/${entry.doctor_id}`)}
+                    className="btn-confirm"
+                  >
+                    Book Now
+                  </button>
+                )}
+                <button onClick={() => handleLeaveWaitlist(entry.id)} className="btn-change">
+                  Leave
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {appointments.length === 0 ? (
         <div className="no-appointments">
           <div className="empty-state">
@@ -146,100 +416,253 @@ const MyAppointments: React.FC = () => {
         </div>
       ) : (
         <div className="appointments-list">
-          {appointments.map((appointment) => (
-            <div key={appointment.id} className="appointment-card">
-              <div className="appointment-header-section">
-                <div className="doctor-info-section">
-                  <h3>{appointment.doctor_name}</h3>
-                  <p className="specialty">{appointment.specialty}</p>
-                </div>
-                <span className={`status-badge ${getStatusColor(appointment.status)}`}>
-                  {appointment.status}
-                </span>
-              </div>
+          {households.map((household) => (
+            <div key={household.key} className="household-group">
+              {households.length > 1 && <h2 className="household-heading">{household.title}</h2>}
+              {household.appointments.map((appointment) => (
+                <div key={appointment.id} className="appointment-card">
+                  <div className="appointment-header-section">
+                    <div className="doctor-info-section">
+                      <h3>{appointment.doctor_name}</h3>
+                      <p className="specialty">{appointment.specialty}</p>
+                    </div>
+                    <span className={`status-badge ${getStatusColor(appointment.status)}`}>
+                      {appointment.status}
+                    </span>
+                  </div>
 
-              <div className="appointment-details">
-                <div className="detail-row">
-                  <span className="label">📅 Date:</span>
-                  <span className="value">
-                    {new Date(appointment.slot_date).toLocaleDateString('en-US', {
-                      weekday: 'long',
-                      year: 'numeric',
-                      month: 'long',
-                      day: 'numeric'
-                    })}
-                  </span>
-                </div>
+                  {appointment.time_off_id && (
+                    <div className="failed-message time-off-notice">
+                      {appointment.status === 'CANCELLED'
+                        ? '⚠️ Cancelled because the doctor is unavailable'
+                        : '⚠️ The doctor is unavailable at this time, please cancel and book another slot'}
+                      {appointment.time_off_reason && ` (${appointment.time_off_reason})`}
+                    </div>
+                  )}
 
-                <div className="detail-row">
-                  <span className="label">🕐 Time:</span>
-                  <span className="value">
-                    {appointment.start_time} - {appointment.end_time}
-                  </span>
-                </div>
+                  {appointment.status === 'PENDING' && appointment.expires_at && (
+                    <div className="hold-notice">
+                      ⏱️ {awaitsPayment(appointment) ? 'Pay' : 'Confirm'} within <Countdown until={appointment.expires_at} onExpire={loadAppointments} />
+                      {' '}or this slot will be released
+                    </div>
+                  )}
 
-                <div className="detail-row">
-                  <span className="label">👤 Patient:</span>
-                  <span className="value">{appointment.patient_name}</span>
-                </div>
+                  <div className="appointment-details">
+                    <div className="detail-row">
+                      <span className="label">📅 Date:</span>
+                      <span className="value">
+                        {formatSlotDate(appointment)}
+                      </span>
+                    </div>
 
-                <div className="detail-row">
-                  <span className="label">📞 Phone:</span>
-                  <span className="value">{appointment.patient_phone}</span>
-                </div>
+                    <div className="detail-row">
+                      <span className="label">🕐 Time:</span>
+                      <span className="value">
+                        {formatSlotTime(appointment)}
+                      </span>
+                    </div>
 
-                <div className="detail-row">
-                  <span className="label">💰 Fee:</span>
-                  <span className="value">₹{appointment.consultation_fee}</span>
-                </div>
+                    {appointment.visit_mode === 'video' ? (
+                      <div className="detail-row">
+                        <span className="label">📹 Where:</span>
+                        <span className="value">Video call</span>
+                      </div>
+                    ) : appointment.location_name && (
+                      <div className="detail-row">
+                        <span className="label">📍 Location:</span>
+                        <span className="value">
+                          {appointment.location_name}
+                          {appointment.location_address && ` - ${appointment.location_address}`}
+                        </span>
+                      </div>
+                    )}
 
-                <div className="detail-row">
-                  <span className="label">📝 Reason:</span>
-                  <span className="value">{appointment.reason_for_visit}</span>
-                </div>
+                    <div className="detail-row">
+                      <span className="label">👤 Patient:</span>
+                      <span className="value">{appointment.patient_name}</span>
+                    </div>
 
-                <div className="detail-row">
-                  <span className="label">🕒 Booked:</span>
-                  <span className="value">
-                    {new Date(appointment.booking_time).toLocaleString()}
-                  </span>
-                </div>
-              </div>
+                    <div className="detail-row">
+                      <span className="label">📞 Phone:</span>
+                      <span className="value">{appointment.patient_phone}</span>
+                    </div>
+
+                    {appointment.appointment_type_name && (
+                      <div className="detail-row">
+                        <span className="label">🩺 Visit:</span>
+                        <span className="value">
+                          {appointment.appointment_type_name}
+                          {appointment.duration_minutes && ` (${appointment.duration_minutes} min)`}
+                        </span>
+                      </div>
+                    )}
+
+                    <div className="detail-row">
+                      <span className="label">💰 Fee:</span>
+                      <span className="value">
+                        ₹{appointment.consultation_fee}
+                        {appointment.payment_status && ` · ${PAYMENT_LABELS[appointment.payment_status]}`}
+                        {Number(appointment.refunded_amount) > 0 && ` (₹${appointment.refunded_amount} back)`}
+                      </span>
+                    </div>
+
+                    <div className="detail-row">
+                      <span className="label">📝 Reason:</span>
+                      <span className="value">{appointment.reason_for_visit}</span>
+                    </div>
+
+                    <div className="detail-row">
+                      <span className="label">🕒 Booked:</span>
+                      <span className="value">
+                        {formatDateTime(appointment.booking_time, appointment.timezone)}
+                      </span>
+                    </div>
+
+                    {appointment.reschedule_history?.map((previous) => (
+                      <div key={previous.rescheduled_at} className="detail-row">
+                        <span className="label">↪️ Moved from:</span>
+                        <span className="value">
+                          {formatDate(previous.slot_date)} {previous.start_time.slice(0, 5)}
+                          {' '}(on {formatDateTime(previous.rescheduled_at, appointment.timezone)})
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+
+                  <MeetingLink
+                    url={appointment.meeting_url}
+                    opensAt={appointment.meeting_opens_at}
+                    timezone={appointment.timezone}
+                    onOpen={loadAppointments}
+                  />
+
+                  {/* Reschedule Slot Picker */}
+                  {reschedulingId === appointment.id && (
+                    <div className="reschedule-panel">
+                      <h4>Pick a new time</h4>
+                      <SlotPicker
+                        slots={rescheduleSlots}
+                        onSelect={(slot) => handleReschedule(appointment.id, slot)}
+                        emptyMessage="No other free slots for this doctor right now."
+                        showLocation={new Set(rescheduleSlots.map((slot) => slot.location_name)).size > 1}
+                      />
+                      <button onClick={() => setReschedulingId(null)} className="btn-secondary">
+                        Keep Current Time
+                      </button>
+                    </div>
+                  )}
+
+                  {/* Cancellation Policy */}
+                  {cancelling?.id === appointment.id && (
+                    <div className="reschedule-panel cancel-panel">
+                      <h4>Cancel this appointment?</h4>
+                      <p className="field-hint">{describePolicy(cancelling.preview.policy)}</p>
+                      {cancelling.preview.allowed ? (
+                        <p>{describeConsequence(cancelling.preview)}</p>
+                      ) : (
+                        <div className="failed-message">{cancelling.preview.reason}</div>
+                      )}
+                      <div className="form-actions">
+                        {cancelling.preview.allowed && (
+                          <button onClick={() => handleCancel(appointment.id)} className="btn-cancel">
+                            ✕ Yes, Cancel
+                          </button>
+                        )}
+                        <button onClick={() => setCancelling(null)} className="btn-secondary">
+                          Keep Appointment
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Action Buttons */}
+                  <div className="appointment-actions">
+                    {appointment.status === 'PENDING' && (
+                      <>
+                        {awaitsPayment(appointment) && user?.role === 'patient' ? (
+                          <button
+                            onClick={() => handlePay(appointment)}
+                            className="btn-confirm"
+                          >
+                            💳 Pay ₹{appointment.payment_amount}
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => handleConfirm(appointment.id)}
+                            className="btn-confirm"
+                          >
+                            ✓ Confirm Appointment
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleStartReschedule(appointment)}
+                          className="btn-reschedule"
+                        >
+                          ↻ Reschedule
+                        </button>
+                        <button
+                          onClick={() => handleStartCancel(appointment.id)}
+                          className="btn-cancel"
+                        >
+                          ✕ Cancel
+                        </button>
+                      </>
+                    )}
+                
+                    {appointment.status === 'CONFIRMED' && user?.role !== 'patient' && (
+                      <>
+                        <button
+                          onClick={() => handleVisitOutcome(appointment.id, 'COMPLETED')}
+                          className="btn-confirm"
+                        >
+                          ✓ Completed
+                        </button>
+                        <button
+                          onClick={() => handleVisitOutcome(appointment.id, 'NO_SHOW')}
+                          className="btn-change"
+                        >
+                          No-show
+                        </button>
+                      </>
+                    )}
+
+                    {appointment.status === 'CONFIRMED' && (
+                      <>
+                        <button
+                          onClick={() => handleStartReschedule(appointment)}
+                          className="btn-reschedule"
+                        >
+                          ↻ Reschedule
+                        </button>
+                        <button
+                          onClick={() => handleStartCancel(appointment.id)}
+                          className="btn-cancel"
+                        >
+                          ✕ Cancel Appointment
+                        </button>
+                      </>
+                    )}
+
+                    {appointment.status === 'FAILED' && (
+                      <div className="failed-message">
+                        ⚠️ This appointment expired because it was not confirmed in time
+                      </div>
+                    )}
 
-              {/* Action Buttons */}
-              <div className="appointment-actions">
-                {appointment.status === 'PENDING' && (
-                  <>
-                    <button
-                      onClick={() => handleConfirm(appointment.id)}
-                      className="btn-confirm"
-                    >
-                      ✓ Confirm Appointment
-                    </button>
                     <button
-                      onClick={() => handleCancel(appointment.id)}
-                      className="btn-cancel"
+                      onClick={() => setHistoryId(historyId === appointment.id ? null : appointment.id)}
+                      className="btn-link"
                     >
-                      ✕ Cancel
+                      {historyId === appointment.id ? 'Hide history' : '🕘 History'}
                     </button>
-                  </>
-                )}
-                
-                {appointment.status === 'CONFIRMED' && (
-                  <button
-                    onClick={() => handleCancel(appointment.id)}
-                    className="btn-cancel"
-                  >
-                    ✕ Cancel Appointment
-                  </button>
-                )}
-
-                {appointment.status === 'FAILED' && (
-                  <div className="failed-message">
-                    ⚠️ This appointment expired after 2 minutes without confirmation
                   </div>
-                )}
-              </div>
+
+                  {/* Status Timeline */}
+                  {historyId === appointment.id && (
+                    <AppointmentTimeline key={appointment.status} appointmentId={appointment.id} />
+                  )}
+                </div>
+              ))}
             </div>
           ))}
         </div>
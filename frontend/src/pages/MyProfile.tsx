@@ -0,0 +1,201 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { Patient, getMyProfile, updateMyProfile } from '../services/api';
+import DependentsManager from '../components/DependentsManager';
+
+type ProfileForm = Omit<Patient, 'id' | 'user_id' | 'email'>;
+
+const toForm = (patient: Patient): ProfileForm => ({
+  name: patient.name,
+  phone: patient.phone || '',
+  date_of_birth: patient.date_of_birth || '',
+  gender: patient.gender || '',
+  address: patient.address || '',
+  preferred_contact: patient.preferred_contact,
+  reminders_enabled: patient.reminders_enabled,
+  emergency_contact_name: patient.emergency_contact_name || '',
+  emergency_contact_phone: patient.emergency_contact_phone || '',
+  emergency_contact_relationship: patient.emergency_contact_relationship || ''
+});
+
+// The patient's own record: demographics, contact preferences and
+// emergency contact. New bookings are pre-filled from it.
+const MyProfile: React.FC = () => {
+  const { setLoading } = useAppContext();
+  const [email, setEmail] = useState('');
+  const [form, setForm] = useState<ProfileForm | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState('');
+
+  const loadProfile = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await getMyProfile();
+      setEmail(response.data.email);
+      setForm(toForm(response.data));
+    } catch (err: any) {
+      setErrors({ form: err.response?.data?.message || 'Error loading your profile' });
+    } finally {
+      setLoading(false);
+    }
+  }, [setLoading]);
+
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    setForm({ ...form!, [e.target.name]: e.target.value });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setLoading(true);
+      setErrors({});
+      const response = await updateMyProfile(form!);
+      setForm(toForm(response.data));
+      setMessage(response.message);
+      setTimeout(() => setMessage(''), 3000);
+    } catch (err: any) {
+      const data = err.response?.data;
+      setErrors(data?.errors || { form: data?.message || 'Error saving your profile' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!form) {
+    return errors.form ? <div className="error-message">{errors.form}</div> : null;
+  }
+
+  return (
+    <div className="my-profile">
+      <h1>👤 My Profile</h1>
+      <p className="field-hint">Your details are filled in for you when you book an appointment.</p>
+
+      {message && <div className="success-message">{message}</div>}
+      {errors.form && <div className="error-message">{errors.form}</div>}
+
+      <form onSubmit={handleSubmit} className="profile-form">
+        <h3>Personal Details</h3>
+
+        <div className="form-row">
+          <div className="form-group">
+            <label>Full Name *</label>
+            <input type="text" name="name" value={form.name} onChange={handleChange} required />
+            {errors.name && <span className="field-error">{errors.name}</span>}
+          </div>
+
+          <div className="form-group">
+            <label>Email</label>
+            <input type="email" value={email} readOnly />
+          </div>
+        </div>
+
+        <div className="form-row">
+          <div className="form-group">
+            <label>Date of Birth</label>
+            <input type="date" name="date_of_birth" value={form.date_of_birth || ''} onChange={handleChange} />
+            {errors.date_of_birth && <span className="field-error">{errors.date_of_birth}</span>}
+          </div>
+
+          <div className="form-group">
+            <label>Gender</label>
+            <select name="gender" value={form.gender || ''} onChange={handleChange}>
+              <option value="">Prefer not to say</option>
+              <option value="female">Female</option>
+              <option value="male">Male</option>
+              <option value="other">Other</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="form-group">
+          <label>Address</label>
+          <textarea name="address" value={form.address || ''} onChange={handleChange} rows={2} />
+        </div>
+
+        <h3>Contact Preferences</h3>
+
+        <div className="form-row">
+          <div className="form-group">
+            <label>Phone Number</label>
+            <input
+              type="tel"
+              name="phone"
+              value={form.phone || ''}
+              onChange={handleChange}
+              placeholder="+1234567890"
+            />
+            {errors.phone && <span className="field-error">{errors.phone}</span>}
+          </div>
+
+          <div className="form-group">
+            <label>Preferred Contact</label>
+            <select name="preferred_contact" value={form.preferred_contact} onChange={handleChange}>
+              <option value="email">Email</option>
+              <option value="phone">Phone call</option>
+              <option value="sms">SMS</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="form-group">
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={form.reminders_enabled}
+              onChange={(e) => setForm({ ...form, reminders_enabled: e.target.checked })}
+            />
+            Email me reminders before my appointments
+          </label>
+        </div>
+
+        <h3>Emergency Contact</h3>
+
+        <div className="form-row">
+          <div className="form-group">
+            <label>Name</label>
+            <input
+              type="text"
+              name="emergency_contact_name"
+              value={form.emergency_contact_name || ''}
+              onChange={handleChange}
+            />
+          </div>
+
+          <div className="form-group">
+            <label>Relationship</label>
+            <input
+              type="text"
+              name="emergency_contact_relationship"
+              value={form.emergency_contact_relationship || ''}
+              onChange={handleChange}
+              placeholder="e.g., Spouse"
+            />
+          </div>
+        </div>
+
+        <div className="form-group">
+          <label>Phone Number</label>
+          <input
+            type="tel"
+            name="emergency_contact_phone"
+            value={form.emergency_contact_phone || ''}
+            onChange={handleChange}
+          />
+          {errors.emergency_contact_phone && <span className="field-error">{errors.emergency_contact_phone}</span>}
+        </div>
+
+        <button type="submit" className="btn-primary">
+          Save Profile
+        </button>
+      </form>
+
+      <DependentsManager />
+    </div>
+  );
+};
+
+export default MyProfile;
@@ -1,40 +1,58 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAppContext } from '../context/AppContext';
-import { getAllDoctors } from '../services/api';
+import { Doctor, Location, Pagination, getAllDoctors, getDoctorSpecialties, getLocations } from '../services/api';
+import DoctorAvatar from '../components/DoctorAvatar';
+
+const DOCTORS_PER_PAGE = 12;
 
 const UserDashboard: React.FC = () => {
   const navigate = useNavigate();
-  const { doctors, setDoctors, loading, setLoading, error, setError } = useAppContext();
+  const { loading, setLoading, error, setError } = useAppContext();
+  const [doctors, setDoctors] = useState<Doctor[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [specialties, setSpecialties] = useState<string[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedSpecialty, setSelectedSpecialty] = useState('');
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [selectedLocation, setSelectedLocation] = useState('');
+  const [videoOnly, setVideoOnly] = useState(false);
+  const [page, setPage] = useState(1);
 
   useEffect(() => {
-    loadDoctors();
+    getDoctorSpecialties()
+      .then((response) => setSpecialties(response.data))
+      .catch((err) => console.error('Error loading specialties:', err));
+    getLocations()
+      .then((response) => setLocations(response.data))
+      .catch((err) => console.error('Error loading locations:', err));
   }, []);
 
-  const loadDoctors = async () => {
+  const loadDoctors = useCallback(async () => {
     try {
       setLoading(true);
-      const response = await getAllDoctors();
+      const response = await getAllDoctors({
+        search: searchTerm,
+        specialty: selectedSpecialty,
+        location_id: selectedLocation ? parseInt(selectedLocation) : undefined,
+        video: videoOnly || undefined,
+        page,
+        limit: DOCTORS_PER_PAGE
+      });
       setDoctors(response.data);
+      setPagination(response.pagination || null);
     } catch (err: any) {
       setError(err.message);
     } finally {
       setLoading(false);
     }
-  };
-
-  // Get unique specialties
-  const specialties = Array.from(new Set(doctors.map(d => d.specialty)));
+  }, [searchTerm, selectedSpecialty, selectedLocation, videoOnly, page, setLoading, setError]);
 
-  // Filter doctors
-  const filteredDoctors = doctors.filter(doctor => {
-    const matchesSearch = doctor.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         doctor.specialty.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesSpecialty = selectedSpecialty === '' || doctor.specialty === selectedSpecialty;
-    return matchesSearch && matchesSpecialty;
-  });
+  // Search on the server, waiting for the user to stop typing
+  useEffect(() => {
+    const timer = setTimeout(loadDoctors, 300);
+    return () => clearTimeout(timer);
+  }, [loadDoctors]);
 
   const handleBookAppointment = (doctorId: number) => {
     navigate(`/booking/${doctorId}`);
@@ -54,7 +72,10 @@ const UserDashboard: React.FC = () => {
             type="text"
             placeholder="Search doctors by name or specialty..."
             value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
+            onChange={(e) => {
+              setSearchTerm(e.target.value);
+              setPage(1);
+            }}
             className="search-input"
           />
         </div>
@@ -62,7 +83,10 @@ const UserDashboard: React.FC = () => {
         <div className="filter-box">
           <select
             value={selectedSpecialty}
-            onChange={(e) => setSelectedSpecialty(e.target.value)}
+            onChange={(e) => {
+              setSelectedSpecialty(e.target.value);
+              setPage(1);
+            }}
             className="filter-select"
           >
             <option value="">All Specialties</option>
@@ -71,6 +95,36 @@ const UserDashboard: React.FC = () => {
             ))}
           </select>
         </div>
+
+        {locations.length > 1 && (
+          <div className="filter-box">
+            <select
+              value={selectedLocation}
+              onChange={(e) => {
+                setSelectedLocation(e.target.value);
+                setPage(1);
+              }}
+              className="filter-select"
+            >
+              <option value="">All Locations</option>
+              {locations.map((location) => (
+                <option key={location.id} value={location.id}>{location.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <label className="filter-toggle">
+          <input
+            type="checkbox"
+            checked={videoOnly}
+            onChange={(e) => {
+              setVideoOnly(e.target.checked);
+              setPage(1);
+            }}
+          />
+          📹 Video available
+        </label>
       </div>
 
       {/* Loading State */}
@@ -86,20 +140,32 @@ const UserDashboard: React.FC = () => {
       {/* Doctors Grid */}
       {!loading && (
         <div className="doctors-grid">
-          {filteredDoctors.length === 0 ? (
+          {doctors.length === 0 ? (
             <div className="no-results">
               <p>No doctors found. Contact admin to add doctors.</p>
             </div>
           ) : (
-            filteredDoctors.map((doctor) => (
+            doctors.map((doctor) => (
               <div key={doctor.id} className="doctor-card">
-                <div className="doctor-avatar">
-                  {doctor.name.charAt(0)}
-                </div>
+                <DoctorAvatar name={doctor.name} photoUrl={doctor.photo_url} />
                 <div className="doctor-info">
                   <h3>{doctor.name}</h3>
                   <p className="specialty">{doctor.specialty}</p>
+                  {doctor.qualifications && <p className="qualifications">{doctor.qualifications}</p>}
                   <p className="fee">₹{doctor.consultation_fee} / consultation</p>
+                  <div className="doctor-facts">
+                    {doctor.years_of_experience != null && (
+                      <span>🩺 {doctor.years_of_experience} yrs experience</span>
+                    )}
+                    {doctor.languages && doctor.languages.length > 0 && (
+                      <span>🗣️ {doctor.languages.join(', ')}</span>
+                    )}
+                    {doctor.locations && doctor.locations.length > 0 && (
+                      <span>📍 {doctor.locations.map((location) => location.name).join(', ')}</span>
+                    )}
+                    {doctor.has_video_slots && <span>📹 Video visits</span>}
+                  </div>
+                  {doctor.bio && <p className="doctor-bio">{doctor.bio}</p>}
                   <p className="email">{doctor.email}</p>
                 </div>
                 <button
@@ -114,6 +180,21 @@ const UserDashboard: React.FC = () => {
         </div>
       )}
 
+      {/* Pagination */}
+      {!loading && pagination && pagination.total_pages > 1 && (
+        <div className="pagination">
+          <button onClick={() => setPage(page - 1)} disabled={page <= 1} className="btn-change">
+            ‹ Previous
+          </button>
+          <span>
+            Page {pagination.page} of {pagination.total_pages} ({pagination.total} doctors)
+          </span>
+          <button onClick={() => setPage(page + 1)} disabled={page >= pagination.total_pages} className="btn-change">
+            Next ›
+          </button>
+        </div>
+      )}
+
       {/* Quick Info */}
       <div className="info-section">
         <div className="info-card">
@@ -122,7 +203,7 @@ const UserDashboard: React.FC = () => {
         </div>
         <div className="info-card">
           <h3>⏱️ Quick Process</h3>
-          <p>Get confirmation within 2 minutes</p>
+          <p>Book now and confirm from My Appointments</p>
         </div>
         <div className="info-card">
           <h3>🔒 Secure</h3>
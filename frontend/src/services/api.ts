@@ -2,7 +2,8 @@ import axios from 'axios';
 
 // Change this to your deployed backend URL after deployment
 const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000';
-fetch(`${API_URL}/api/appointments`)
+
+export const TOKEN_STORAGE_KEY = 'authToken';
 
 const api = axios.create({
   baseURL: API_URL,
@@ -11,22 +12,151 @@ const api = axios.create({
   },
 });
 
+// Attach the logged-in user's token to every request
+api.interceptors.request.use((config) => {
+  const token = localStorage.getItem(TOKEN_STORAGE_KEY);
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+// Send the user to the login page when their session is missing or expired
+api.interceptors.response.use(
+  (response) => response,
+  (error) => {
+    const isAuthRequest = error.config?.url?.startsWith('/api/auth/');
+    if (error.response?.status === 401 && !isAuthRequest) {
+      localStorage.removeItem(TOKEN_STORAGE_KEY);
+      if (window.location.pathname !== '/login') {
+        window.location.href = `/login?redirect=${encodeURIComponent(window.location.pathname)}`;
+      }
+    }
+    return Promise.reject(error);
+  }
+);
+
+// ============================================
+// LIST CONTRACT
+// ============================================
+// List endpoints take ?page&limit for one page and ?sort&order for sorting.
+// Paged responses carry the total; leaving out page and limit returns the
+// whole filtered list.
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  total_pages: number;
+}
+
+export interface ListParams<SortField extends string> {
+  page?: number;
+  limit?: number;
+  sort?: SortField;
+  order?: 'asc' | 'desc';
+}
+
+export interface ListResponse<T> {
+  success: boolean;
+  message?: string;
+  data: T[];
+  pagination?: Pagination;
+}
+
+// Drops empty values so they don't end up as "?status=" in the URL
+const toParams = (query: object) => Object.fromEntries(
+  Object.entries(query).filter(([, value]) => value !== undefined && value !== '')
+);
+
+// ============================================
+// AUTH APIs
+// ============================================
+
+export const login = async (credentials: { email: string; password: string }) => {
+  const response = await api.post('/api/auth/login', credentials);
+  return response.data;
+};
+
+export const register = async (accountData: {
+  name: string;
+  email: string;
+  password: string;
+}) => {
+  const response = await api.post('/api/auth/register', accountData);
+  return response.data;
+};
+
+export const logout = async () => {
+  const response = await api.post('/api/auth/logout');
+  return response.data;
+};
+
+export const getCurrentUser = async () => {
+  const response = await api.get('/api/auth/me');
+  return response.data;
+};
+
 // ============================================
 // DOCTOR APIs
 // ============================================
 
+export interface DoctorProfile {
+  bio?: string | null;
+  qualifications?: string | null;
+  languages?: string[];
+  years_of_experience?: number | null;
+  photo_url?: string | null;
+}
+
 export const createDoctor = async (doctorData: {
   name: string;
   email: string;
   specialty: string;
   consultation_fee: number;
-}) => {
+  password?: string;
+  location_ids?: number[];
+} & DoctorProfile) => {
   const response = await api.post('/api/doctors', doctorData);
   return response.data;
 };
 
-export const getAllDoctors = async () => {
-  const response = await api.get('/api/doctors');
+export interface Doctor extends DoctorProfile {
+  id: number;
+  name: string;
+  email: string;
+  specialty: string;
+  consultation_fee: number;
+  is_active?: boolean;
+  deactivated_at?: string | null;
+  locations?: DoctorLocation[];
+  has_video_slots?: boolean; // free video slots coming up
+}
+
+export type DoctorUpdate = Partial<Omit<Doctor, 'id' | 'deactivated_at' | 'locations'>>;
+
+// PATCH changes only the fields given; is_active: false deactivates the doctor
+export const updateDoctor = async (id: number, changes: DoctorUpdate) => {
+  const response = await api.patch(`/api/doctors/${id}`, changes);
+  return response.data;
+};
+
+export interface DoctorQuery extends ListParams<'name' | 'specialty' | 'consultation_fee'> {
+  search?: string; // name or specialty
+  specialty?: string;
+  include_inactive?: boolean; // admin only
+  location_id?: number;
+  video?: boolean; // only doctors with free video slots
+}
+
+export const getAllDoctors = async (query: DoctorQuery = {}): Promise<ListResponse<Doctor>> => {
+  const response = await api.get('/api/doctors', { params: toParams(query) });
+  return response.data;
+};
+
+// Every specialty in use, for filter dropdowns
+export const getDoctorSpecialties = async () => {
+  const response = await api.get('/api/doctors/specialties');
   return response.data;
 };
 
@@ -35,41 +165,397 @@ export const getDoctorById = async (id: number) => {
   return response.data;
 };
 
+// Replaces the list of locations the doctor works at
+export const setDoctorLocations = async (doctorId: number, locationIds: number[]) => {
+  const response = await api.put(`/api/doctors/${doctorId}/locations`, { location_ids: locationIds });
+  return response.data;
+};
+
+// ============================================
+// APPOINTMENT TYPE APIs
+// ============================================
+
+export interface AppointmentType {
+  id: number;
+  doctor_id: number;
+  name: string;
+  description: string | null;
+  duration_minutes: number;
+  fee: string | null; // null: the doctor's consultation fee
+  visit_mode: VisitMode; // booked into slots of the same mode
+  is_active: boolean;
+}
+
+export type AppointmentTypeInput = Omit<AppointmentType, 'id' | 'doctor_id' | 'fee'> & {
+  fee: number | null;
+};
+
+// Active types for patients; the doctor themselves and admins also get inactive ones
+export const getAppointmentTypes = async (doctorId: number) => {
+  const response = await api.get(`/api/doctors/${doctorId}/appointment-types`);
+  return response.data;
+};
+
+export const createAppointmentType = async (doctorId: number, type: AppointmentTypeInput) => {
+  const response = await api.post(`/api/doctors/${doctorId}/appointment-types`, type);
+  return response.data;
+};
+
+// is_active: false stops offering the type; existing bookings keep it
+export const updateAppointmentType = async (doctorId: number, typeId: number, type: AppointmentTypeInput) => {
+  const response = await api.put(`/api/doctors/${doctorId}/appointment-types/${typeId}`, type);
+  return response.data;
+};
+
+// ============================================
+// PATIENT APIs
+// ============================================
+
+export interface Patient {
+  id: number;
+  user_id: number | null;
+  name: string;
+  email: string;
+  phone: string | null;
+  date_of_birth: string | null; // YYYY-MM-DD
+  gender: string | null;
+  address: string | null;
+  preferred_contact: 'email' | 'phone' | 'sms';
+  reminders_enabled: boolean;
+  emergency_contact_name: string | null;
+  emergency_contact_phone: string | null;
+  emergency_contact_relationship: string | null;
+}
+
+export type PatientUpdate = Partial<Omit<Patient, 'id' | 'user_id' | 'email'>>;
+
+// The logged-in patient's record, created from their account the first time
+export const getMyProfile = async () => {
+  const response = await api.get('/api/patients/me');
+  return response.data;
+};
+
+// PATCH changes only the fields given; empty strings clear them
+export const updateMyProfile = async (changes: PatientUpdate) => {
+  const response = await api.patch('/api/patients/me', changes);
+  return response.data;
+};
+
+export type Relationship = 'child' | 'spouse' | 'parent' | 'sibling' | 'other';
+
+// A family member the patient books appointments for
+export interface Dependent {
+  id: number;
+  patient_id: number;
+  name: string;
+  date_of_birth: string; // YYYY-MM-DD
+  relationship: Relationship;
+}
+
+export type DependentInput = Omit<Dependent, 'id' | 'patient_id'>;
+
+export const getDependents = async (): Promise<{ success: boolean; data: Dependent[] }> => {
+  const response = await api.get('/api/patients/me/dependents');
+  return response.data;
+};
+
+export const createDependent = async (dependent: DependentInput) => {
+  const response = await api.post('/api/patients/me/dependents', dependent);
+  return response.data;
+};
+
+export const updateDependent = async (id: number, dependent: DependentInput) => {
+  const response = await api.put(`/api/patients/me/dependents/${id}`, dependent);
+  return response.data;
+};
+
+// Refused while the dependent has upcoming appointments
+export const deleteDependent = async (id: number) => {
+  const response = await api.delete(`/api/patients/me/dependents/${id}`);
+  return response.data;
+};
+
+// ============================================
+// LOCATION APIs
+// ============================================
+
+export interface OpeningHours {
+  day_of_week: number; // 0 = Sunday
+  open_time: string;
+  close_time: string;
+}
+
+export interface Location {
+  id: number;
+  name: string;
+  address: string;
+  timezone: string;
+  opening_hours: OpeningHours[];
+  doctor_count?: number;
+}
+
+export interface DoctorLocation {
+  id: number;
+  name: string;
+  address: string;
+}
+
+export type LocationInput = Omit<Location, 'id' | 'doctor_count'>;
+
+export const getLocations = async (): Promise<ListResponse<Location>> => {
+  const response = await api.get('/api/locations');
+  return response.data;
+};
+
+export const createLocation = async (location: LocationInput) => {
+  const response = await api.post('/api/locations', location);
+  return response.data;
+};
+
+export const updateLocation = async (id: number, location: LocationInput) => {
+  const response = await api.put(`/api/locations/${id}`, location);
+  return response.data;
+};
+
+// Only locations that never had slots can be deleted
+export const deleteLocation = async (id: number) => {
+  const response = await api.delete(`/api/locations/${id}`);
+  return response.data;
+};
+
 // ============================================
 // SLOT APIs
 // ============================================
 
+// Video visits get a meeting link instead of a location visit
+export type VisitMode = 'in_person' | 'video';
+
+// Doctors may leave doctor_id out, their own slots are created.
+// location_id is only needed for doctors who work at several locations.
 export const createSlot = async (slotData: {
-  doctor_id: number;
+  doctor_id?: number;
+  location_id?: number;
   slot_date: string;
   start_time: string;
   end_time: string;
+  visit_mode?: VisitMode; // in_person by default
 }) => {
   const response = await api.post('/api/slots', slotData);
   return response.data;
 };
 
-export const getAvailableSlots = async (doctorId?: number) => {
-  const url = doctorId 
-    ? `/api/slots/available?doctor_id=${doctorId}`
-    : '/api/slots/available';
+// Only free slots that were never booked can be deleted
+export const deleteSlot = async (slotId: number) => {
+  const response = await api.delete(`/api/slots/${slotId}`);
+  return response.data;
+};
+
+export interface AvailableSlot {
+  id: number;
+  doctor_id: number;
+  slot_date: string; // clinic wall clock
+  start_time: string;
+  end_time: string;
+  starts_at: string; // ISO timestamps
+  ends_at: string;
+  timezone: string; // the clinic's, render times in it
+  doctor_name: string;
+  specialty: string;
+  consultation_fee: number;
+  location_id: number | null;
+  location_name: string | null;
+  location_address: string | null;
+  visit_mode: VisitMode;
+  is_held_for_me: boolean;
+}
+
+export interface SlotQuery extends ListParams<'slot_date'> {
+  from?: string;
+  to?: string;
+  location_id?: number;
+  visit_mode?: VisitMode;
+  appointment_type_id?: number; // only slots of its mode with enough free time after them for the type
+}
+
+export const getAvailableSlots = async (
+  doctorId?: number,
+  query: SlotQuery = {}
+): Promise<ListResponse<AvailableSlot>> => {
+  const response = await api.get('/api/slots/available', {
+    params: toParams({ ...query, doctor_id: doctorId })
+  });
+  return response.data;
+};
+
+// slot.updated: the appointment on the slot changed status (confirmed, completed, ...)
+export type SlotEventType = 'slot.created' | 'slot.booked' | 'slot.held' | 'slot.released' | 'slot.updated';
+
+export interface SlotEvent {
+  type: SlotEventType;
+  slots: { id: number; doctor_id: number }[];
+}
+
+// Slots being created, booked, held, released and updated, live over Server-Sent Events. Changes
+// made while the stream was down are not replayed, so onReconnect should
+// reload. Returns a function that closes the stream.
+export const subscribeToSlotEvents = (onEvent: (event: SlotEvent) => void, onReconnect?: () => void) => {
+  const source = new EventSource(`${API_URL}/api/slots/events`);
+  let connected = false;
+
+  const listen = (type: SlotEventType) => source.addEventListener(type, (message) => {
+    onEvent({ type, ...JSON.parse((message as MessageEvent).data) });
+  });
+  listen('slot.created');
+  listen('slot.booked');
+  listen('slot.held');
+  listen('slot.released');
+  listen('slot.updated');
+
+  source.onopen = () => {
+    if (connected) onReconnect?.();
+    connected = true;
+  };
+
+  return () => source.close();
+};
+
+export interface SlotHold {
+  slot_ids: number[]; // a longer visit holds the slots after the first too
+  hold_expires_at: string;
+}
+
+// Hold a slot (with its type, every slot the visit needs) while the booking
+// form is filled in; hidden from others until booked, released or expired
+export const holdSlot = async (slotId: number, appointmentTypeId?: number) => {
+  const response = await api.post(`/api/slots/${slotId}/hold`, { appointment_type_id: appointmentTypeId });
+  return response.data;
+};
+
+export const releaseSlotHold = async (slotId: number) => {
+  const response = await api.delete(`/api/slots/${slotId}/hold`);
+  return response.data;
+};
+
+// Every slot of one doctor between two dates (inclusive), with its
+// current appointment if there is one
+export const getDoctorSchedule = async (doctorId: number, from: string, to: string) => {
+  const response = await api.get(`/api/doctors/${doctorId}/schedule?from=${from}&to=${to}`);
+  return response.data;
+};
+
+// ============================================
+// AVAILABILITY TEMPLATE APIs
+// ============================================
+
+export interface AvailabilityTemplate {
+  id?: number;
+  day_of_week: number;
+  start_time: string;
+  end_time: string;
+  slot_minutes: number;
+  buffer_minutes: number;
+  location_id?: number | null; // null = the doctor's only location
+  visit_mode?: VisitMode; // of the slots it generates, in_person by default
+}
+
+export const getAvailabilityTemplates = async (doctorId: number) => {
+  const response = await api.get(`/api/doctors/${doctorId}/availability`);
+  return response.data;
+};
+
+export const saveAvailabilityTemplates = async (doctorId: number, templates: AvailabilityTemplate[]) => {
+  const response = await api.put(`/api/doctors/${doctorId}/availability`, { templates });
+  return response.data;
+};
+
+// Pass templates to preview unsaved changes, omit them to preview the saved schedule
+export const previewGeneratedSlots = async (
+  doctorId: number,
+  weeks: number,
+  templates?: AvailabilityTemplate[]
+) => {
+  const response = await api.post(`/api/doctors/${doctorId}/availability/preview`, { weeks, templates });
+  return response.data;
+};
+
+export const generateSlotsFromTemplates = async (doctorId: number, weeks: number) => {
+  const response = await api.post(`/api/doctors/${doctorId}/availability/generate`, { weeks });
+  return response.data;
+};
+
+// ============================================
+// TIME OFF APIs
+// ============================================
+
+export const getTimeOff = async (doctorId?: number) => {
+  const url = doctorId
+    ? `/api/time-off?doctor_id=${doctorId}`
+    : '/api/time-off';
   const response = await api.get(url);
   return response.data;
 };
 
+// Leave doctor_id out to close the whole clinic, and the times out to block whole days
+export const createTimeOff = async (timeOffData: {
+  doctor_id?: number;
+  start_date: string;
+  end_date: string;
+  start_time?: string;
+  end_time?: string;
+  reason?: string;
+  cancel_appointments: boolean;
+}) => {
+  const response = await api.post('/api/time-off', timeOffData);
+  return response.data;
+};
+
+export const deleteTimeOff = async (timeOffId: number) => {
+  const response = await api.delete(`/api/time-off/${timeOffId}`);
+  return response.data;
+};
+
+// ============================================
+// WAITLIST APIs
+// ============================================
+
+export const joinWaitlist = async (waitlistData: { doctor_id: number; preferred_date?: string }) => {
+  const response = await api.post('/api/waitlist', waitlistData);
+  return response.data;
+};
+
+export const getWaitlist = async () => {
+  const response = await api.get('/api/waitlist');
+  return response.data;
+};
+
+export const leaveWaitlist = async (entryId: number) => {
+  const response = await api.delete(`/api/waitlist/${entryId}`);
+  return response.data;
+};
+
 // ============================================
 // APPOINTMENT APIs
 // ============================================
 
+// A fresh key for one booking attempt (randomUUID would need https)
+export const newIdempotencyKey = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
 export const bookAppointment = async (appointmentData: {
   slot_id: number;
   patient_name: string;
-  patient_email: string;
+  patient_email?: string;
   patient_phone: string;
   patient_age: number;
   reason_for_visit: string;
-}) => {
-  const response = await api.post('/api/appointments', appointmentData);
+  dependent_id?: number; // booking for one of the patient's dependents
+  appointment_type_id?: number; // required when the doctor offers appointment types
+}, idempotencyKey?: string) => {
+  // Sending the same key again (a retry) gets the first booking back
+  // instead of booking twice
+  const response = await api.post('/api/appointments', appointmentData, {
+    headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined
+  });
   return response.data;
 };
 
@@ -83,19 +569,285 @@ export const cancelAppointment = async (appointmentId: number) => {
   return response.data;
 };
 
+// Doctors and admins record how a confirmed appointment went once it has started
+export const completeAppointment = async (appointmentId: number) => {
+  const response = await api.post(`/api/appointments/${appointmentId}/complete`);
+  return response.data;
+};
+
+export const markAppointmentNoShow = async (appointmentId: number) => {
+  const response = await api.post(`/api/appointments/${appointmentId}/no-show`);
+  return response.data;
+};
+
+// Every status change of one appointment, oldest first
+export const getAppointmentEvents = async (appointmentId: number) => {
+  const response = await api.get(`/api/appointments/${appointmentId}/events`);
+  return response.data;
+};
+
+// Moves the appointment to another free slot of the same doctor
+export const rescheduleAppointment = async (appointmentId: number, slotId: number) => {
+  const response = await api.post(`/api/appointments/${appointmentId}/reschedule`, { slot_id: slotId });
+  return response.data;
+};
+
+// Patients and doctors only ever get their own appointments back;
+// admins may narrow the list down to one patient
 export const getAppointments = async (patientEmail?: string) => {
   const url = patientEmail 
-    ? `/api/appointments?patient_email=${patientEmail}`
+    ? `/api/appointments?patient_email=${encodeURIComponent(patientEmail)}`
     : '/api/appointments';
   const response = await api.get(url);
   return response.data;
 };
 
+export interface AppointmentListItem {
+  id: number;
+  slot_id: number;
+  doctor_id: number;
+  status: string;
+  patient_name: string;
+  patient_email: string;
+  patient_phone: string;
+  patient_age: number;
+  reason_for_visit: string;
+  booking_time: string;
+  slot_date: string;
+  start_time: string;
+  end_time: string; // the end of the visit, which may run past its start slot
+  starts_at: string;
+  ends_at: string;
+  timezone: string;
+  doctor_name: string;
+  specialty: string;
+  consultation_fee: number; // the fee it was booked at
+  appointment_type_name: string | null;
+  duration_minutes: number | null;
+  visit_mode: VisitMode;
+  meeting_url: string | null; // video visits, only while the link is open
+  meeting_opens_at: string | null;
+  location_name: string | null;
+  payment_status: PaymentStatus | null;
+  payment_amount: string | null;
+  refunded_amount: string | null;
+}
+
+export interface AppointmentQuery
+  extends ListParams<'booking_time' | 'slot_date' | 'patient_name' | 'doctor_name' | 'status'> {
+  doctor_id?: string;
+  location_id?: string;
+  status?: string; // comma-separated
+  from?: string;
+  to?: string;
+  patient?: string; // name, email or phone
+}
+
+export const searchAppointments = async (query: AppointmentQuery): Promise<ListResponse<AppointmentListItem>> => {
+  const response = await api.get('/api/appointments', { params: toParams(query) });
+  return response.data;
+};
+
+export const bulkUpdateAppointments = async (action: 'confirm' | 'cancel', ids: number[]) => {
+  const response = await api.post('/api/appointments/bulk', { action, ids });
+  return response.data;
+};
+
+// CSV of the filtered appointments (or only ids, when given) as a Blob
+export const exportAppointments = async (query: AppointmentQuery, ids?: number[]) => {
+  const response = await api.get('/api/appointments/export', {
+    params: toParams({ ...query, page: undefined, limit: undefined, ids: ids?.join(',') }),
+    responseType: 'blob'
+  });
+  return response.data as Blob;
+};
+
+// ============================================
+// PAYMENT APIs
+// ============================================
+
+export type PaymentStatus =
+  | 'REQUIRES_PAYMENT'
+  | 'SUCCEEDED'
+  | 'FAILED'
+  | 'CANCELLED'
+  | 'PARTIALLY_REFUNDED'
+  | 'REFUNDED';
+
+export interface PaymentRefund {
+  id: number;
+  amount: string;
+  reason: string | null;
+  created_at: string;
+}
+
+export interface Payment {
+  id: number;
+  appointment_id: number;
+  provider: string;
+  amount: string;
+  currency: string;
+  status: PaymentStatus;
+  refunded_amount: string;
+  failure_reason: string | null;
+  paid_at: string | null;
+  created_at: string;
+  refunds: PaymentRefund[];
+}
+
+export const getAppointmentPayment = async (appointmentId: number) => {
+  const response = await api.get(`/api/appointments/${appointmentId}/payment`);
+  return response.data;
+};
+
+// Development checkout: pays (or declines) through the mock provider, which
+// confirms the appointment the same way a real provider's webhook would
+export const payWithMockProvider = async (paymentId: number, outcome: 'succeeded' | 'failed' = 'succeeded') => {
+  const response = await api.post(`/api/payments/${paymentId}/mock-checkout`, { outcome });
+  return response.data;
+};
+
+// ============================================
+// CANCELLATION POLICY APIs
+// ============================================
+
+// The default policy, a location's (overrides the default) or a doctor's
+// (overrides both)
+export interface CancellationPolicy {
+  id: number;
+  scope: 'default' | 'location' | 'doctor';
+  doctor_id: number | null;
+  location_id: number | null;
+  doctor_name?: string | null;
+  location_name?: string | null;
+  min_notice_hours: number;
+  late_notice_hours: number;
+  late_fee_percent: number;
+  max_cancellations: number | null; // per period_days, null = no limit
+  period_days: number;
+}
+
+export type CancellationRules = Pick<
+  CancellationPolicy,
+  'min_notice_hours' | 'late_notice_hours' | 'late_fee_percent' | 'max_cancellations' | 'period_days'
+>;
+
+// What cancelling an appointment right now would mean under its policy
+export interface CancellationPreview {
+  policy: CancellationPolicy;
+  allowed: boolean;
+  reason: string | null;
+  hours_notice: number;
+  is_late: boolean;
+  fee_percent: number;
+  fee_amount: number;
+  refund_amount: number;
+  currency: string;
+  cancellations_used: number;
+}
+
+export const getCancellationPreview = async (appointmentId: number) => {
+  const response = await api.get(`/api/appointments/${appointmentId}/cancellation`);
+  return response.data;
+};
+
+export const getCancellationPolicies = async () => {
+  const response = await api.get('/api/cancellation-policies');
+  return response.data;
+};
+
+// New policies are for one doctor or one location
+export const createCancellationPolicy = async (
+  policy: CancellationRules & ({ doctor_id: number } | { location_id: number })
+) => {
+  const response = await api.post('/api/cancellation-policies', policy);
+  return response.data;
+};
+
+export const updateCancellationPolicy = async (id: number, rules: CancellationRules) => {
+  const response = await api.put(`/api/cancellation-policies/${id}`, rules);
+  return response.data;
+};
+
+// The default policy can't be deleted
+export const deleteCancellationPolicy = async (id: number) => {
+  const response = await api.delete(`/api/cancellation-policies/${id}`);
+  return response.data;
+};
+
+// ============================================
+// SETTINGS APIs
+// ============================================
+
+export const getReminderSettings = async () => {
+  const response = await api.get('/api/settings/reminders');
+  return response.data;
+};
+
+// Minutes before the appointment, e.g. [1440, 120] for 24h and 2h
+export const saveReminderSettings = async (offsetsMinutes: number[]) => {
+  const response = await api.put('/api/settings/reminders', { offsets_minutes: offsetsMinutes });
+  return response.data;
+};
+
+// Global PENDING hold window plus per-doctor overrides
+export const getHoldSettings = async () => {
+  const response = await api.get('/api/settings/hold');
+  return response.data;
+};
+
+export const saveHoldSettings = async (pendingHoldMinutes: number) => {
+  const response = await api.put('/api/settings/hold', { pending_hold_minutes: pendingHoldMinutes });
+  return response.data;
+};
+
+// null removes the override so the doctor uses the global value again
+export const saveDoctorHoldMinutes = async (doctorId: number, pendingHoldMinutes: number | null) => {
+  const response = await api.put(`/api/settings/hold/doctors/${doctorId}`, {
+    pending_hold_minutes: pendingHoldMinutes
+  });
+  return response.data;
+};
+
+// How many bookings one patient may have with the same doctor (null = no limit)
+export interface BookingLimits {
+  max_pending_per_doctor: number | null;
+  max_upcoming_per_doctor: number | null;
+}
+
+export const getBookingLimits = async () => {
+  const response = await api.get('/api/settings/booking-limits');
+  return response.data;
+};
+
+export const saveBookingLimits = async (limits: BookingLimits) => {
+  const response = await api.put('/api/settings/booking-limits', limits);
+  return response.data;
+};
+
 // ============================================
 // DASHBOARD APIs
 // ============================================
 
-export const getDashboardStats = async () => {
+// Counts come straight from COUNT(*), so they arrive as strings
+export interface DashboardCounts {
+  total_doctors: string;
+  available_slots: string;
+  pending_appointments: string;
+  confirmed_appointments: string;
+}
+
+// The same figures for one location (active doctors only)
+export interface LocationStats extends DashboardCounts {
+  id: number;
+  name: string;
+}
+
+export interface DashboardStats extends DashboardCounts {
+  locations: LocationStats[];
+}
+
+export const getDashboardStats = async (): Promise<{ success: boolean; data: DashboardStats }> => {
   const response = await api.get('/api/dashboard/stats');
   return response.data;
 };
@@ -0,0 +1,133 @@
+import {
+  formatDate,
+  formatSlotDate,
+  formatSlotTime,
+  formatDateTime,
+  hasStarted,
+  yearsSince,
+  withDuration
+} from './dateTime';
+
+const NEW_YORK = 'America/New_York';
+
+describe('formatDate', () => {
+  const originalTz = process.env.TZ;
+
+  // A browser west of Greenwich used to show every slot a day early
+  beforeAll(() => { process.env.TZ = 'America/Los_Angeles'; });
+  afterAll(() => { process.env.TZ = originalTz; });
+
+  test('keeps the calendar day in a negative-offset timezone', () => {
+    expect(formatDate('2025-03-09')).toBe('Sunday, March 9, 2025');
+  });
+
+  test('ignores a time part', () => {
+    expect(formatDate('2025-01-01T00:00:00.000Z', { month: 'short', day: 'numeric' })).toBe('Jan 1');
+  });
+});
+
+describe('formatSlotTime', () => {
+  test('shows the clinic wall clock with its zone', () => {
+    expect(formatSlotTime({
+      slot_date: '2025-01-15',
+      start_time: '09:30:00',
+      end_time: '10:00:00',
+      starts_at: '2025-01-15T04:00:00.000Z',
+      ends_at: '2025-01-15T04:30:00.000Z',
+      timezone: 'Asia/Kolkata'
+    })).toBe('09:30 - 10:00 GMT+5:30');
+  });
+
+  test('names both zones when a slot spans the spring-forward gap', () => {
+    // 2025-03-09: New York clocks jump from 02:00 EST to 03:00 EDT
+    expect(formatSlotTime({
+      slot_date: '2025-03-09',
+      start_time: '01:30:00',
+      end_time: '03:30:00',
+      starts_at: '2025-03-09T06:30:00.000Z',
+      ends_at: '2025-03-09T07:30:00.000Z',
+      timezone: NEW_YORK
+    })).toBe('01:30 EST - 03:30 EDT');
+  });
+
+  test('tells the two 01:30s apart when clocks fall back', () => {
+    // 2025-11-02: New York clocks go back from 02:00 EDT to 01:00 EST
+    const slot = { slot_date: '2025-11-02', start_time: '01:30:00', end_time: '02:00:00', timezone: NEW_YORK };
+
+    expect(formatSlotTime({
+      ...slot,
+      starts_at: '2025-11-02T05:30:00.000Z',
+      ends_at: '2025-11-02T06:00:00.000Z'
+    })).toBe('01:30 EDT - 01:00 EST');
+    expect(formatSlotTime({
+      ...slot,
+      starts_at: '2025-11-02T06:30:00.000Z',
+      ends_at: '2025-11-02T07:00:00.000Z'
+    })).toBe('01:30 - 02:00 EST');
+  });
+
+  test('falls back to the wall clock without moments', () => {
+    expect(formatSlotTime({ slot_date: '2025-01-15', start_time: '09:30:00', end_time: '10:00:00' }))
+      .toBe('09:30 - 10:00');
+  });
+});
+
+describe('formatSlotDate', () => {
+  test('uses the clinic day, not the UTC day', () => {
+    // 19:00 in Los Angeles is already the next day in UTC
+    expect(formatSlotDate({
+      slot_date: '2025-01-14',
+      start_time: '19:00:00',
+      end_time: '19:30:00',
+      starts_at: '2025-01-15T03:00:00.000Z',
+      ends_at: '2025-01-15T03:30:00.000Z',
+      timezone: 'America/Los_Angeles'
+    })).toBe('Tuesday, January 14, 2025');
+  });
+});
+
+describe('formatDateTime', () => {
+  test('switches abbreviation across DST', () => {
+    expect(formatDateTime('2025-03-08T15:00:00.000Z', NEW_YORK)).toBe('Mar 8, 2025, 10:00 EST');
+    expect(formatDateTime('2025-03-10T14:00:00.000Z', NEW_YORK)).toBe('Mar 10, 2025, 10:00 EDT');
+  });
+});
+
+describe('hasStarted', () => {
+  test('compares the real start moment', () => {
+    const slot = {
+      slot_date: '2025-03-09',
+      start_time: '03:00:00',
+      end_time: '03:30:00',
+      starts_at: '2025-03-09T07:00:00.000Z',
+      ends_at: '2025-03-09T07:30:00.000Z',
+      timezone: NEW_YORK
+    };
+
+    expect(hasStarted(slot, new Date('2025-03-09T06:59:00.000Z'))).toBe(false);
+    expect(hasStarted(slot, new Date('2025-03-09T07:00:00.000Z'))).toBe(true);
+  });
+});
+
+describe('yearsSince', () => {
+  test('counts a year only once the anniversary has passed', () => {
+    expect(yearsSince('1990-06-15', new Date(2025, 5, 14))).toBe(34);
+    expect(yearsSince('1990-06-15', new Date(2025, 5, 15))).toBe(35);
+  });
+});
+
+describe('withDuration', () => {
+  test('runs the visit past the end of its start slot', () => {
+    const visit = withDuration({
+      slot_date: '2025-01-15',
+      start_time: '09:30:00',
+      end_time: '09:45:00',
+      starts_at: '2025-01-15T04:00:00.000Z',
+      ends_at: '2025-01-15T04:15:00.000Z',
+      timezone: 'Asia/Kolkata'
+    }, 45);
+
+    expect(visit.end_time).toBe('10:15:00');
+    expect(formatSlotTime(visit)).toBe('09:30 - 10:15 GMT+5:30');
+  });
+});
@@ -0,0 +1,104 @@
+// Slot times come from the API twice: as the clinic's wall clock
+// (slot_date "2025-03-09", start_time "09:30:00") and as real moments
+// (starts_at / ends_at ISO timestamps) with the clinic's timezone.
+// Everything here renders in that timezone, never the browser's, so every
+// patient sees the time the clinic sees.
+
+export interface SlotTimes {
+  slot_date: string;
+  start_time: string;
+  end_time: string;
+  starts_at?: string;
+  ends_at?: string;
+  timezone?: string | null;
+}
+
+const LONG_DATE: Intl.DateTimeFormatOptions = {
+  weekday: 'long',
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric'
+};
+
+// "2025-03-09" -> "Sunday, March 9, 2025". Formatted as a UTC date:
+// new Date("2025-03-09") is UTC midnight, which is still March 8 in any
+// timezone west of Greenwich.
+export const formatDate = (date: string, options: Intl.DateTimeFormatOptions = LONG_DATE) =>
+  new Date(`${date.slice(0, 10)}T00:00:00Z`).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+
+// Moment -> "09:30" on the timezone's wall clock
+export const formatTime = (moment: string | Date, timeZone?: string | null) =>
+  new Date(moment).toLocaleTimeString('en-US', {
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZone: timeZone || undefined
+  });
+
+// Short name of the timezone at that moment ("EST", "EDT", "GMT+5:30")
+export const timeZoneName = (moment: string | Date, timeZone?: string | null) =>
+  new Intl.DateTimeFormat('en-US', { timeZone: timeZone || undefined, timeZoneName: 'short' })
+    .formatToParts(new Date(moment))
+    .find((part) => part.type === 'timeZoneName')?.value || '';
+
+// Moment -> "Mar 9, 2025, 09:30 EDT" (booking times, history, ...)
+export const formatDateTime = (moment: string | Date, timeZone?: string | null) =>
+  new Date(moment).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZone: timeZone || undefined,
+    timeZoneName: 'short'
+  });
+
+// The slot's day in the clinic's timezone
+export const formatSlotDate = (slot: SlotTimes, options: Intl.DateTimeFormatOptions = LONG_DATE) =>
+  slot.starts_at
+    ? new Date(slot.starts_at).toLocaleDateString('en-US', { ...options, timeZone: slot.timezone || undefined })
+    : formatDate(slot.slot_date, options);
+
+// "09:30 - 10:00 EDT"; a slot crossing a DST change names both zones
+// ("01:30 EST - 03:30 EDT")
+export const formatSlotTime = (slot: SlotTimes) => {
+  if (!slot.starts_at || !slot.ends_at) {
+    return `${slot.start_time.slice(0, 5)} - ${slot.end_time.slice(0, 5)}`;
+  }
+
+  const startZone = timeZoneName(slot.starts_at, slot.timezone);
+  const endZone = timeZoneName(slot.ends_at, slot.timezone);
+  const start = formatTime(slot.starts_at, slot.timezone);
+  const end = formatTime(slot.ends_at, slot.timezone);
+
+  return startZone === endZone
+    ? `${start} - ${end} ${endZone}`
+    : `${start} ${startZone} - ${end} ${endZone}`;
+};
+
+// Whether the slot has started (by the real moment, not the browser's clock face)
+export const hasStarted = (slot: SlotTimes, now: Date = new Date()) =>
+  slot.starts_at
+    ? new Date(slot.starts_at) <= now
+    : new Date(`${slot.slot_date}T${slot.start_time}`) <= now;
+
+// Whole years from a "YYYY-MM-DD" date until today (a patient's age)
+export const yearsSince = (date: string, today: Date = new Date()) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const hadAnniversary = today.getMonth() + 1 > month || (today.getMonth() + 1 === month && today.getDate() >= day);
+  return today.getFullYear() - year - (hadAnniversary ? 0 : 1);
+};
+
+// The slot as a visit of the given length starting in it would take it,
+// which can run past the slot's own end (longer appointment types)
+export const withDuration = <T extends SlotTimes>(slot: T, minutes: number): T => {
+  const [hours, mins] = slot.start_time.split(':').map(Number);
+  const end = hours * 60 + mins + minutes;
+
+  return {
+    ...slot,
+    end_time: `${String(Math.floor(end / 60)).padStart(2, '0')}:${String(end % 60).padStart(2, '0')}:00`,
+    ends_at: slot.starts_at && new Date(new Date(slot.starts_at).getTime() + minutes * 60 * 1000).toISOString()
+  };
+};